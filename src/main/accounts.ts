@@ -0,0 +1,146 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { app } from 'electron';
+
+export const DEFAULT_HOST = 'github.com';
+export const DEFAULT_API_BASE_URL = 'https://api.github.com';
+
+// Account created for the token configured before multiple accounts existed
+// (GITHUB_TOKEN or a token saved from Settings)
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+export interface GitHubAccount {
+  id: string;
+  host: string;
+  apiBaseUrl: string;
+  login?: string;
+  avatar_url?: string;
+}
+
+interface AccountsFile {
+  activeAccountId: string | null;
+  accounts: GitHubAccount[];
+}
+
+/**
+ * Derive the REST API base URL for a host. github.com uses api.github.com;
+ * GitHub Enterprise Server serves the API under /api/v3 on its own host.
+ */
+export function apiBaseUrlForHost(host: string): string {
+  return host === DEFAULT_HOST ? DEFAULT_API_BASE_URL : `https://${host}/api/v3`;
+}
+
+/**
+ * Normalize user input ("https://github.example.com/", "github.example.com")
+ * to a bare lowercase host name.
+ */
+export function normalizeHost(input: string): string {
+  const trimmed = input.trim().toLowerCase();
+  if (!trimmed) return DEFAULT_HOST;
+  try {
+    return new URL(trimmed.includes('://') ? trimmed : `https://${trimmed}`).host;
+  } catch {
+    return trimmed.replace(/\/+$/, '');
+  }
+}
+
+function defaultAccounts(): AccountsFile {
+  return {
+    activeAccountId: DEFAULT_ACCOUNT_ID,
+    accounts: [{ id: DEFAULT_ACCOUNT_ID, host: DEFAULT_HOST, apiBaseUrl: DEFAULT_API_BASE_URL }],
+  };
+}
+
+class AccountManager {
+  private accountsPath: string;
+  private data: AccountsFile;
+
+  constructor() {
+    this.accountsPath = path.join(app.getPath('userData'), 'accounts.json');
+    this.data = this.load();
+  }
+
+  private load(): AccountsFile {
+    try {
+      if (fs.existsSync(this.accountsPath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.accountsPath, 'utf-8'));
+        if (Array.isArray(parsed.accounts) && parsed.accounts.length > 0) {
+          return parsed;
+        }
+      }
+    } catch (error) {
+      console.warn('Invalid accounts file, starting with the default account:', error);
+    }
+
+    return defaultAccounts();
+  }
+
+  private save(): void {
+    try {
+      fs.writeFileSync(this.accountsPath, JSON.stringify(this.data, null, 2), 'utf-8');
+    } catch (error) {
+      console.error('Failed to save accounts:', error);
+      throw error;
+    }
+  }
+
+  listAccounts(): GitHubAccount[] {
+    return [...this.data.accounts];
+  }
+
+  getAccount(id: string): GitHubAccount | null {
+    return this.data.accounts.find((a) => a.id === id) || null;
+  }
+
+  getActiveAccount(): GitHubAccount {
+    return this.getAccount(this.data.activeAccountId || '') || this.data.accounts[0];
+  }
+
+  setActiveAccount(id: string): GitHubAccount {
+    const account = this.getAccount(id);
+    if (!account) {
+      throw new Error(`Unknown account: ${id}`);
+    }
+    this.data.activeAccountId = id;
+    this.save();
+    return account;
+  }
+
+  /**
+   * Add or update an account. Accounts are identified by login and host, so
+   * re-adding the same user on the same host replaces its settings.
+   */
+  upsertAccount(account: GitHubAccount): GitHubAccount {
+    const index = this.data.accounts.findIndex((a) => a.id === account.id);
+    if (index === -1) {
+      this.data.accounts.push(account);
+    } else {
+      this.data.accounts[index] = { ...this.data.accounts[index], ...account };
+    }
+    this.save();
+    return this.getAccount(account.id) as GitHubAccount;
+  }
+
+  removeAccount(id: string): void {
+    this.data.accounts = this.data.accounts.filter((a) => a.id !== id);
+    if (this.data.accounts.length === 0) {
+      this.data = defaultAccounts();
+    }
+    if (this.data.activeAccountId === id) {
+      this.data.activeAccountId = this.data.accounts[0].id;
+    }
+    this.save();
+  }
+
+  /**
+   * Key used for everything stored locally about a repository (install
+   * folder, folder mappings, notes). github.com keeps the plain "owner/repo"
+   * so existing installs are unaffected; other hosts are prefixed with the
+   * host so same-named repositories don't collide.
+   */
+  getProjectKey(fullName: string, account: GitHubAccount = this.getActiveAccount()): string {
+    return account.host === DEFAULT_HOST ? fullName : `${account.host}/${fullName}`;
+  }
+}
+
+export const accountManager = new AccountManager();
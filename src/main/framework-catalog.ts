@@ -0,0 +1,230 @@
+/**
+ * Frameworks recognised during project detection. Entries are checked in
+ * order and the first match wins, so meta-frameworks come before the UI
+ * libraries they build on (a Next.js app also depends on React).
+ */
+
+export type FrameworkEcosystem = 'node' | 'python' | 'java' | 'ruby' | 'php';
+
+export interface FrameworkEntry {
+  name: string;
+  ecosystem: FrameworkEcosystem;
+  type: 'frontend' | 'backend' | 'fullstack';
+  // Port the dev server uses when the project doesn't configure one
+  port: number;
+  // Any of these dependencies identifies the framework
+  dependencies?: string[];
+  // ...as does any of these files in the project root
+  files?: string[];
+  // Run command for projects without their own dev script
+  devCommand?: string | ((rootFiles: string[]) => string);
+  // Path that answers once the dev server is up
+  readinessPath: string;
+}
+
+export const FRAMEWORK_CATALOG: FrameworkEntry[] = [
+  // Node meta-frameworks
+  {
+    name: 'Next.js',
+    ecosystem: 'node',
+    type: 'fullstack',
+    port: 3000,
+    dependencies: ['next'],
+    devCommand: 'npx next dev',
+    readinessPath: '/',
+  },
+  {
+    name: 'Nuxt',
+    ecosystem: 'node',
+    type: 'fullstack',
+    port: 3000,
+    dependencies: ['nuxt', 'nuxt3'],
+    devCommand: 'npx nuxi dev',
+    readinessPath: '/',
+  },
+  {
+    name: 'SvelteKit',
+    ecosystem: 'node',
+    type: 'fullstack',
+    port: 5173,
+    dependencies: ['@sveltejs/kit'],
+    devCommand: 'npx vite dev',
+    readinessPath: '/',
+  },
+  {
+    name: 'Remix',
+    ecosystem: 'node',
+    type: 'fullstack',
+    port: 5173,
+    dependencies: ['@remix-run/dev', '@remix-run/react'],
+    devCommand: 'npx remix vite:dev',
+    readinessPath: '/',
+  },
+  {
+    name: 'Astro',
+    ecosystem: 'node',
+    type: 'frontend',
+    port: 4321,
+    dependencies: ['astro'],
+    devCommand: 'npx astro dev',
+    readinessPath: '/',
+  },
+  {
+    name: 'Angular',
+    ecosystem: 'node',
+    type: 'frontend',
+    port: 4200,
+    dependencies: ['@angular/core'],
+    devCommand: 'npx ng serve',
+    readinessPath: '/',
+  },
+  {
+    name: 'NestJS',
+    ecosystem: 'node',
+    type: 'backend',
+    port: 3000,
+    dependencies: ['@nestjs/core'],
+    devCommand: 'npx nest start --watch',
+    readinessPath: '/',
+  },
+  // Plain Vite apps, whatever UI library they render with
+  {
+    name: 'Vite',
+    ecosystem: 'node',
+    type: 'frontend',
+    port: 5173,
+    dependencies: ['vite'],
+    devCommand: 'npx vite',
+    readinessPath: '/',
+  },
+  {
+    name: 'React',
+    ecosystem: 'node',
+    type: 'frontend',
+    port: 3000,
+    dependencies: ['react', 'react-dom'],
+    devCommand: 'npx react-scripts start',
+    readinessPath: '/',
+  },
+  {
+    name: 'Vue',
+    ecosystem: 'node',
+    type: 'frontend',
+    port: 8080,
+    dependencies: ['vue'],
+    devCommand: 'npx vue-cli-service serve',
+    readinessPath: '/',
+  },
+  {
+    name: 'Express',
+    ecosystem: 'node',
+    type: 'backend',
+    port: 5000,
+    dependencies: ['express'],
+    readinessPath: '/',
+  },
+  {
+    name: 'Fastify',
+    ecosystem: 'node',
+    type: 'backend',
+    port: 3000,
+    dependencies: ['fastify'],
+    readinessPath: '/',
+  },
+  {
+    name: 'Hapi',
+    ecosystem: 'node',
+    type: 'backend',
+    port: 3000,
+    dependencies: ['@hapi/hapi', 'hapi'],
+    readinessPath: '/',
+  },
+
+  // Python
+  {
+    name: 'Django',
+    ecosystem: 'python',
+    type: 'backend',
+    port: 8000,
+    dependencies: ['django'],
+    files: ['manage.py'],
+    devCommand: 'python manage.py runserver',
+    readinessPath: '/',
+  },
+  {
+    name: 'FastAPI',
+    ecosystem: 'python',
+    type: 'backend',
+    port: 8000,
+    dependencies: ['fastapi'],
+    devCommand: (rootFiles) => `uvicorn ${rootFiles.includes('main.py') ? 'main' : 'app'}:app --reload`,
+    readinessPath: '/docs',
+  },
+  {
+    name: 'Flask',
+    ecosystem: 'python',
+    type: 'backend',
+    port: 5000,
+    dependencies: ['flask'],
+    devCommand: 'flask run',
+    readinessPath: '/',
+  },
+
+  // Java
+  {
+    name: 'Spring Boot',
+    ecosystem: 'java',
+    type: 'backend',
+    port: 8080,
+    dependencies: ['org.springframework.boot', 'spring-boot-starter-parent', 'spring-boot-starter-web', 'spring-boot-starter'],
+    devCommand: (rootFiles) => {
+      if (rootFiles.includes('pom.xml')) return 'mvn spring-boot:run';
+      return process.platform === 'win32' ? 'gradlew.bat bootRun' : './gradlew bootRun';
+    },
+    readinessPath: '/',
+  },
+
+  // Ruby
+  {
+    name: 'Rails',
+    ecosystem: 'ruby',
+    type: 'fullstack',
+    port: 3000,
+    dependencies: ['rails'],
+    devCommand: 'bin/rails server',
+    readinessPath: '/',
+  },
+
+  // PHP
+  {
+    name: 'Laravel',
+    ecosystem: 'php',
+    type: 'fullstack',
+    port: 8000,
+    dependencies: ['laravel/framework'],
+    files: ['artisan'],
+    devCommand: 'php artisan serve',
+    readinessPath: '/',
+  },
+];
+
+/**
+ * The first catalog entry of an ecosystem that the project's dependencies or
+ * root files identify.
+ */
+export function matchFramework(
+  ecosystem: FrameworkEcosystem,
+  dependencies: Set<string>,
+  rootFiles: string[]
+): FrameworkEntry | undefined {
+  return FRAMEWORK_CATALOG.find(
+    (entry) =>
+      entry.ecosystem === ecosystem &&
+      (entry.dependencies?.some((dep) => dependencies.has(dep)) ||
+        entry.files?.some((file) => rootFiles.includes(file)))
+  );
+}
+
+export function frameworkDevCommand(entry: FrameworkEntry, rootFiles: string[]): string | undefined {
+  return typeof entry.devCommand === 'function' ? entry.devCommand(rootFiles) : entry.devCommand;
+}
@@ -1,8 +1,10 @@
 import { simpleGit, SimpleGit } from 'simple-git';
 import path from 'path';
 import fs from 'fs/promises';
+import { existsSync } from 'fs';
 import { execSync } from 'child_process';
 import { app } from 'electron';
+import { parseFullName } from './github-service.js';
 
 interface CloneOptions {
   onProgress?: (message: string) => void;
@@ -57,7 +59,7 @@ class GitOperations {
     try {
       await this.ensureBaseDir();
 
-      const projectPath = path.join(this.baseDir, repoName);
+      const projectPath = this.getProjectPath(repoName);
 
       // Check if already cloned
       try {
@@ -71,6 +73,7 @@ class GitOperations {
       }
 
       options?.onProgress?.(`Cloning repository to ${projectPath}...`);
+      await fs.mkdir(path.dirname(projectPath), { recursive: true });
 
       const git: SimpleGit = simpleGit();
       await git.clone(repoUrl, projectPath);
@@ -91,8 +94,28 @@ class GitOperations {
     }
   }
 
+  /**
+   * Resolve the local folder for a repository key. Keys are "owner/repo" and
+   * map to baseDir/owner/repo so same-named repos from different owners don't
+   * collide; repos from GitHub Enterprise hosts are keyed "host/owner/repo".
+   * Clones made before keys were owner-aware live at baseDir/repo and are
+   * still picked up.
+   */
   getProjectPath(repoName: string): string {
-    return path.join(this.baseDir, repoName);
+    const projectPath = path.join(this.baseDir, ...repoName.split('/'));
+    const parsed = this.parseLegacyKey(repoName);
+    if (parsed && !existsSync(projectPath)) {
+      const legacyPath = path.join(this.baseDir, parsed.repo);
+      if (existsSync(path.join(legacyPath, '.git'))) {
+        return legacyPath;
+      }
+    }
+    return projectPath;
+  }
+
+  // Only plain "owner/repo" keys can have a pre-owner-aware legacy location
+  private parseLegacyKey(repoName: string): { owner: string; repo: string } | null {
+    return repoName.split('/').length === 2 ? parseFullName(repoName) : null;
   }
 
   getBaseDir(): string {
@@ -100,7 +123,7 @@ class GitOperations {
   }
 
   async deleteProject(repoName: string): Promise<void> {
-    const projectPath = path.join(this.baseDir, repoName);
+    const projectPath = this.getProjectPath(repoName);
     const maxRetries = 3;
     const retryDelay = 1500;
 
@@ -215,8 +238,24 @@ class GitOperations {
     }
   }
 
+  /**
+   * Branch checked out in the local clone, or null when HEAD is detached or
+   * the project isn't installed.
+   */
+  async getCurrentBranch(repoName: string): Promise<string | null> {
+    const projectPath = await this.getProjectPathAsync(repoName);
+    try {
+      await fs.access(projectPath);
+      const git: SimpleGit = simpleGit(projectPath);
+      const branch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+      return branch && branch !== 'HEAD' ? branch : null;
+    } catch {
+      return null;
+    }
+  }
+
   async checkForRemoteChanges(repoName: string): Promise<{ hasChanges: boolean; ahead: number; behind: number }> {
-    const projectPath = path.join(this.baseDir, repoName);
+    const projectPath = this.getProjectPath(repoName);
     try {
       await fs.access(projectPath);
       const git: SimpleGit = simpleGit(projectPath);
@@ -237,7 +276,7 @@ class GitOperations {
   }
 
   async fetchAndCheckRemoteChanges(repoName: string): Promise<{ hasChanges: boolean; ahead: number; behind: number }> {
-    const projectPath = path.join(this.baseDir, repoName);
+    const projectPath = this.getProjectPath(repoName);
     try {
       await fs.access(projectPath);
       const git: SimpleGit = simpleGit(projectPath);
@@ -260,7 +299,7 @@ class GitOperations {
   }
 
   async pullChanges(repoName: string): Promise<{ success: boolean; message: string }> {
-    const projectPath = path.join(this.baseDir, repoName);
+    const projectPath = this.getProjectPath(repoName);
     try {
       await fs.access(projectPath);
       const git: SimpleGit = simpleGit(projectPath);
@@ -288,6 +327,53 @@ class GitOperations {
     }
   }
 
+  /**
+   * Fetch a pull request's head (pull/<n>/head on origin, which also covers
+   * PRs from forks) into a local pr-<n> branch and check it out.
+   */
+  async checkoutPullRequest(repoName: string, number: number): Promise<{ success: boolean; message: string; branch?: string }> {
+    // It ends up in a refspec; anything but a PR number could fetch other refs
+    if (!Number.isSafeInteger(number) || number <= 0) {
+      return { success: false, message: `Invalid pull request number: ${number}` };
+    }
+    const projectPath = await this.getProjectPathAsync(repoName);
+    const branch = `pr-${number}`;
+    try {
+      await fs.access(projectPath);
+      const git: SimpleGit = simpleGit(projectPath);
+
+      const status = await git.status();
+      if (!status.isClean()) {
+        return {
+          success: false,
+          message: 'Commit or stash your local changes before checking out a pull request'
+        };
+      }
+
+      if (status.current === branch) {
+        // git refuses to fetch into the checked-out branch, so update it in place
+        await git.fetch('origin', `pull/${number}/head`);
+        await git.reset(['--hard', 'FETCH_HEAD']);
+      } else {
+        // Force-update: the PR branch may have been rebased since the last checkout
+        await git.fetch('origin', `+pull/${number}/head:${branch}`);
+        await git.checkout(branch);
+      }
+
+      return {
+        success: true,
+        message: `Checked out pull request #${number} as ${branch}`,
+        branch
+      };
+    } catch (error) {
+      console.error('Checkout pull request error:', error);
+      return {
+        success: false,
+        message: (error as Error).message
+      };
+    }
+  }
+
   async linkExistingFolder(localPath: string, repoUrl: string, repoName: string): Promise<{ success: boolean; message: string }> {
     try {
       // Verify the folder exists
@@ -320,7 +406,7 @@ class GitOperations {
       }
 
       // Create a symlink or record the mapping
-      const targetPath = path.join(this.baseDir, repoName);
+      const targetPath = this.getProjectPath(repoName);
       try {
         await fs.access(targetPath);
         // If target exists and is different from localPath, warn user
@@ -333,6 +419,7 @@ class GitOperations {
       } catch {
         // Target doesn't exist, create symlink
         try {
+          await fs.mkdir(path.dirname(targetPath), { recursive: true });
           await fs.symlink(localPath, targetPath, 'junction');
         } catch (symlinkError) {
           // If symlink fails, save a mapping instead
@@ -377,7 +464,10 @@ class GitOperations {
     try {
       const configData = await fs.readFile(this.configPath, 'utf-8');
       const config = JSON.parse(configData);
-      return config.projectMappings?.[repoName] || null;
+      const mappings = config.projectMappings || {};
+      // Mappings saved before keys were owner-aware use the bare repo name
+      const legacyKey = this.parseLegacyKey(repoName)?.repo;
+      return mappings[repoName] || (legacyKey && mappings[legacyKey]) || null;
     } catch {
       return null;
     }
@@ -387,7 +477,7 @@ class GitOperations {
     // Check for mapping first
     const mapping = await this.getProjectMapping(repoName);
     if (mapping) return mapping;
-    return path.join(this.baseDir, repoName);
+    return this.getProjectPath(repoName);
   }
 
   async changeProjectLink(repoName: string, newLocalPath: string): Promise<{ success: boolean; message: string }> {
@@ -407,8 +497,7 @@ class GitOperations {
       }
 
       // Remove old symlink/mapping if exists
-      const oldPath = await this.getProjectPathAsync(repoName);
-      const symlinkPath = path.join(this.baseDir, repoName);
+      const symlinkPath = this.getProjectPath(repoName);
       
       try {
         const stats = await fs.lstat(symlinkPath);
@@ -421,6 +510,7 @@ class GitOperations {
 
       // Create new symlink or update mapping
       try {
+        await fs.mkdir(path.dirname(symlinkPath), { recursive: true });
         await fs.symlink(newLocalPath, symlinkPath, 'junction');
       } catch (symlinkError) {
         // If symlink fails, update mapping
@@ -442,7 +532,7 @@ class GitOperations {
 
   async removeProjectLink(repoName: string): Promise<{ success: boolean; message: string }> {
     try {
-      const symlinkPath = path.join(this.baseDir, repoName);
+      const symlinkPath = this.getProjectPath(repoName);
       
       // Remove symlink if exists
       try {
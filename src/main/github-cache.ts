@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { app } from 'electron';
+
+export interface CacheEntry<T = any> {
+  key: string;
+  etag?: string;
+  data: T;
+  updatedAt: string;
+}
+
+/**
+ * On-disk cache for GitHub API responses, stored in the user data directory.
+ * Entries keep the response ETag so callers can revalidate with If-None-Match,
+ * and survive restarts so the last known state is available offline.
+ */
+class GitHubCache {
+  private cacheDir: string;
+  private memory: Map<string, CacheEntry> = new Map();
+
+  constructor() {
+    this.cacheDir = path.join(app.getPath('userData'), 'github-cache');
+    this.ensureCacheDir();
+  }
+
+  private ensureCacheDir(): void {
+    if (!fs.existsSync(this.cacheDir)) {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+    }
+  }
+
+  private getEntryPath(key: string): string {
+    // Keys contain slashes and query-like parts, so hash them into a safe filename
+    const hash = crypto.createHash('sha1').update(key).digest('hex');
+    return path.join(this.cacheDir, `${hash}.json`);
+  }
+
+  get<T = any>(key: string): CacheEntry<T> | null {
+    const inMemory = this.memory.get(key);
+    if (inMemory) return inMemory as CacheEntry<T>;
+
+    const filePath = this.getEntryPath(key);
+    try {
+      if (!fs.existsSync(filePath)) return null;
+      const entry = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CacheEntry<T>;
+      // Guard against hash collisions
+      if (entry.key !== key) return null;
+      this.memory.set(key, entry);
+      return entry;
+    } catch (error) {
+      console.warn(`Invalid cache entry for ${key}:`, error);
+      return null;
+    }
+  }
+
+  set<T = any>(key: string, data: T, etag?: string): void {
+    const entry: CacheEntry<T> = {
+      key,
+      etag,
+      data,
+      updatedAt: new Date().toISOString(),
+    };
+    this.memory.set(key, entry);
+
+    try {
+      this.ensureCacheDir();
+      fs.writeFileSync(this.getEntryPath(key), JSON.stringify(entry), 'utf-8');
+    } catch (error) {
+      console.warn(`Could not persist cache entry for ${key}:`, error);
+    }
+  }
+
+  delete(key: string): void {
+    this.memory.delete(key);
+    try {
+      const filePath = this.getEntryPath(key);
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    } catch (error) {
+      console.warn(`Could not delete cache entry for ${key}:`, error);
+    }
+  }
+
+  /**
+   * Remove all entries, or only those whose key starts with prefix (used to
+   * drop a single account's data).
+   */
+  clear(prefix?: string): void {
+    if (!prefix) {
+      this.memory.clear();
+      try {
+        fs.rmSync(this.cacheDir, { recursive: true, force: true });
+        this.ensureCacheDir();
+      } catch (error) {
+        console.warn('Could not clear GitHub cache:', error);
+      }
+      return;
+    }
+
+    for (const key of Array.from(this.memory.keys())) {
+      if (key.startsWith(prefix)) this.memory.delete(key);
+    }
+    try {
+      for (const file of fs.readdirSync(this.cacheDir)) {
+        const filePath = path.join(this.cacheDir, file);
+        try {
+          const entry = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CacheEntry;
+          if (entry.key.startsWith(prefix)) fs.unlinkSync(filePath);
+        } catch {
+          // ignore unreadable entries
+        }
+      }
+    } catch (error) {
+      console.warn(`Could not clear GitHub cache for ${prefix}:`, error);
+    }
+  }
+}
+
+export const githubCache = new GitHubCache();
@@ -0,0 +1,186 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DeviceCode, DeviceFlowClient } from './github-device-flow';
+
+interface MockServer {
+  client: DeviceFlowClient;
+  // Every request, with the (fake) time it came in
+  polls: { path: string; time: number; body: URLSearchParams }[];
+  close(): Promise<void>;
+}
+
+let server: MockServer | null = null;
+
+/**
+ * A stand-in for GitHub's device flow endpoints on a local port: answers the
+ * code endpoint with a fixed code and the token endpoint with the queued
+ * responses in order.
+ */
+async function mockServer(tokenResponses: Record<string, unknown>[]): Promise<MockServer> {
+  const polls: MockServer['polls'] = [];
+  const httpServer = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const path = new URL(req.url || '/', 'http://localhost').pathname;
+      polls.push({ path, time: Date.now(), body: new URLSearchParams(body) });
+
+      const data =
+        path === '/login/device/code'
+          ? {
+              device_code: 'device-123',
+              user_code: 'ABCD-1234',
+              verification_uri: 'https://github.example/login/device',
+              expires_in: 900,
+              interval: 5,
+            }
+          : tokenResponses.shift() ?? { error: 'authorization_pending' };
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(data));
+    });
+  });
+  await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  server = {
+    client: new DeviceFlowClient({ clientId: 'client-1', baseUrl: `http://127.0.0.1:${port}/` }),
+    polls,
+    close: () =>
+      new Promise((resolve) => {
+        httpServer.closeAllConnections();
+        httpServer.close(() => resolve());
+      }),
+  };
+  return server;
+}
+
+// Move the clock on and wait until that many polls have reached the server
+async function advanceTo(ms: number, polls: number): Promise<void> {
+  await vi.advanceTimersByTimeAsync(ms);
+  // setImmediate isn't faked, so the clock stays put meanwhile
+  while (server!.polls.length < polls) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+const code = (overrides: Partial<DeviceCode> = {}): DeviceCode => ({
+  deviceCode: 'device-123',
+  userCode: 'ABCD-1234',
+  verificationUri: 'https://github.example/login/device',
+  expiresAt: Date.now() + 900_000,
+  interval: 5,
+  ...overrides,
+});
+
+describe('DeviceFlowClient', () => {
+  beforeEach(() => {
+    // Only the client's poll timer and clock; the sockets run for real
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await server?.close();
+    server = null;
+  });
+
+  it('requests a code for the client and scopes', async () => {
+    const { client, polls } = await mockServer([]);
+
+    const result = await client.requestCode(['repo']);
+
+    expect(result).toMatchObject({ deviceCode: 'device-123', userCode: 'ABCD-1234', interval: 5 });
+    expect(result.verificationUri).toBe('https://github.example/login/device');
+    expect(polls[0].path).toBe('/login/device/code');
+    expect(polls[0].body.get('client_id')).toBe('client-1');
+    expect(polls[0].body.get('scope')).toBe('repo');
+  });
+
+  it('keeps polling while authorization is pending', async () => {
+    const { client, polls } = await mockServer([
+      { error: 'authorization_pending' },
+      { error: 'authorization_pending' },
+      { access_token: 'gho_token' },
+    ]);
+
+    const token = client.pollForToken(code());
+    await advanceTo(5_000, 1);
+    await advanceTo(5_000, 2);
+    await advanceTo(5_000, 3);
+
+    await expect(token).resolves.toBe('gho_token');
+    expect(polls.map((p) => p.path)).toEqual(Array(3).fill('/login/oauth/access_token'));
+    expect(polls[0].body.get('grant_type')).toBe('urn:ietf:params:oauth:grant-type:device_code');
+  });
+
+  it('slows down to the interval the server asks for', async () => {
+    const { client, polls } = await mockServer([{ error: 'slow_down', interval: 10 }, { access_token: 'gho_token' }]);
+    const start = Date.now();
+
+    const token = client.pollForToken(code());
+    await advanceTo(5_000, 1);
+    await advanceTo(10_000, 2);
+
+    await expect(token).resolves.toBe('gho_token');
+    expect(polls.map((p) => p.time - start)).toEqual([5_000, 15_000]);
+  });
+
+  it('adds five seconds on slow_down without an interval', async () => {
+    const { client, polls } = await mockServer([{ error: 'slow_down' }, { access_token: 'gho_token' }]);
+    const start = Date.now();
+
+    const token = client.pollForToken(code());
+    await advanceTo(5_000, 1);
+    await advanceTo(10_000, 2);
+
+    await expect(token).resolves.toBe('gho_token');
+    expect(polls.map((p) => p.time - start)).toEqual([5_000, 15_000]);
+  });
+
+  it('fails when the server says the code expired', async () => {
+    const { client } = await mockServer([{ error: 'authorization_pending' }, { error: 'expired_token' }]);
+
+    const token = client.pollForToken(code());
+    const outcome = expect(token).rejects.toThrow(/expired/);
+    await advanceTo(5_000, 1);
+    await advanceTo(5_000, 2);
+
+    await outcome;
+  });
+
+  it('stops without asking once the code is past its expiry', async () => {
+    const { client, polls } = await mockServer([]);
+
+    const token = client.pollForToken(code({ expiresAt: Date.now() + 3_000 }));
+    const outcome = expect(token).rejects.toThrow(/expired/);
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    await outcome;
+    expect(polls).toHaveLength(0);
+  });
+
+  it('fails when the user denies access', async () => {
+    const { client } = await mockServer([{ error: 'access_denied' }]);
+
+    const token = client.pollForToken(code());
+    const outcome = expect(token).rejects.toThrow(/denied/);
+    await advanceTo(5_000, 1);
+
+    await outcome;
+  });
+
+  it('stops polling once cancelled', async () => {
+    const { client, polls } = await mockServer([]);
+    let cancelled = false;
+
+    const token = client.pollForToken(code(), () => cancelled);
+    const outcome = expect(token).rejects.toThrow(/cancelled/);
+    await advanceTo(5_000, 1);
+    cancelled = true;
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    await outcome;
+    expect(polls).toHaveLength(1);
+  });
+});
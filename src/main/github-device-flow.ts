@@ -0,0 +1,129 @@
+export const DEVICE_FLOW_SCOPES = ['repo', 'read:org'];
+
+const DEVICE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+
+export interface DeviceCode {
+  deviceCode: string;
+  userCode: string;
+  verificationUri: string;
+  expiresAt: number; // epoch ms
+  interval: number; // seconds between polls
+}
+
+export interface DeviceFlowOptions {
+  clientId: string;
+  // Where the /login/device/code and /login/oauth/access_token endpoints live:
+  // https://github.com, an Enterprise host, or a local mock server in tests
+  baseUrl?: string;
+  fetch?: typeof fetch;
+}
+
+/**
+ * GitHub OAuth device flow: request a user code, let the user enter it on
+ * GitHub, and poll until they approve (or deny, or the code expires).
+ * https://docs.github.com/apps/oauth-apps/building-oauth-apps/authorizing-oauth-apps#device-flow
+ */
+export class DeviceFlowClient {
+  private clientId: string;
+  private baseUrl: string;
+  private fetchImpl: typeof fetch;
+
+  constructor(options: DeviceFlowOptions) {
+    this.clientId = options.clientId;
+    this.baseUrl = (options.baseUrl || 'https://github.com').replace(/\/+$/, '');
+    this.fetchImpl = options.fetch || fetch;
+  }
+
+  private async post(path: string, body: Record<string, string>): Promise<any> {
+    const response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams(body).toString(),
+    });
+    if (!response.ok) {
+      throw new Error(`GitHub device flow request failed: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  async requestCode(scopes: string[] = DEVICE_FLOW_SCOPES): Promise<DeviceCode> {
+    const data = await this.post('/login/device/code', {
+      client_id: this.clientId,
+      scope: scopes.join(' '),
+    });
+    if (data.error) {
+      throw new Error(data.error_description || data.error);
+    }
+
+    return {
+      deviceCode: data.device_code,
+      userCode: data.user_code,
+      verificationUri: data.verification_uri,
+      expiresAt: Date.now() + Number(data.expires_in) * 1000,
+      interval: Number(data.interval) || 5,
+    };
+  }
+
+  /**
+   * Poll for the access token until the user approves the code. Resolves with
+   * the token, rejects when the user denies access, the code expires or
+   * isCancelled() turns true.
+   */
+  async pollForToken(code: DeviceCode, isCancelled: () => boolean = () => false): Promise<string> {
+    let interval = code.interval;
+
+    while (true) {
+      await new Promise((resolve) => setTimeout(resolve, interval * 1000));
+      if (isCancelled()) {
+        throw new Error('Sign-in was cancelled');
+      }
+      if (Date.now() >= code.expiresAt) {
+        throw new Error('The code expired before it was entered. Start sign-in again.');
+      }
+
+      const data = await this.post('/login/oauth/access_token', {
+        client_id: this.clientId,
+        device_code: code.deviceCode,
+        grant_type: DEVICE_GRANT_TYPE,
+      });
+
+      if (data.access_token) {
+        return data.access_token;
+      }
+
+      switch (data.error) {
+        case 'authorization_pending':
+          continue;
+        case 'slow_down':
+          // GitHub returns the new minimum interval; otherwise add 5s as the spec says
+          interval = Number(data.interval) || interval + 5;
+          continue;
+        case 'expired_token':
+          throw new Error('The code expired before it was entered. Start sign-in again.');
+        case 'access_denied':
+          throw new Error('Sign-in was denied on GitHub');
+        default:
+          throw new Error(data.error_description || data.error || 'Unexpected response from GitHub');
+      }
+    }
+  }
+}
+
+/**
+ * Client configured from the environment. GITHUB_OAUTH_CLIENT_ID is the
+ * OAuth app to sign in with (device flow must be enabled on it);
+ * GITHUB_OAUTH_URL overrides the endpoint host, e.g. for a mock server.
+ */
+export function createDeviceFlowClient(host: string): DeviceFlowClient {
+  const clientId = process.env.GITHUB_OAUTH_CLIENT_ID;
+  if (!clientId) {
+    throw new Error('Browser sign-in is not configured. Set GITHUB_OAUTH_CLIENT_ID or paste a personal access token.');
+  }
+  return new DeviceFlowClient({
+    clientId,
+    baseUrl: process.env.GITHUB_OAUTH_URL || `https://${host}`,
+  });
+}
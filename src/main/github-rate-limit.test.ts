@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { Octokit } from '@octokit/rest';
+import { githubRateLimiter, isRateLimitError } from './github-rate-limit';
+
+/**
+ * An Octokit whose requests are answered by `respond` with the quota headers
+ * of the resource the path belongs to
+ */
+function client(accountId: string, respond: (path: string) => { status: number; resource: string; remaining: number }) {
+  const requested: string[] = [];
+  const fetch = async (url: string) => {
+    const path = new URL(url).pathname;
+    requested.push(path);
+    const { status, resource, remaining } = respond(path);
+    return new Response(JSON.stringify(status === 200 ? {} : { message: 'API rate limit exceeded' }), {
+      status,
+      headers: {
+        'content-type': 'application/json',
+        'x-ratelimit-limit': resource === 'core' ? '5000' : '30',
+        'x-ratelimit-remaining': String(remaining),
+        'x-ratelimit-used': '0',
+        'x-ratelimit-resource': resource,
+        'x-ratelimit-reset': String(Math.floor(Date.now() / 1000) + 60),
+      },
+    });
+  };
+  const octokit = new Octokit({ baseUrl: 'https://api.github.example', request: { fetch } });
+  githubRateLimiter.attach(octokit, accountId);
+  return { octokit, requested };
+}
+
+describe('GitHubRateLimiter', () => {
+  it('keeps REST requests going when the search quota runs out', async () => {
+    const { octokit, requested } = client('search-out', (path) =>
+      path.startsWith('/search/')
+        ? { status: 403, resource: 'search', remaining: 0 }
+        : { status: 200, resource: 'core', remaining: 4999 }
+    );
+
+    await expect(octokit.request('GET /search/repositories', { q: 'x' })).rejects.toSatisfy(isRateLimitError);
+    await expect(octokit.request('GET /user')).resolves.toMatchObject({ status: 200 });
+
+    // The second search fails without being sent
+    await expect(octokit.request('GET /search/repositories', { q: 'y' })).rejects.toSatisfy(isRateLimitError);
+    expect(requested).toEqual(['/search/repositories', '/user']);
+  });
+
+  it('reports the REST quota by default', async () => {
+    const { octokit } = client('state', (path) =>
+      path.startsWith('/search/')
+        ? { status: 200, resource: 'search', remaining: 29 }
+        : { status: 200, resource: 'core', remaining: 4998 }
+    );
+
+    await octokit.request('GET /user');
+    await octokit.request('GET /search/repositories', { q: 'x' });
+
+    expect(githubRateLimiter.getState('state', 'https://api.github.example')).toMatchObject({
+      resource: 'core',
+      remaining: 4998,
+      limit: 5000,
+    });
+    expect(githubRateLimiter.getState('state', 'https://api.github.example', 'search')).toMatchObject({
+      resource: 'search',
+      remaining: 29,
+    });
+  });
+
+  it('fails fast once the REST quota is used up', async () => {
+    let remaining = 1;
+    const { octokit, requested } = client('core-out', () => ({ status: 200, resource: 'core', remaining: --remaining }));
+
+    await octokit.request('GET /user');
+    await expect(octokit.request('GET /user')).rejects.toSatisfy(isRateLimitError);
+    expect(requested).toHaveLength(1);
+  });
+});
@@ -0,0 +1,240 @@
+import { EventEmitter } from 'events';
+import { Octokit } from '@octokit/rest';
+
+export interface RateLimitState {
+  limit: number | null;
+  remaining: number | null;
+  used: number | null;
+  resource: string | null;
+  resetAt: string | null;
+  // Set while requests are held back after a secondary rate limit
+  blockedUntil: string | null;
+  queued: number;
+}
+
+/**
+ * Thrown when GitHub refuses a request because of a primary or secondary rate
+ * limit. Carries the time at which requests can resume so the UI can tell the
+ * user when to retry.
+ */
+export class RateLimitError extends Error {
+  readonly code = 'RATE_LIMITED';
+
+  constructor(message: string, public readonly resetAt: Date, public readonly secondary: boolean) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+export function isRateLimitError(error: unknown): error is RateLimitError {
+  return error instanceof RateLimitError;
+}
+
+const MAX_CONCURRENT_REQUESTS = 4;
+const MAX_SECONDARY_RETRIES = 3;
+const MAX_BACKOFF_MS = 60_000;
+
+interface Quota {
+  limit: number;
+  remaining: number;
+  used: number | null;
+  reset: number; // epoch ms
+}
+
+// The quota a request counts against (x-ratelimit-resource). Search and
+// GraphQL have their own, so running out of one leaves REST calls working.
+function quotaResource(url: string | undefined): string {
+  const path = (url || '').split('?')[0];
+  if (path.startsWith('/search/code')) return 'code_search';
+  if (path.startsWith('/search/')) return 'search';
+  if (path.startsWith('/graphql')) return 'graphql';
+  return 'core';
+}
+
+interface HostState {
+  // By x-ratelimit-resource
+  quotas: Map<string, Quota>;
+  blockedUntil: number; // epoch ms
+  active: number;
+  waiting: Array<() => void>;
+  drainTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * Shared request layer for every Octokit instance. Tracks the quota reported
+ * in x-ratelimit-* headers per resource, limits concurrency (GitHub
+ * recommends against bursts), fails fast once the quota a request needs is
+ * exhausted, and queues and retries with backoff when a secondary rate limit
+ * is hit.
+ */
+class GitHubRateLimiter extends EventEmitter {
+  // By account and host: each account has its own quota, even on the same host
+  private hosts: Map<string, HostState> = new Map();
+
+  attach(octokit: Octokit, accountId: string): void {
+    octokit.hook.wrap('request', async (request, options) => {
+      return this.execute(accountId, options.baseUrl, quotaResource(options.url), async () => request(options));
+    });
+  }
+
+  /**
+   * The quota of one resource, 'core' (the REST API) unless asked otherwise,
+   * with the host's backoff and queue
+   */
+  getState(accountId: string, baseUrl: string = 'https://api.github.com', resource: string = 'core'): RateLimitState {
+    const host = this.getHost(accountId, baseUrl);
+    const quota = host.quotas.get(resource);
+    return {
+      limit: quota?.limit ?? null,
+      remaining: quota?.remaining ?? null,
+      used: quota?.used ?? null,
+      resource: quota ? resource : null,
+      resetAt: quota ? new Date(quota.reset).toISOString() : null,
+      blockedUntil: host.blockedUntil > Date.now() ? new Date(host.blockedUntil).toISOString() : null,
+      queued: host.waiting.length,
+    };
+  }
+
+  private getHost(accountId: string, baseUrl: string): HostState {
+    const key = `${accountId} ${baseUrl}`;
+    let host = this.hosts.get(key);
+    if (!host) {
+      host = {
+        quotas: new Map(),
+        blockedUntil: 0,
+        active: 0,
+        waiting: [],
+        drainTimer: null,
+      };
+      this.hosts.set(key, host);
+    }
+    return host;
+  }
+
+  private async execute<T extends { headers: any }>(
+    accountId: string,
+    baseUrl: string,
+    resource: string,
+    send: () => Promise<T>
+  ): Promise<T> {
+    const host = this.getHost(accountId, baseUrl);
+
+    for (let attempt = 0; ; attempt++) {
+      // The primary quota only refills at the reset time; don't queue for up to an hour
+      const quota = host.quotas.get(resource);
+      if (quota && quota.remaining === 0 && quota.reset > Date.now()) {
+        throw new RateLimitError(
+          `GitHub API rate limit exceeded. Resets at ${new Date(quota.reset).toLocaleTimeString()}.`,
+          new Date(quota.reset),
+          false
+        );
+      }
+
+      await this.acquire(host);
+      try {
+        const response = await send();
+        this.updateFromHeaders(accountId, baseUrl, host, response.headers);
+        return response;
+      } catch (error: any) {
+        const headers = error?.response?.headers;
+        if (headers) {
+          this.updateFromHeaders(accountId, baseUrl, host, headers);
+        }
+
+        const kind = this.classify(error);
+        if (kind === 'secondary') {
+          const retryAfter = Number(headers?.['retry-after']);
+          const waitMs = retryAfter > 0
+            ? retryAfter * 1000
+            : Math.min(1000 * 2 ** (attempt + 1), MAX_BACKOFF_MS);
+          this.block(accountId, baseUrl, host, Date.now() + waitMs);
+
+          if (attempt < MAX_SECONDARY_RETRIES) {
+            console.warn(`GitHub secondary rate limit hit, retrying in ${Math.round(waitMs / 1000)}s`);
+            continue;
+          }
+          throw new RateLimitError(
+            'GitHub secondary rate limit exceeded. Please wait a moment and try again.',
+            new Date(host.blockedUntil),
+            true
+          );
+        }
+        if (kind === 'primary') {
+          const resetAt = new Date(host.quotas.get(headers?.['x-ratelimit-resource'] || resource)?.reset ?? Date.now());
+          throw new RateLimitError(
+            `GitHub API rate limit exceeded. Resets at ${resetAt.toLocaleTimeString()}.`,
+            resetAt,
+            false
+          );
+        }
+        throw error;
+      } finally {
+        this.release(host);
+      }
+    }
+  }
+
+  private classify(error: any): 'primary' | 'secondary' | null {
+    const status = error?.status;
+    if (status !== 403 && status !== 429) return null;
+
+    const headers = error?.response?.headers || {};
+    const message = String(error?.message || '').toLowerCase();
+    if (headers['retry-after'] || message.includes('secondary rate limit') || message.includes('abuse')) {
+      return 'secondary';
+    }
+    if (headers['x-ratelimit-remaining'] === '0') {
+      return 'primary';
+    }
+    return null;
+  }
+
+  private updateFromHeaders(accountId: string, baseUrl: string, host: HostState, headers: Record<string, any>): void {
+    if (headers['x-ratelimit-remaining'] === undefined) return;
+
+    host.quotas.set(headers['x-ratelimit-resource'] || 'core', {
+      limit: Number(headers['x-ratelimit-limit']),
+      remaining: Number(headers['x-ratelimit-remaining']),
+      used: headers['x-ratelimit-used'] !== undefined ? Number(headers['x-ratelimit-used']) : null,
+      reset: Number(headers['x-ratelimit-reset']) * 1000,
+    });
+    this.emit('update', { accountId, baseUrl, state: this.getState(accountId, baseUrl) });
+  }
+
+  private block(accountId: string, baseUrl: string, host: HostState, until: number): void {
+    host.blockedUntil = Math.max(host.blockedUntil, until);
+    this.emit('update', { accountId, baseUrl, state: this.getState(accountId, baseUrl) });
+  }
+
+  private acquire(host: HostState): Promise<void> {
+    return new Promise((resolve) => {
+      host.waiting.push(resolve);
+      this.drain(host);
+    });
+  }
+
+  private release(host: HostState): void {
+    host.active--;
+    this.drain(host);
+  }
+
+  private drain(host: HostState): void {
+    const now = Date.now();
+    if (host.blockedUntil > now) {
+      if (!host.drainTimer) {
+        host.drainTimer = setTimeout(() => {
+          host.drainTimer = null;
+          this.drain(host);
+        }, host.blockedUntil - now);
+      }
+      return;
+    }
+
+    while (host.active < MAX_CONCURRENT_REQUESTS && host.waiting.length > 0) {
+      host.active++;
+      host.waiting.shift()!();
+    }
+  }
+}
+
+export const githubRateLimiter = new GitHubRateLimiter();
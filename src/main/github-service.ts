@@ -1,22 +1,147 @@
 import { Octokit } from '@octokit/rest';
+import { githubCache } from './github-cache.js';
+import { githubRateLimiter, isRateLimitError, RateLimitState } from './github-rate-limit.js';
+import { tokenStore } from './token-store.js';
+import {
+  accountManager,
+  apiBaseUrlForHost,
+  normalizeHost,
+  DEFAULT_ACCOUNT_ID,
+  DEFAULT_API_BASE_URL,
+  GitHubAccount,
+} from './accounts.js';
 
 // dotenv is loaded in index.ts before this module is imported
 
+export type RepositoryAffiliation = 'owner' | 'collaborator' | 'organization_member';
+
 export interface Repository {
   id: number;
   name: string;
   full_name: string;
   description: string | null;
   url: string;
+  html_url: string;
+  clone_url: string;
   language: string | null;
   stargazers_count: number;
+  forks_count: number;
   updated_at: string;
+  private: boolean;
+  affiliation: RepositoryAffiliation;
   owner: {
     login: string;
     avatar_url: string;
+    type: string;
   };
 }
 
+const DEFAULT_AFFILIATION = 'owner,collaborator,organization_member';
+
+// Scopes the app needs, each mapped to the scopes that grant it
+const REQUIRED_SCOPES: Record<string, string[]> = {
+  repo: ['repo'],
+  'read:org': ['read:org', 'write:org', 'admin:org'],
+};
+
+export type TokenSource = 'keychain' | 'env';
+
+export interface TokenInfo {
+  login: string;
+  avatar_url: string;
+  // null for fine-grained tokens, which don't report OAuth scopes
+  scopes: string[] | null;
+  missingScopes: string[];
+  source: TokenSource | null;
+}
+
+export interface GitHubOrganization {
+  id: number;
+  login: string;
+  avatar_url: string;
+  description: string | null;
+}
+
+export interface GitHubLabel {
+  name: string;
+  color: string;
+}
+
+export interface GitHubAssignee {
+  login: string;
+  avatar_url: string;
+}
+
+export type ReviewState = 'approved' | 'changes_requested' | 'review_required' | 'none';
+export type CheckStatus = 'success' | 'failure' | 'pending' | 'none';
+
+export interface IssueSummary {
+  number: number;
+  title: string;
+  html_url: string;
+  author: string | null;
+  labels: GitHubLabel[];
+  assignees: GitHubAssignee[];
+  comments: number;
+  updated_at: string;
+}
+
+export interface PullRequestSummary extends Omit<IssueSummary, 'comments'> {
+  draft: boolean;
+  head_ref: string;
+  base_ref: string;
+  review_state: ReviewState;
+  ci_status: CheckStatus;
+}
+
+export interface WorkflowRunSummary {
+  id: number;
+  name: string;
+  run_number: number;
+  event: string;
+  status: string; // queued | in_progress | completed ...
+  conclusion: string | null;
+  head_branch: string;
+  head_sha: string;
+  html_url: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkflowJobSummary {
+  id: number;
+  name: string;
+  status: string;
+  conclusion: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  html_url: string | null;
+}
+
+/**
+ * Collapse a workflow run's status and conclusion into a badge state.
+ */
+export function workflowRunStatus(run: Pick<WorkflowRunSummary, 'status' | 'conclusion'>): CheckStatus {
+  if (run.status !== 'completed') return 'pending';
+  if (run.conclusion === 'success' || run.conclusion === 'skipped' || run.conclusion === 'neutral') return 'success';
+  return 'failure';
+}
+
+export interface NewRepositoryOptions {
+  name: string;
+  description?: string;
+  private: boolean;
+  // Create under an organization instead of the authenticated user
+  org?: string;
+  gitignore_template?: string;
+  license_template?: string;
+}
+
+export interface RepositoryTemplates {
+  gitignore: string[];
+  licenses: Array<{ key: string; name: string }>;
+}
+
 export interface GitHubUser {
   id: number;
   login: string;
@@ -26,87 +151,242 @@ export interface GitHubUser {
   public_repos: number;
 }
 
+/**
+ * Split an "owner/repo" full name. Returns null for bare repository names.
+ */
+export function parseFullName(fullName: string): { owner: string; repo: string } | null {
+  const slash = fullName.indexOf('/');
+  if (slash <= 0 || slash === fullName.length - 1) return null;
+  return { owner: fullName.slice(0, slash), repo: fullName.slice(slash + 1) };
+}
+
+export interface GitHubServiceOptions {
+  // REST API root; https://<host>/api/v3 for GitHub Enterprise Server
+  baseUrl?: string;
+  // Account id: prefixes cache keys so accounts never see each other's
+  // cached data, and keeps each account's rate limit quota apart
+  cacheNamespace?: string;
+  tokenSource?: TokenSource;
+}
+
+export interface AccountSummary extends GitHubAccount {
+  active: boolean;
+  hasToken: boolean;
+}
+
+// Shared by GitHubService and the check of a new account's token
+async function readTokenInfo(octokit: Octokit): Promise<Omit<TokenInfo, 'source'>> {
+  const response = await octokit.rest.users.getAuthenticated();
+  const header = response.headers['x-oauth-scopes'];
+  const scopes = header === undefined
+    ? null
+    : String(header).split(',').map((scope) => scope.trim()).filter(Boolean);
+  const missingScopes = scopes
+    ? Object.keys(REQUIRED_SCOPES).filter((required) =>
+        !REQUIRED_SCOPES[required].some((granting) => scopes.includes(granting))
+      )
+    : [];
+
+  return { login: response.data.login, avatar_url: response.data.avatar_url, scopes, missingScopes };
+}
+
+// How long forkRepository waits for GitHub to finish copying a fork
+const FORK_READY_ATTEMPTS = 15;
+const FORK_READY_DELAY_MS = 2000;
+
 class GitHubService {
   private octokit: Octokit;
   private token: string;
+  private baseUrl: string;
+  private cacheNamespace: string;
+  private currentLogin: string | null = null;
+  readonly tokenSource: TokenSource | null;
 
-  constructor() {
-    this.token = process.env.GITHUB_TOKEN || '';
-    if (!this.token) {
-      throw new Error('GITHUB_TOKEN environment variable is not set');
-    }
-    this.octokit = new Octokit({ auth: this.token });
+  constructor(token: string, options: GitHubServiceOptions = {}) {
+    this.token = token;
+    this.baseUrl = options.baseUrl || DEFAULT_API_BASE_URL;
+    this.cacheNamespace = options.cacheNamespace || DEFAULT_ACCOUNT_ID;
+    this.tokenSource = options.tokenSource ?? null;
+    this.octokit = new Octokit({ auth: this.token, baseUrl: this.baseUrl });
+    githubRateLimiter.attach(this.octokit, this.cacheNamespace);
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  getAccountId(): string {
+    return this.cacheNamespace;
+  }
+
+  getRateLimit(): RateLimitState {
+    return githubRateLimiter.getState(this.cacheNamespace, this.baseUrl);
+  }
+
+  private cacheKey(key: string): string {
+    return `${this.cacheNamespace}:${key}`;
   }
 
   async validateToken(): Promise<boolean> {
     try {
-      const response = await this.octokit.rest.users.getAuthenticated();
-      return !!response.data;
+      const user = await this.getCurrentUser();
+      return !!user;
     } catch (error) {
+      // Running out of quota says nothing about whether the token is valid
+      if (isRateLimitError(error)) throw error;
       console.error('Token validation failed:', error);
       return false;
     }
   }
 
+  /**
+   * Look up who the token belongs to and which OAuth scopes it carries.
+   * Always hits the API, since scopes only come back on a full response.
+   */
+  getTokenInfo(): Promise<Omit<TokenInfo, 'source'>> {
+    return readTokenInfo(this.octokit);
+  }
+
   async getCurrentUser(): Promise<GitHubUser> {
     try {
-      const response = await this.octokit.rest.users.getAuthenticated();
-      return {
-        id: response.data.id,
-        login: response.data.login,
-        avatar_url: response.data.avatar_url,
-        name: response.data.name,
-        bio: response.data.bio,
-        public_repos: response.data.public_repos,
-      };
+      const user = await this.conditionalGet(
+        'user',
+        (headers) => this.octokit.rest.users.getAuthenticated({ headers }),
+        (data): GitHubUser => ({
+          id: data.id,
+          login: data.login,
+          avatar_url: data.avatar_url,
+          name: data.name,
+          bio: data.bio,
+          public_repos: data.public_repos,
+        })
+      );
+      this.currentLogin = user.login;
+      return user;
     } catch (error) {
       console.error('Failed to fetch current user:', error);
       throw error;
     }
   }
 
-  async getUserRepositories(page: number = 1, per_page: number = 100): Promise<Repository[]> {
+  /**
+   * Perform a GET through the on-disk cache. The cached ETag is sent as
+   * If-None-Match so an unchanged resource comes back as a 304, which GitHub
+   * does not count against the rate limit. When the request fails because
+   * GitHub is unreachable or rate limited, the last cached value is served
+   * instead; without a cached value the error propagates.
+   */
+  private async conditionalGet<T>(
+    key: string,
+    request: (headers: Record<string, string>) => Promise<{ data: any; headers: any }>,
+    transform: (data: any) => T
+  ): Promise<T> {
+    key = this.cacheKey(key);
+    const cached = githubCache.get<T>(key);
+    const headers: Record<string, string> = cached?.etag ? { 'if-none-match': cached.etag } : {};
+
     try {
-      const response = await this.octokit.rest.repos.listForAuthenticatedUser({
-        page,
-        per_page,
-        sort: 'updated',
-        direction: 'desc',
-      });
+      const response = await request(headers);
+      const value = transform(response.data);
+      githubCache.set(key, value, response.headers.etag);
+      return value;
+    } catch (error: any) {
+      if (cached && error?.status === 304) {
+        return cached.data;
+      }
+      if (error?.status === 404) {
+        githubCache.delete(key);
+      } else if (cached && isRateLimitError(error)) {
+        console.warn(`GitHub rate limited, serving cached ${key}`);
+        return cached.data;
+      } else if (cached && (error?.status === undefined || error.status >= 500)) {
+        console.warn(`GitHub unreachable, serving cached ${key}`);
+        return cached.data;
+      }
+      throw error;
+    }
+  }
+
+  private async getCurrentLogin(): Promise<string> {
+    if (!this.currentLogin) {
+      await this.getCurrentUser();
+    }
+    return this.currentLogin as string;
+  }
+
+  /**
+   * Map a raw API repository to our Repository shape, classifying how the
+   * authenticated user is related to it.
+   */
+  private mapRepository(repo: any, login: string): Repository {
+    let affiliation: RepositoryAffiliation = 'collaborator';
+    if (repo.owner.login.toLowerCase() === login.toLowerCase()) {
+      affiliation = 'owner';
+    } else if (repo.owner.type === 'Organization') {
+      affiliation = 'organization_member';
+    }
+
+    return {
+      id: repo.id,
+      name: repo.name,
+      full_name: repo.full_name,
+      description: repo.description,
+      url: repo.html_url,
+      html_url: repo.html_url,
+      clone_url: repo.clone_url,
+      language: repo.language,
+      stargazers_count: repo.stargazers_count,
+      forks_count: repo.forks_count,
+      updated_at: repo.updated_at,
+      private: repo.private,
+      affiliation,
+      owner: {
+        login: repo.owner.login,
+        avatar_url: repo.owner.avatar_url,
+        type: repo.owner.type,
+      },
+    };
+  }
 
-      return response.data.map((repo: any) => ({
-        id: repo.id,
-        name: repo.name,
-        full_name: repo.full_name,
-        description: repo.description,
-        url: repo.html_url,
-        language: repo.language,
-        stargazers_count: repo.stargazers_count,
-        updated_at: repo.updated_at,
-        owner: {
-          login: repo.owner.login,
-          avatar_url: repo.owner.avatar_url,
-        },
-      }));
+  async getUserRepositories(
+    page: number = 1,
+    per_page: number = 100,
+    affiliation: string = DEFAULT_AFFILIATION
+  ): Promise<Repository[]> {
+    try {
+      const login = await this.getCurrentLogin();
+      return await this.conditionalGet(
+        `repos:user:${affiliation}:${per_page}:${page}`,
+        (headers) => this.octokit.rest.repos.listForAuthenticatedUser({
+          page,
+          per_page,
+          affiliation,
+          sort: 'updated',
+          direction: 'desc',
+          headers,
+        }),
+        (data: any[]) => data.map((repo) => this.mapRepository(repo, login))
+      );
     } catch (error) {
       console.error('Failed to fetch repositories:', error);
       throw error;
     }
   }
 
-  async getAllUserRepositories(): Promise<Repository[]> {
+  async getAllUserRepositories(affiliation: string = DEFAULT_AFFILIATION): Promise<Repository[]> {
     const repos: Repository[] = [];
     let page = 1;
     const per_page = 100;
 
     try {
       while (true) {
-        const pageRepos = await this.getUserRepositories(page, per_page);
+        const pageRepos = await this.getUserRepositories(page, per_page, affiliation);
         if (pageRepos.length === 0) break;
         repos.push(...pageRepos);
         if (pageRepos.length < per_page) break;
         page++;
       }
+      githubCache.set(this.cacheKey(`repos:user:${affiliation}`), repos);
       return repos;
     } catch (error) {
       console.error('Failed to fetch all repositories:', error);
@@ -114,94 +394,708 @@ class GitHubService {
     }
   }
 
-  async getRepository(repoName: string): Promise<any> {
+  /**
+   * Last fetched repository list for the authenticated user, or null if it
+   * has never been loaded. Used to render instantly before a refresh.
+   */
+  getCachedUserRepositories(affiliation: string = DEFAULT_AFFILIATION): Repository[] | null {
+    return githubCache.get<Repository[]>(this.cacheKey(`repos:user:${affiliation}`))?.data ?? null;
+  }
+
+  async getUserOrganizations(): Promise<GitHubOrganization[]> {
+    const orgs: GitHubOrganization[] = [];
+    let page = 1;
+    const per_page = 100;
+
+    try {
+      while (true) {
+        const pageOrgs = await this.conditionalGet(
+          `orgs:${per_page}:${page}`,
+          (headers) => this.octokit.rest.orgs.listForAuthenticatedUser({ page, per_page, headers }),
+          (data: any[]): GitHubOrganization[] => data.map((org) => ({
+            id: org.id,
+            login: org.login,
+            avatar_url: org.avatar_url,
+            description: org.description,
+          }))
+        );
+        orgs.push(...pageOrgs);
+        if (pageOrgs.length < per_page) break;
+        page++;
+      }
+      return orgs;
+    } catch (error) {
+      console.error('Failed to fetch organizations:', error);
+      throw error;
+    }
+  }
+
+  async getOrganizationRepositories(org: string): Promise<Repository[]> {
+    const repos: Repository[] = [];
+    let page = 1;
+    const per_page = 100;
+
     try {
-      // First get the current user to know the owner
-      const user = await this.getCurrentUser();
-      const response = await this.octokit.rest.repos.get({
-        owner: user.login,
-        repo: repoName,
-      });
+      const login = await this.getCurrentLogin();
+      while (true) {
+        const pageRepos = await this.conditionalGet(
+          `repos:org:${org}:${per_page}:${page}`,
+          (headers) => this.octokit.rest.repos.listForOrg({
+            org,
+            page,
+            per_page,
+            sort: 'updated',
+            direction: 'desc',
+            headers,
+          }),
+          (data: any[]) => data.map((repo) => this.mapRepository(repo, login))
+        );
+        repos.push(...pageRepos);
+        if (pageRepos.length < per_page) break;
+        page++;
+      }
+      githubCache.set(this.cacheKey(`repos:org:${org}`), repos);
+      return repos;
+    } catch (error) {
+      console.error(`Failed to fetch repositories for organization ${org}:`, error);
+      throw error;
+    }
+  }
+
+  getCachedOrganizationRepositories(org: string): Repository[] | null {
+    return githubCache.get<Repository[]>(this.cacheKey(`repos:org:${org}`))?.data ?? null;
+  }
+
+  /**
+   * Fetch a single repository. Accepts "owner/repo"; a bare name is resolved
+   * against the authenticated user for backward compatibility.
+   */
+  async getRepository(fullName: string): Promise<any> {
+    try {
+      const parsed = parseFullName(fullName);
+      const owner = parsed ? parsed.owner : await this.getCurrentLogin();
+      const repoName = parsed ? parsed.repo : fullName;
+      return await this.conditionalGet(
+        `repo:${owner}/${repoName}`,
+        (headers) => this.octokit.rest.repos.get({
+          owner,
+          repo: repoName,
+          headers,
+        }),
+        (repo) => ({
+          id: repo.id,
+          name: repo.name,
+          full_name: repo.full_name,
+          description: repo.description,
+          language: repo.language,
+          stargazers_count: repo.stargazers_count,
+          forks_count: repo.forks_count,
+          updated_at: repo.updated_at,
+          html_url: repo.html_url,
+          clone_url: repo.clone_url,
+          default_branch: repo.default_branch,
+          private: repo.private,
+          size: repo.size,
+          open_issues_count: repo.open_issues_count,
+          owner: {
+            login: repo.owner.login,
+            avatar_url: repo.owner.avatar_url,
+            type: repo.owner.type,
+          },
+        })
+      );
+    } catch (error) {
+      console.error(`Failed to fetch repository ${fullName}:`, error);
+      throw error;
+    }
+  }
+
+  private async resolveRepo(fullName: string): Promise<{ owner: string; repo: string }> {
+    const parsed = parseFullName(fullName);
+    return parsed || { owner: await this.getCurrentLogin(), repo: fullName };
+  }
+
+  private mapLabels(labels: any[]): GitHubLabel[] {
+    return labels.map((label) =>
+      typeof label === 'string' ? { name: label, color: '' } : { name: label.name, color: label.color || '' }
+    );
+  }
+
+  private mapAssignees(assignees: any[] | null | undefined): GitHubAssignee[] {
+    return (assignees || []).map((user) => ({ login: user.login, avatar_url: user.avatar_url }));
+  }
+
+  /**
+   * Open issues for a repository. The issues endpoint also returns pull
+   * requests, which are filtered out here.
+   */
+  async listIssues(fullName: string): Promise<IssueSummary[]> {
+    try {
+      const { owner, repo } = await this.resolveRepo(fullName);
+      return await this.conditionalGet(
+        `issues:${owner}/${repo}`,
+        (headers) => this.octokit.rest.issues.listForRepo({
+          owner,
+          repo,
+          state: 'open',
+          sort: 'updated',
+          per_page: 50,
+          headers,
+        }),
+        (data: any[]): IssueSummary[] => data
+          .filter((issue) => !issue.pull_request)
+          .map((issue) => ({
+            number: issue.number,
+            title: issue.title,
+            html_url: issue.html_url,
+            author: issue.user?.login ?? null,
+            labels: this.mapLabels(issue.labels),
+            assignees: this.mapAssignees(issue.assignees),
+            comments: issue.comments,
+            updated_at: issue.updated_at,
+          }))
+      );
+    } catch (error) {
+      console.error(`Failed to fetch issues for ${fullName}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Open pull requests with their review decision and CI status. Reviews and
+   * statuses cost one request each per PR, so only the most recently updated
+   * PRs are listed; unchanged ones revalidate with a free 304.
+   */
+  async listPullRequests(fullName: string): Promise<PullRequestSummary[]> {
+    try {
+      const { owner, repo } = await this.resolveRepo(fullName);
+      const pulls = await this.conditionalGet(
+        `pulls:${owner}/${repo}`,
+        (headers) => this.octokit.rest.pulls.list({
+          owner,
+          repo,
+          state: 'open',
+          sort: 'updated',
+          direction: 'desc',
+          per_page: 30,
+          headers,
+        }),
+        (data: any[]) => data.map((pr) => ({
+          number: pr.number as number,
+          title: pr.title as string,
+          html_url: pr.html_url as string,
+          author: (pr.user?.login ?? null) as string | null,
+          labels: this.mapLabels(pr.labels),
+          assignees: this.mapAssignees(pr.assignees),
+          updated_at: pr.updated_at as string,
+          draft: !!pr.draft,
+          head_ref: pr.head.ref as string,
+          head_sha: pr.head.sha as string,
+          base_ref: pr.base.ref as string,
+          requested_reviewers: (pr.requested_reviewers || []).length + (pr.requested_teams || []).length,
+        }))
+      );
+
+      return await Promise.all(pulls.map(async ({ head_sha, requested_reviewers, ...pr }) => ({
+        ...pr,
+        review_state: await this.getReviewState(owner, repo, pr.number, requested_reviewers > 0),
+        ci_status: await this.getCheckStatus(owner, repo, head_sha),
+      })));
+    } catch (error) {
+      console.error(`Failed to fetch pull requests for ${fullName}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Summarize reviews the way GitHub does: each reviewer's latest approving
+   * or blocking review counts, and any requested change wins.
+   */
+  private async getReviewState(
+    owner: string,
+    repo: string,
+    number: number,
+    hasPendingReviewers: boolean
+  ): Promise<ReviewState> {
+    const reviews = await this.conditionalGet(
+      `reviews:${owner}/${repo}:${number}`,
+      (headers) => this.octokit.rest.pulls.listReviews({ owner, repo, pull_number: number, per_page: 100, headers }),
+      (data: any[]) => data.map((review) => ({ user: review.user?.login as string, state: review.state as string }))
+    );
+
+    const latest = new Map<string, string>();
+    for (const review of reviews) {
+      if (review.state === 'APPROVED' || review.state === 'CHANGES_REQUESTED' || review.state === 'DISMISSED') {
+        latest.set(review.user, review.state);
+      }
+    }
+    const states = Array.from(latest.values());
+    if (states.includes('CHANGES_REQUESTED')) return 'changes_requested';
+    if (hasPendingReviewers) return 'review_required';
+    if (states.includes('APPROVED')) return 'approved';
+    return 'none';
+  }
+
+  /**
+   * Combine commit statuses and check runs for a commit into one result.
+   */
+  async getCheckStatus(owner: string, repo: string, ref: string): Promise<CheckStatus> {
+    const [combined, checkRuns] = await Promise.all([
+      this.conditionalGet(
+        `status:${owner}/${repo}:${ref}`,
+        (headers) => this.octokit.rest.repos.getCombinedStatusForRef({ owner, repo, ref, headers }),
+        (data) => ({ state: data.state as string, count: data.total_count as number })
+      ),
+      this.conditionalGet(
+        `check-runs:${owner}/${repo}:${ref}`,
+        (headers) => this.octokit.rest.checks.listForRef({ owner, repo, ref, per_page: 100, headers }),
+        (data) => data.check_runs.map((run: any) => ({ status: run.status as string, conclusion: run.conclusion as string | null }))
+      ),
+    ]);
+
+    const results: CheckStatus[] = [];
+    if (combined.count > 0) {
+      results.push(combined.state === 'success' ? 'success' : combined.state === 'pending' ? 'pending' : 'failure');
+    }
+    for (const run of checkRuns) {
+      if (run.status !== 'completed') {
+        results.push('pending');
+      } else if (['failure', 'timed_out', 'cancelled', 'action_required'].includes(run.conclusion || '')) {
+        results.push('failure');
+      } else {
+        results.push('success');
+      }
+    }
+
+    if (results.length === 0) return 'none';
+    if (results.includes('failure')) return 'failure';
+    if (results.includes('pending')) return 'pending';
+    return 'success';
+  }
+
+  /**
+   * Recent GitHub Actions runs for a branch, newest first.
+   */
+  async listWorkflowRuns(fullName: string, branch: string): Promise<WorkflowRunSummary[]> {
+    try {
+      const { owner, repo } = await this.resolveRepo(fullName);
+      return await this.conditionalGet(
+        `runs:${owner}/${repo}:${branch}`,
+        (headers) => this.octokit.rest.actions.listWorkflowRunsForRepo({
+          owner,
+          repo,
+          branch,
+          per_page: 10,
+          headers,
+        }),
+        (data): WorkflowRunSummary[] => data.workflow_runs.map((run: any) => ({
+          id: run.id,
+          name: run.name || run.display_title || `Run ${run.run_number}`,
+          run_number: run.run_number,
+          event: run.event,
+          status: run.status,
+          conclusion: run.conclusion,
+          head_branch: run.head_branch,
+          head_sha: run.head_sha,
+          html_url: run.html_url,
+          created_at: run.created_at,
+          updated_at: run.updated_at,
+        }))
+      );
+    } catch (error) {
+      console.error(`Failed to fetch workflow runs for ${fullName}:`, error);
+      throw error;
+    }
+  }
+
+  async listWorkflowJobs(fullName: string, runId: number): Promise<WorkflowJobSummary[]> {
+    try {
+      const { owner, repo } = await this.resolveRepo(fullName);
+      return await this.conditionalGet(
+        `jobs:${owner}/${repo}:${runId}`,
+        (headers) => this.octokit.rest.actions.listJobsForWorkflowRun({
+          owner,
+          repo,
+          run_id: runId,
+          per_page: 100,
+          headers,
+        }),
+        (data): WorkflowJobSummary[] => data.jobs.map((job: any) => ({
+          id: job.id,
+          name: job.name,
+          status: job.status,
+          conclusion: job.conclusion,
+          started_at: job.started_at,
+          completed_at: job.completed_at,
+          html_url: job.html_url,
+        }))
+      );
+    } catch (error) {
+      console.error(`Failed to fetch jobs for run ${runId} of ${fullName}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Plain-text log of a job. Logs can be large and change while the job
+   * runs, so they bypass the cache.
+   */
+  async getWorkflowJobLogs(fullName: string, jobId: number): Promise<string> {
+    const { owner, repo } = await this.resolveRepo(fullName);
+    const response = await this.octokit.rest.actions.downloadJobLogsForWorkflowRun({
+      owner,
+      repo,
+      job_id: jobId,
+    });
+    return typeof response.data === 'string' ? response.data : String(response.data ?? '');
+  }
+
+  async rerunWorkflowRun(fullName: string, runId: number): Promise<void> {
+    const { owner, repo } = await this.resolveRepo(fullName);
+    await this.octokit.rest.actions.reRunWorkflow({ owner, repo, run_id: runId });
+  }
+
+  async cancelWorkflowRun(fullName: string, runId: number): Promise<void> {
+    const { owner, repo } = await this.resolveRepo(fullName);
+    await this.octokit.rest.actions.cancelWorkflowRun({ owner, repo, run_id: runId });
+  }
+
+  async getRepositoryTemplates(): Promise<RepositoryTemplates> {
+    try {
+      const [gitignore, licenses] = await Promise.all([
+        this.conditionalGet(
+          'templates:gitignore',
+          (headers) => this.octokit.rest.gitignore.getAllTemplates({ headers }),
+          (data: string[]) => data
+        ),
+        this.conditionalGet(
+          'templates:licenses',
+          (headers) => this.octokit.rest.licenses.getAllCommonlyUsed({ headers }),
+          (data: any[]) => data.map((license) => ({ key: license.key as string, name: license.name as string }))
+        ),
+      ]);
+      return { gitignore, licenses };
+    } catch (error) {
+      console.error('Failed to fetch repository templates:', error);
+      throw error;
+    }
+  }
 
-      const repo = response.data;
-      return {
-        id: repo.id,
-        name: repo.name,
-        full_name: repo.full_name,
-        description: repo.description,
-        language: repo.language,
-        stargazers_count: repo.stargazers_count,
-        forks_count: repo.forks_count,
-        updated_at: repo.updated_at,
-        html_url: repo.html_url,
-        clone_url: repo.clone_url,
-        default_branch: repo.default_branch,
-        private: repo.private,
-        size: repo.size,
-        open_issues_count: repo.open_issues_count,
+  /**
+   * Create a repository for the authenticated user or an organization. It is
+   * initialized with a first commit so it can be cloned straight away.
+   */
+  async createRepository(options: NewRepositoryOptions): Promise<Repository> {
+    try {
+      const login = await this.getCurrentLogin();
+      const params = {
+        name: options.name,
+        description: options.description || undefined,
+        private: options.private,
+        auto_init: true,
+        gitignore_template: options.gitignore_template || undefined,
+        license_template: options.license_template || undefined,
       };
+      const response = options.org
+        ? await this.octokit.rest.repos.createInOrg({ org: options.org, ...params })
+        : await this.octokit.rest.repos.createForAuthenticatedUser(params);
+      return this.mapRepository(response.data, login);
     } catch (error) {
-      console.error(`Failed to fetch repository ${repoName}:`, error);
+      console.error(`Failed to create repository ${options.name}:`, error);
       throw error;
     }
   }
 
-  async getRepositoryContent(owner: string, repo: string, path: string = ''): Promise<any> {
+  /**
+   * Fork a repository into the authenticated user's account (or an
+   * organization). GitHub copies the fork asynchronously, so this waits until
+   * its commits are readable before returning, which keeps an immediate clone
+   * from failing.
+   */
+  async forkRepository(fullName: string, org?: string): Promise<Repository> {
     try {
-      const response = await this.octokit.rest.repos.getContent({
+      const login = await this.getCurrentLogin();
+      const { owner, repo } = await this.resolveRepo(fullName);
+      const response = await this.octokit.rest.repos.createFork({
         owner,
         repo,
-        path,
+        organization: org || undefined,
       });
-      return response.data;
+      const fork = this.mapRepository(response.data, login);
+
+      for (let attempt = 0; attempt < FORK_READY_ATTEMPTS; attempt++) {
+        try {
+          await this.octokit.rest.repos.listCommits({ owner: fork.owner.login, repo: fork.name, per_page: 1 });
+          break;
+        } catch (error: any) {
+          // 409 means the source repository is empty; there is nothing to wait for
+          if (error?.status === 409 || isRateLimitError(error)) break;
+          await new Promise((resolve) => setTimeout(resolve, FORK_READY_DELAY_MS));
+        }
+      }
+      return fork;
     } catch (error) {
+      console.error(`Failed to fork repository ${fullName}:`, error);
+      throw error;
+    }
+  }
+
+  async getRepositoryContent(owner: string, repo: string, path: string = ''): Promise<any> {
+    try {
+      return await this.conditionalGet(
+        `content:${owner}/${repo}:${path}`,
+        (headers) => this.octokit.rest.repos.getContent({
+          owner,
+          repo,
+          path,
+          headers,
+        }),
+        (data) => data
+      );
+    } catch (error) {
+      if (isRateLimitError(error)) throw error;
       console.error(`Failed to fetch content from ${owner}/${repo}/${path}:`, error);
       return null;
     }
   }
 
-  async getRawFileContent(owner: string, repo: string, path: string): Promise<string | null> {
+  /**
+   * Every file path in the default branch, from one recursive trees API call.
+   * Returns null when the tree can't be read (e.g. an empty repository).
+   */
+  async getRepositoryTree(owner: string, repo: string): Promise<string[] | null> {
     try {
-      const response = await this.octokit.rest.repos.getContent({
-        owner,
-        repo,
-        path,
-      });
+      return await this.conditionalGet(
+        `tree:${owner}/${repo}`,
+        (headers) => this.octokit.rest.git.getTree({
+          owner,
+          repo,
+          tree_sha: 'HEAD',
+          recursive: 'true',
+          headers,
+        }),
+        (data): string[] => {
+          if (data.truncated) {
+            console.warn(`Tree for ${owner}/${repo} was truncated; detection uses the partial listing`);
+          }
+          return data.tree
+            .filter((entry: any) => entry.type === 'blob' && entry.path)
+            .map((entry: any) => entry.path as string);
+        }
+      );
+    } catch (error) {
+      if (isRateLimitError(error)) throw error;
+      console.error(`Failed to fetch tree for ${owner}/${repo}:`, error);
+      return null;
+    }
+  }
 
-      if (Array.isArray(response.data)) {
-        return null;
-      }
+  async getRawFileContent(owner: string, repo: string, path: string): Promise<string | null> {
+    try {
+      return await this.conditionalGet(
+        `file:${owner}/${repo}:${path}`,
+        (headers) => this.octokit.rest.repos.getContent({
+          owner,
+          repo,
+          path,
+          headers,
+        }),
+        (data): string | null => {
+          if (Array.isArray(data)) {
+            return null;
+          }
 
-      if ('content' in response.data && response.data.encoding === 'base64') {
-        return Buffer.from(response.data.content, 'base64').toString('utf-8');
-      }
+          if ('content' in data && data.encoding === 'base64') {
+            return Buffer.from(data.content, 'base64').toString('utf-8');
+          }
 
-      return null;
+          return null;
+        }
+      );
     } catch (error) {
+      // A missing file is a normal answer; running out of quota is not
+      if (isRateLimitError(error)) throw error;
       return null;
     }
   }
 }
 
-// Lazy initialization to ensure dotenv is loaded first
-let _githubService: GitHubService | null = null;
+// One service per account, created lazily so dotenv is loaded first
+const _services: Map<string, GitHubService> = new Map();
+
+// A token saved from the UI takes precedence over GITHUB_TOKEN in .env, which
+// only ever applies to the default github.com account
+const resolveToken = (account: GitHubAccount): { token: string; source: TokenSource } | null => {
+  const stored = tokenStore.getToken(account.id);
+  if (stored) return { token: stored, source: 'keychain' };
+  if (account.id === DEFAULT_ACCOUNT_ID && process.env.GITHUB_TOKEN) {
+    return { token: process.env.GITHUB_TOKEN, source: 'env' };
+  }
+  return null;
+};
+
+const createService = (account: GitHubAccount, token: string, source: TokenSource): GitHubService =>
+  new GitHubService(token, { baseUrl: account.apiBaseUrl, cacheNamespace: account.id, tokenSource: source });
 
-export const getGitHubService = (): GitHubService => {
-  if (!_githubService) {
-    _githubService = new GitHubService();
+/**
+ * Service for an account, the active one by default.
+ */
+export const getGitHubService = (accountId?: string): GitHubService => {
+  const account = accountId ? accountManager.getAccount(accountId) : accountManager.getActiveAccount();
+  if (!account) {
+    throw new Error(`Unknown GitHub account: ${accountId}`);
+  }
+
+  let service = _services.get(account.id);
+  if (!service) {
+    const resolved = resolveToken(account);
+    if (!resolved) {
+      throw new Error('No GitHub token configured. Add a personal access token in Settings.');
+    }
+    service = createService(account, resolved.token, resolved.source);
+    _services.set(account.id, service);
+  }
+  return service;
+};
+
+export const getTokenSource = (): TokenSource | null => {
+  try {
+    return getGitHubService().tokenSource;
+  } catch {
+    return null;
   }
-  return _githubService;
 };
 
+/**
+ * Validate a token for the active account, save it to secure storage and swap
+ * it into the account's service without a restart. If validation fails the
+ * current service is kept.
+ */
+export const setGitHubToken = async (token: string): Promise<TokenInfo> => {
+  const account = accountManager.getActiveAccount();
+  const candidate = createService(account, token, 'keychain');
+  const info = await candidate.getTokenInfo();
+
+  tokenStore.setToken(account.id, token);
+
+  // Cached lists belong to whoever the previous token authenticated as
+  const cachedUser = githubCache.get<GitHubUser>(`${account.id}:user`);
+  if (cachedUser && cachedUser.data.login !== info.login) {
+    githubCache.clear(`${account.id}:`);
+  }
+
+  accountManager.upsertAccount({ ...account, login: info.login, avatar_url: info.avatar_url });
+  _services.set(account.id, candidate);
+  return { ...info, source: 'keychain' };
+};
+
+export const clearGitHubToken = (): void => {
+  const account = accountManager.getActiveAccount();
+  tokenStore.clearToken(account.id);
+  githubCache.clear(`${account.id}:`);
+  _services.delete(account.id);
+};
+
+/**
+ * Accounts with whether each is active and has a usable token. Logins are
+ * filled in on first listing for accounts created before they were recorded.
+ */
+export const listGitHubAccounts = async (): Promise<AccountSummary[]> => {
+  const active = accountManager.getActiveAccount();
+  const summaries: AccountSummary[] = [];
+
+  for (const account of accountManager.listAccounts()) {
+    const hasToken = resolveToken(account) !== null;
+    let current = account;
+    if (hasToken && !account.login) {
+      try {
+        const user = await getGitHubService(account.id).getCurrentUser();
+        current = accountManager.upsertAccount({ ...account, login: user.login, avatar_url: user.avatar_url });
+      } catch (error) {
+        console.warn(`Could not look up login for account ${account.id}:`, error);
+      }
+    }
+    summaries.push({ ...current, active: current.id === active.id, hasToken });
+  }
+  return summaries;
+};
+
+/**
+ * Validate a token against a github.com or GitHub Enterprise Server host and
+ * add it as a new account, which becomes the active one.
+ */
+export const addGitHubAccount = async (
+  hostInput: string,
+  token: string,
+  apiBaseUrl?: string
+): Promise<GitHubAccount> => {
+  const host = normalizeHost(hostInput);
+  const baseUrl = apiBaseUrl?.trim().replace(/\/+$/, '') || apiBaseUrlForHost(host);
+  // A bare client: until the login is known there is no account to cache
+  // responses or track rate limits for
+  const info = await readTokenInfo(new Octokit({ auth: token, baseUrl }));
+
+  // The default account is a placeholder until it has a token; reuse it
+  // for the first github.com account so existing installs keep their keys
+  const placeholder = accountManager.getAccount(DEFAULT_ACCOUNT_ID);
+  const reusePlaceholder = !!placeholder && placeholder.host === host && resolveToken(placeholder) === null;
+  const id = reusePlaceholder ? DEFAULT_ACCOUNT_ID : `${info.login}@${host}`;
+
+  tokenStore.setToken(id, token);
+  const account = accountManager.upsertAccount({
+    id,
+    host,
+    apiBaseUrl: baseUrl,
+    login: info.login,
+    avatar_url: info.avatar_url,
+  });
+  _services.set(id, createService(account, token, 'keychain'));
+
+  if (placeholder && !reusePlaceholder && resolveToken(placeholder) === null) {
+    accountManager.removeAccount(DEFAULT_ACCOUNT_ID);
+  }
+  accountManager.setActiveAccount(id);
+  return account;
+};
+
+export const removeGitHubAccount = (id: string): void => {
+  tokenStore.clearToken(id);
+  githubCache.clear(`${id}:`);
+  _services.delete(id);
+  accountManager.removeAccount(id);
+};
+
+export const setActiveGitHubAccount = (id: string): GitHubAccount => accountManager.setActiveAccount(id);
+
 // For backward compatibility - use getter
 export const githubService = {
   get instance() {
     return getGitHubService();
   },
   validateToken: () => getGitHubService().validateToken(),
+  getRateLimit: () => getGitHubService().getRateLimit(),
+  getTokenInfo: async (): Promise<TokenInfo> => ({
+    ...(await getGitHubService().getTokenInfo()),
+    source: getTokenSource(),
+  }),
   getCurrentUser: () => getGitHubService().getCurrentUser(),
-  getAllUserRepositories: () => getGitHubService().getAllUserRepositories(),
-  getRepository: (repoName: string) => getGitHubService().getRepository(repoName),
+  getAllUserRepositories: (affiliation?: string) => getGitHubService().getAllUserRepositories(affiliation),
+  getCachedUserRepositories: (affiliation?: string) => getGitHubService().getCachedUserRepositories(affiliation),
+  getUserOrganizations: () => getGitHubService().getUserOrganizations(),
+  getOrganizationRepositories: (org: string) => getGitHubService().getOrganizationRepositories(org),
+  getCachedOrganizationRepositories: (org: string) => getGitHubService().getCachedOrganizationRepositories(org),
+  getRepository: (fullName: string) => getGitHubService().getRepository(fullName),
+  listIssues: (fullName: string) => getGitHubService().listIssues(fullName),
+  listPullRequests: (fullName: string) => getGitHubService().listPullRequests(fullName),
+  listWorkflowRuns: (fullName: string, branch: string) => getGitHubService().listWorkflowRuns(fullName, branch),
+  listWorkflowJobs: (fullName: string, runId: number) => getGitHubService().listWorkflowJobs(fullName, runId),
+  getWorkflowJobLogs: (fullName: string, jobId: number) => getGitHubService().getWorkflowJobLogs(fullName, jobId),
+  rerunWorkflowRun: (fullName: string, runId: number) => getGitHubService().rerunWorkflowRun(fullName, runId),
+  cancelWorkflowRun: (fullName: string, runId: number) => getGitHubService().cancelWorkflowRun(fullName, runId),
+  getRepositoryTemplates: () => getGitHubService().getRepositoryTemplates(),
+  createRepository: (options: NewRepositoryOptions) => getGitHubService().createRepository(options),
+  forkRepository: (fullName: string, org?: string) => getGitHubService().forkRepository(fullName, org),
   getRepositoryContent: (owner: string, repo: string, path: string) => getGitHubService().getRepositoryContent(owner, repo, path),
+  getRepositoryTree: (owner: string, repo: string) => getGitHubService().getRepositoryTree(owner, repo),
   getRawFileContent: (owner: string, repo: string, path: string) => getGitHubService().getRawFileContent(owner, repo, path),
 };
@@ -0,0 +1,91 @@
+import http from 'http';
+import net from 'net';
+
+/**
+ * How to tell that a started process is up: its port accepts connections,
+ * a path answers with a 2xx, or its output matches a pattern. 'none' counts
+ * it as ready as soon as it is spawned, for processes that serve nothing.
+ */
+export type ReadinessProbe =
+  | { type: 'tcp' }
+  | { type: 'http'; path: string }
+  | { type: 'output'; pattern: string }
+  | { type: 'none' };
+
+const PROBE_TIMEOUT_MS = 2000;
+
+/**
+ * Throw when a probe can't be run, e.g. an output pattern that isn't a valid
+ * regular expression, so a start is rejected up front instead of failing
+ * later when the process is spawned or restarted.
+ */
+export function validateProbe(probe: ReadinessProbe): void {
+  switch (probe?.type) {
+    case 'tcp':
+    case 'none':
+      return;
+    case 'http':
+      if (typeof probe.path !== 'string') throw new Error('HTTP readiness probe needs a path');
+      return;
+    case 'output':
+      if (typeof probe.pattern !== 'string') throw new Error('Output readiness probe needs a pattern');
+      try {
+        new RegExp(probe.pattern);
+      } catch {
+        throw new Error(`Invalid readiness pattern: ${probe.pattern}`);
+      }
+      return;
+    default:
+      throw new Error(`Unknown readiness probe: ${(probe as { type?: unknown })?.type}`);
+  }
+}
+
+/**
+ * GET a URL; resolves with the status code, or null when nothing answered
+ */
+export function probeHttp(url: string): Promise<number | null> {
+  return new Promise((resolve) => {
+    const request = http.get(url, { timeout: PROBE_TIMEOUT_MS }, (response) => {
+      response.resume();
+      resolve(response.statusCode || null);
+    });
+    request.on('timeout', () => request.destroy());
+    request.on('error', () => resolve(null));
+  });
+}
+
+export function probePort(port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ port, host: '127.0.0.1' });
+    socket.setTimeout(PROBE_TIMEOUT_MS);
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once('timeout', () => {
+      socket.destroy();
+      resolve(false);
+    });
+    socket.once('error', () => resolve(false));
+  });
+}
+
+/**
+ * Run a network probe against a local port. Output probes are matched as
+ * output arrives instead, so they never pass here.
+ */
+export async function checkProbe(probe: ReadinessProbe, port: number): Promise<boolean> {
+  switch (probe.type) {
+    case 'tcp':
+      return probePort(port);
+    case 'http': {
+      const path = probe.path.startsWith('/') ? probe.path : `/${probe.path}`;
+      const status = await probeHttp(`http://localhost:${port}${path}`);
+      return status !== null && status >= 200 && status < 300;
+    }
+    case 'none':
+      return true;
+    default:
+      return false;
+  }
+}
@@ -77,6 +77,26 @@ const createWindow = () => {
   });
 };
 
+// Settings used to be kept in the window's localStorage. Move any saved there
+// into the settings store before the last session's projects are restored,
+// so auto-start and the concurrency limit hold on the first launch after
+// upgrading. Left for the next launch if the window doesn't load.
+async function migrateWindowSettings(): Promise<void> {
+  const { webContents } = mainWindow;
+  if (webContents.isLoading()) {
+    const loaded = await new Promise<boolean>((resolve) => {
+      webContents.once('did-finish-load', () => resolve(true));
+      webContents.once('did-fail-load', () => resolve(false));
+    });
+    if (!loaded) return;
+  }
+
+  const saved = await webContents.executeJavaScript(`localStorage.getItem('settings')`);
+  if (!saved) return;
+  require('./settings-store').settingsStore.update(JSON.parse(saved));
+  await webContents.executeJavaScript(`localStorage.removeItem('settings')`);
+}
+
 app.on('ready', async () => {
   createWindow();
   // Import after dotenv is loaded
@@ -86,6 +106,11 @@ app.on('ready', async () => {
     const register = ipcModule?.registerIpcHandlers || ipcModule?.default || ipcModule;
     if (typeof register === 'function') {
       register();
+      migrateWindowSettings()
+        .catch((err: unknown) => console.error('Failed to migrate settings:', err))
+        // Pick up the projects the last session was running
+        .then(() => require('./running-projects').runningProjects.restore())
+        .catch((err: unknown) => console.error('Failed to restore running projects:', err));
     } else {
       console.error('registerIpcHandlers is not available. IPC handlers were not registered.', Object.keys(ipcModule || {}));
     }
@@ -94,6 +119,22 @@ app.on('ready', async () => {
   }
 });
 
+// Projects run in their own process groups and outlive the app unless stopped
+let processesStopped = false;
+app.on('before-quit', (event) => {
+  if (processesStopped) return;
+  const { processManager } = require('./process-manager');
+  if (processManager.getAllProcesses().length === 0) return;
+
+  event.preventDefault();
+  processesStopped = true;
+  // Remember them as running, to start again next time
+  require('./running-projects').runningProjects.freeze();
+  processManager.stopAllProcesses()
+    .catch((err: unknown) => console.error('Failed to stop running projects:', err))
+    .finally(() => app.quit());
+});
+
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
     app.quit();
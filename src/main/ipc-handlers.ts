@@ -1,18 +1,341 @@
-import { ipcMain, shell, dialog } from 'electron';
+import { ipcMain, shell, dialog, BrowserWindow, WebContents, Notification } from 'electron';
 import { spawn } from 'child_process';
-import { githubService } from './github-service.js';
+import path from 'path';
+import {
+  githubService,
+  getGitHubService,
+  workflowRunStatus,
+  Repository,
+  NewRepositoryOptions,
+  setGitHubToken,
+  clearGitHubToken,
+  listGitHubAccounts,
+  addGitHubAccount,
+  removeGitHubAccount,
+  setActiveGitHubAccount,
+} from './github-service.js';
+import { accountManager } from './accounts.js';
+import { createDeviceFlowClient } from './github-device-flow.js';
+import { githubRateLimiter, isRateLimitError } from './github-rate-limit.js';
 import { projectDetector } from './project-detector.js';
-import { processManager } from './process-manager.js';
+import { CrashLoop, processManager } from './process-manager.js';
+import { serviceLauncher, workspaceServices } from './service-launcher.js';
+import { processLogs } from './process-logs.js';
+import { MemoryAlert, processMetrics } from './process-metrics.js';
+import { AppSettings, settingsStore } from './settings-store.js';
+import { isPortConflictError, portRegistry } from './port-registry.js';
 import { gitOps, installer } from './git-operations.js';
 import { projectInstaller } from './project-installer.js';
 import { notesService } from './notes-service.js';
+import { manifestStore } from './manifest-store.js';
+import { MANIFEST_SCHEMA } from './project-manifest.js';
+import { detectedProfiles, runProfileStore } from './run-profiles.js';
+
+/**
+ * Build the failure result for a GitHub-backed handler. Rate limiting is
+ * reported with a code and reset time so the renderer can tell the user when
+ * to retry rather than showing a generic failure.
+ */
+function toErrorResult(error: unknown) {
+  if (isRateLimitError(error)) {
+    return {
+      success: false,
+      error: error.message,
+      code: error.code,
+      resetAt: error.resetAt.toISOString(),
+    };
+  }
+  return { success: false, error: (error as Error).message };
+}
+
+/**
+ * Local storage key for a repository of the active account. Install folders,
+ * folder mappings and notes of GitHub Enterprise repositories are prefixed
+ * with the host so they can't collide with same-named github.com repos.
+ */
+function projectKey(fullName: string): string {
+  return accountManager.getProjectKey(fullName);
+}
+
+/**
+ * Refresh a repository list after cached data has already been returned, and
+ * push it to the renderer only if something changed.
+ */
+function refreshRepositoriesInBackground(
+  sender: WebContents,
+  org: string | null,
+  cached: Repository[],
+  load: () => Promise<Repository[]>
+): void {
+  load()
+    .then((repos) => {
+      if (JSON.stringify(repos) !== JSON.stringify(cached) && !sender.isDestroyed()) {
+        sender.send('github:repositoriesUpdated', { org, data: repos });
+      }
+    })
+    .catch((error) => {
+      console.warn('Background repository refresh failed, keeping cached list:', error);
+    });
+}
+
+/**
+ * Clone and install a repository that was just created or forked into the
+ * base directory, reporting progress like 'project:install'.
+ */
+async function installNewRepository(sender: WebContents, repo: Repository) {
+  const install = await projectInstaller.installProject(repo.clone_url, projectKey(repo.full_name), (progress) => {
+    if (!sender.isDestroyed()) {
+      sender.send('project:installProgress', progress);
+    }
+  });
+  return { success: true, data: { repo, install } };
+}
+
+/**
+ * Hand the settings the main process acts on to the services that use them
+ */
+function applySettings(settings: AppSettings): void {
+  processManager.setGracePeriod(settings.stopGracePeriod * 1000);
+  processManager.setMaxConcurrent(settings.maxConcurrentProcesses);
+  processMetrics.setMemoryLimit(settings.memoryAlertLimit * 1024 * 1024);
+}
+
+/**
+ * Whether a device flow verification address is one to open: an https page
+ * on the account's host. GITHUB_OAUTH_URL points sign-in at another server.
+ */
+function isVerificationUri(uri: string, host: string): boolean {
+  try {
+    const url = new URL(uri);
+    const expectedHost = process.env.GITHUB_OAUTH_URL ? new URL(process.env.GITHUB_OAUTH_URL).host : host;
+    return url.protocol === 'https:' && url.host === expectedHost;
+  } catch {
+    return false;
+  }
+}
+
+// Device flow sign-in currently waiting for the user to enter the code
+let activeDeviceFlow: { cancelled: boolean } | null = null;
+
+// Windows that already receive process output
+const outputForwardedTo = new WeakSet<WebContents>();
+
+/**
+ * Forward process output, bound ports and launch group progress to a window,
+ * once however many processes it starts
+ */
+function forwardProcessEvents(sender: WebContents): void {
+  if (outputForwardedTo.has(sender)) return;
+  outputForwardedTo.add(sender);
+
+  const send = (channel: string, data: unknown) => {
+    if (!sender.isDestroyed()) {
+      sender.send(channel, data);
+    }
+  };
+  processManager.on('output', ({ processId, output, text }) => send('process:output', { processId, output, text }));
+  processManager.on('portDetected', ({ processId, port }) => send('process:port', { processId, port }));
+  processManager.on('statusChanged', (change) => send('process:status', change));
+  processManager.on('processExit', (exit) => send('process:exit', exit));
+  processManager.on('processRestarting', (restart) => send('process:restarting', restart));
+  processManager.on('crashLoop', (crash) => send('process:crashLoop', crash));
+  processManager.on('queueChanged', (queue) => send('process:queue', queue));
+  serviceLauncher.on('update', (group) => send('services:update', group));
+}
 
 export function registerIpcHandlers() {
+  applySettings(settingsStore.get());
+  settingsStore.on('changed', applySettings);
+
+  // Push quota changes to the renderer as responses come in
+  githubRateLimiter.on('update', ({ accountId, baseUrl, state }) => {
+    // Only the active account's quota is shown
+    try {
+      const service = getGitHubService();
+      if (service.getAccountId() !== accountId || service.getBaseUrl() !== baseUrl) return;
+    } catch {
+      return;
+    }
+    for (const window of BrowserWindow.getAllWindows()) {
+      window.webContents.send('github:rateLimitUpdated', state);
+    }
+  });
+
+  // Tell the user about a project that keeps crashing, even with the app in the background
+  processManager.on('crashLoop', (crash: CrashLoop) => {
+    if (!Notification.isSupported() || !settingsStore.get().showNotifications) return;
+    const name = crash.target ? `${crash.projectName} (${crash.target})` : crash.projectName;
+    new Notification({
+      title: `${name} keeps crashing`,
+      body: `Stopped restarting it after ${crash.restarts} attempt(s). Check its output for the error.`,
+    }).show();
+  });
+
+  // Resource usage goes to every window, whichever started the process
+  processMetrics.on('sample', (samples) => {
+    for (const window of BrowserWindow.getAllWindows()) {
+      window.webContents.send('metrics:sample', samples);
+    }
+  });
+
+  processMetrics.on('memoryAlert', (alert: MemoryAlert) => {
+    for (const window of BrowserWindow.getAllWindows()) {
+      window.webContents.send('metrics:memoryAlert', alert);
+    }
+    if (!Notification.isSupported() || !settingsStore.get().showNotifications) return;
+    const name = alert.target ? `${alert.projectName} (${alert.target})` : alert.projectName;
+    new Notification({
+      title: `${name} is using a lot of memory`,
+      body: `${Math.round(alert.rss / 1024 / 1024)} MB, over the ${Math.round(alert.limit / 1024 / 1024)} MB limit.`,
+    }).show();
+  });
+
   // GitHub API Handlers
+  ipcMain.handle('github:getRateLimit', async () => {
+    try {
+      return { success: true, data: githubService.getRateLimit() };
+    } catch (error) {
+      return toErrorResult(error);
+    }
+  });
+
   ipcMain.handle('github:validateToken', async () => {
     try {
       const isValid = await githubService.validateToken();
       return { success: isValid };
+    } catch (error) {
+      return toErrorResult(error);
+    }
+  });
+
+  // Token management: tokens entered in Settings are validated, stored in
+  // the OS keychain and hot-swapped into the GitHub service
+  ipcMain.handle('github:getTokenInfo', async () => {
+    try {
+      const info = await githubService.getTokenInfo();
+      return { success: true, data: info };
+    } catch (error) {
+      return toErrorResult(error);
+    }
+  });
+
+  ipcMain.handle('github:setToken', async (_event, token: string) => {
+    try {
+      const info = await setGitHubToken(token.trim());
+      return { success: true, data: info };
+    } catch (error) {
+      if ((error as any)?.status === 401) {
+        return { success: false, error: 'GitHub rejected this token. Check that it is correct and not expired.' };
+      }
+      return toErrorResult(error);
+    }
+  });
+
+  // OAuth device flow: returns the code to show, then polls in the background
+  // and reports through 'github:deviceFlowCompleted'. The resulting token is
+  // stored exactly like a pasted personal access token.
+  ipcMain.handle('github:startDeviceFlow', async (_event) => {
+    try {
+      if (activeDeviceFlow) activeDeviceFlow.cancelled = true;
+
+      const host = accountManager.getActiveAccount().host;
+      const client = createDeviceFlowClient(host);
+      const code = await client.requestCode();
+      if (!isVerificationUri(code.verificationUri, host)) {
+        throw new Error(`Unexpected verification address from GitHub: ${code.verificationUri}`);
+      }
+      const flow = { cancelled: false };
+      activeDeviceFlow = flow;
+
+      client.pollForToken(code, () => flow.cancelled)
+        .then((token) => {
+          // Cancelled, or replaced by a newer sign-in, while the user approved it
+          if (flow.cancelled) throw new Error('Sign-in was cancelled');
+          return setGitHubToken(token);
+        })
+        .then((info) => {
+          if (!_event.sender.isDestroyed()) {
+            _event.sender.send('github:deviceFlowCompleted', { success: true, data: info });
+          }
+        })
+        .catch((error) => {
+          if (!flow.cancelled && !_event.sender.isDestroyed()) {
+            _event.sender.send('github:deviceFlowCompleted', toErrorResult(error));
+          }
+        })
+        .finally(() => {
+          if (activeDeviceFlow === flow) activeDeviceFlow = null;
+        });
+
+      shell.openExternal(code.verificationUri).catch((error) => {
+        console.warn('Failed to open the verification page:', error);
+      });
+      return {
+        success: true,
+        data: {
+          userCode: code.userCode,
+          verificationUri: code.verificationUri,
+          expiresAt: new Date(code.expiresAt).toISOString(),
+        },
+      };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('github:cancelDeviceFlow', async () => {
+    if (activeDeviceFlow) {
+      activeDeviceFlow.cancelled = true;
+      activeDeviceFlow = null;
+    }
+    return { success: true };
+  });
+
+  ipcMain.handle('github:clearToken', async () => {
+    try {
+      clearGitHubToken();
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // Accounts: each account has its own token and API host (github.com or a
+  // GitHub Enterprise Server); one of them is active at a time
+  ipcMain.handle('github:listAccounts', async () => {
+    try {
+      const accounts = await listGitHubAccounts();
+      return { success: true, data: accounts };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('github:addAccount', async (_event, host: string, token: string, apiBaseUrl?: string) => {
+    try {
+      const account = await addGitHubAccount(host, token.trim(), apiBaseUrl);
+      return { success: true, data: account };
+    } catch (error) {
+      if ((error as any)?.status === 401) {
+        return { success: false, error: 'GitHub rejected this token. Check that it is correct and not expired.' };
+      }
+      return toErrorResult(error);
+    }
+  });
+
+  ipcMain.handle('github:removeAccount', async (_event, accountId: string) => {
+    try {
+      removeGitHubAccount(accountId);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('github:setActiveAccount', async (_event, accountId: string) => {
+    try {
+      const account = setActiveGitHubAccount(accountId);
+      return { success: true, data: account };
     } catch (error) {
       return { success: false, error: (error as Error).message };
     }
@@ -23,42 +346,200 @@ export function registerIpcHandlers() {
       const user = await githubService.getCurrentUser();
       return { success: true, data: user };
     } catch (error) {
-      return { success: false, error: (error as Error).message };
+      return toErrorResult(error);
     }
   });
 
-  ipcMain.handle('github:getAllRepositories', async () => {
+  // Repository lists are served from the on-disk cache when available, with
+  // a background refresh reported through 'github:repositoriesUpdated'
+  ipcMain.handle('github:getAllRepositories', async (_event, affiliation?: string) => {
     try {
-      const repos = await githubService.getAllUserRepositories();
+      const cached = githubService.getCachedUserRepositories(affiliation);
+      if (cached) {
+        refreshRepositoriesInBackground(_event.sender, null, cached, () =>
+          githubService.getAllUserRepositories(affiliation)
+        );
+        return { success: true, data: cached, cached: true };
+      }
+      const repos = await githubService.getAllUserRepositories(affiliation);
       return { success: true, data: repos };
     } catch (error) {
-      return { success: false, error: (error as Error).message };
+      return toErrorResult(error);
+    }
+  });
+
+  ipcMain.handle('github:getOrganizations', async () => {
+    try {
+      const orgs = await githubService.getUserOrganizations();
+      return { success: true, data: orgs };
+    } catch (error) {
+      return toErrorResult(error);
+    }
+  });
+
+  ipcMain.handle('github:getOrganizationRepositories', async (_event, org: string) => {
+    try {
+      const cached = githubService.getCachedOrganizationRepositories(org);
+      if (cached) {
+        refreshRepositoriesInBackground(_event.sender, org, cached, () =>
+          githubService.getOrganizationRepositories(org)
+        );
+        return { success: true, data: cached, cached: true };
+      }
+      const repos = await githubService.getOrganizationRepositories(org);
+      return { success: true, data: repos };
+    } catch (error) {
+      return toErrorResult(error);
     }
   });
 
-  ipcMain.handle('github:getRepository', async (_event, repoName) => {
+  // Repositories are addressed by full_name ("owner/repo")
+  ipcMain.handle('github:getRepository', async (_event, fullName: string) => {
     try {
-      const repo = await githubService.getRepository(repoName);
+      const repo = await githubService.getRepository(fullName);
       return { success: true, data: repo };
     } catch (error) {
-      return { success: false, error: (error as Error).message };
+      return toErrorResult(error);
+    }
+  });
+
+  ipcMain.handle('github:listIssues', async (_event, fullName: string) => {
+    try {
+      const issues = await githubService.listIssues(fullName);
+      return { success: true, data: issues };
+    } catch (error) {
+      return toErrorResult(error);
+    }
+  });
+
+  ipcMain.handle('github:listPullRequests', async (_event, fullName: string) => {
+    try {
+      const pulls = await githubService.listPullRequests(fullName);
+      return { success: true, data: pulls };
+    } catch (error) {
+      return toErrorResult(error);
+    }
+  });
+
+  // Creating and forking repositories; both are cloned and installed afterwards
+  ipcMain.handle('github:getRepositoryTemplates', async () => {
+    try {
+      const templates = await githubService.getRepositoryTemplates();
+      return { success: true, data: templates };
+    } catch (error) {
+      return toErrorResult(error);
+    }
+  });
+
+  ipcMain.handle('github:createRepository', async (_event, options: NewRepositoryOptions) => {
+    try {
+      const repo = await githubService.createRepository(options);
+      return await installNewRepository(_event.sender, repo);
+    } catch (error) {
+      return toErrorResult(error);
+    }
+  });
+
+  ipcMain.handle('github:forkRepository', async (_event, fullName: string, org?: string) => {
+    try {
+      const repo = await githubService.forkRepository(fullName, org);
+      return await installNewRepository(_event.sender, repo);
+    } catch (error) {
+      return toErrorResult(error);
+    }
+  });
+
+  // GitHub Actions: runs are listed for the branch checked out in the local clone
+  ipcMain.handle('actions:listRuns', async (_event, fullName: string) => {
+    try {
+      const branch = await gitOps.getCurrentBranch(projectKey(fullName));
+      if (!branch) {
+        return { success: true, data: { branch: null, runs: [] } };
+      }
+      const runs = await githubService.listWorkflowRuns(fullName, branch);
+      return { success: true, data: { branch, runs } };
+    } catch (error) {
+      return toErrorResult(error);
+    }
+  });
+
+  // Latest run status per installed project, for list badges
+  ipcMain.handle('actions:getStatuses', async (_event, fullNames: string[]) => {
+    try {
+      const results = await Promise.all(
+        fullNames.map(async (fullName) => {
+          try {
+            const branch = await gitOps.getCurrentBranch(projectKey(fullName));
+            if (!branch) return { name: fullName, status: null };
+            const [latest] = await githubService.listWorkflowRuns(fullName, branch);
+            return {
+              name: fullName,
+              branch,
+              status: latest ? workflowRunStatus(latest) : null,
+              url: latest?.html_url ?? null,
+            };
+          } catch (error) {
+            return { name: fullName, status: null, error: (error as Error).message };
+          }
+        })
+      );
+      return { success: true, data: results };
+    } catch (error) {
+      return toErrorResult(error);
+    }
+  });
+
+  ipcMain.handle('actions:listJobs', async (_event, fullName: string, runId: number) => {
+    try {
+      const jobs = await githubService.listWorkflowJobs(fullName, runId);
+      return { success: true, data: jobs };
+    } catch (error) {
+      return toErrorResult(error);
+    }
+  });
+
+  ipcMain.handle('actions:getJobLogs', async (_event, fullName: string, jobId: number) => {
+    try {
+      const logs = await githubService.getWorkflowJobLogs(fullName, jobId);
+      return { success: true, data: logs };
+    } catch (error) {
+      return toErrorResult(error);
+    }
+  });
+
+  ipcMain.handle('actions:rerun', async (_event, fullName: string, runId: number) => {
+    try {
+      await githubService.rerunWorkflowRun(fullName, runId);
+      return { success: true };
+    } catch (error) {
+      return toErrorResult(error);
+    }
+  });
+
+  ipcMain.handle('actions:cancel', async (_event, fullName: string, runId: number) => {
+    try {
+      await githubService.cancelWorkflowRun(fullName, runId);
+      return { success: true };
+    } catch (error) {
+      return toErrorResult(error);
     }
   });
 
   // Project Detection Handlers
   ipcMain.handle('project:detectType', async (_event, repo) => {
     try {
-      const projectType = await projectDetector.detectProjectType(repo);
+      const projectType = await projectDetector.detectProjectType(repo, projectKey(repo.full_name));
       return { success: true, data: projectType };
     } catch (error) {
-      return { success: false, error: (error as Error).message };
+      return toErrorResult(error);
     }
   });
 
   // Project Installation Handler (unified clone + detect + install)
-  ipcMain.handle('project:install', async (_event, repoUrl, repoName) => {
+  // Installed projects are keyed by full_name ("owner/repo")
+  ipcMain.handle('project:install', async (_event, repoUrl, fullName: string) => {
     try {
-      const result = await projectInstaller.installProject(repoUrl, repoName, (progress) => {
+      const result = await projectInstaller.installProject(repoUrl, projectKey(fullName), (progress) => {
         _event.sender.send('project:installProgress', progress);
       });
       return result;
@@ -70,7 +551,7 @@ export function registerIpcHandlers() {
   // Check if project is installed
   ipcMain.handle('project:isInstalled', async (_event, repoName) => {
     try {
-      const result = await projectInstaller.isProjectInstalled(repoName);
+      const result = await projectInstaller.isProjectInstalled(projectKey(repoName));
       return { success: true, data: result };
     } catch (error) {
       return { success: false, error: (error as Error).message };
@@ -83,10 +564,10 @@ export function registerIpcHandlers() {
       const results = await Promise.all(
         repoNames.map(async (repoName) => {
           try {
-            const installed = await projectInstaller.isProjectInstalled(repoName);
+            const installed = await projectInstaller.isProjectInstalled(projectKey(repoName));
             let projectPath = null;
             if (installed.installed) {
-              projectPath = gitOps.getProjectPath(repoName);
+              projectPath = gitOps.getProjectPath(projectKey(repoName));
             }
             return {
               name: repoName,
@@ -112,22 +593,15 @@ export function registerIpcHandlers() {
   // Uninstall/delete a project
   ipcMain.handle('project:uninstall', async (_event, repoName: string) => {
     try {
-      // First, stop any processes managed by ProcessManager for this project
-      const stoppedManaged = processManager.stopProcessesForProject(repoName);
-      console.log(`Stopped ${stoppedManaged} managed process(es) for ${repoName}`);
-
-      // Get the project path to find orphaned processes
-      const projectPath = gitOps.getProjectPath(repoName);
-      
-      // Kill any orphaned system processes (electron, node) running from this project
-      const killedOrphaned = await processManager.killOrphanedProcesses(projectPath);
-      console.log(`Killed ${killedOrphaned} orphaned process(es) for ${repoName}`);
+      // First, stop the project's processes along with everything they started
+      const stopped = await processManager.stopProcessesForProject(repoName);
+      console.log(`Stopped ${stopped} process(es) for ${repoName}`);
 
       // Small delay to ensure file handles are released
       await new Promise(resolve => setTimeout(resolve, 500));
 
       // Now delete the project
-      await gitOps.deleteProject(repoName);
+      await gitOps.deleteProject(projectKey(repoName));
       return { success: true };
     } catch (error) {
       return { success: false, error: (error as Error).message };
@@ -135,15 +609,93 @@ export function registerIpcHandlers() {
   });
 
   // Get install config for a local project
-  ipcMain.handle('project:getConfig', async (_event, projectPath) => {
+  ipcMain.handle('project:getConfig', async (_event, projectPath, repoName?: string) => {
     try {
-      const config = await projectInstaller.detectProjectConfig(projectPath);
+      const config = await projectInstaller.detectProjectConfig(projectPath, repoName && projectKey(repoName));
       return { success: true, data: config };
     } catch (error) {
       return { success: false, error: (error as Error).message };
     }
   });
 
+  // Run a project's pre-run steps, streaming their output as install progress
+  ipcMain.handle('project:runSteps', async (_event, projectPath, steps: string[], env?: Record<string, string>) => {
+    try {
+      await projectInstaller.runSteps(steps, projectPath, (message) => {
+        if (!_event.sender.isDestroyed()) {
+          _event.sender.send('project:installProgress', { stage: 'preparing', progress: 0, message });
+        }
+      }, env);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // Manifest kept in the app's config for a project, and the schema it follows.
+  // A saved one that is invalid comes back with its errors, to be fixed.
+  ipcMain.handle('project:getManifest', async (_event, repoName) => {
+    try {
+      const key = projectKey(repoName);
+      const invalid = manifestStore.getInvalid(key);
+      return {
+        success: true,
+        data: {
+          manifest: manifestStore.get(key) ?? invalid?.manifest ?? null,
+          errors: invalid?.errors ?? [],
+          schema: MANIFEST_SCHEMA,
+        },
+      };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('project:saveManifest', async (_event, repoName, manifest) => {
+    try {
+      const errors = manifestStore.set(projectKey(repoName), manifest);
+      if (errors.length > 0) {
+        return { success: false, error: errors.join('\n'), errors };
+      }
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // Run profiles: named commands per project, detected ones until the user saves their own
+  ipcMain.handle('profiles:list', async (_event, repoName, projectPath) => {
+    try {
+      const key = projectKey(repoName);
+      const config = await projectInstaller.detectProjectConfig(projectPath, key);
+      const list = runProfileStore.list(key, detectedProfiles(config));
+      // Absolute folders to start each profile in
+      const cwdPaths = Object.fromEntries(
+        list.profiles.map((profile) => [profile.id, path.resolve(projectPath, profile.cwd || '')])
+      );
+      return { success: true, data: { ...list, cwdPaths } };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('profiles:save', async (_event, repoName, profiles) => {
+    try {
+      return { success: true, data: runProfileStore.setProfiles(projectKey(repoName), profiles) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('profiles:select', async (_event, repoName, profileId) => {
+    try {
+      runProfileStore.select(projectKey(repoName), profileId);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
   // Get the base directory where projects are installed
   ipcMain.handle('project:getBaseDir', async () => {
     try {
@@ -167,7 +719,7 @@ export function registerIpcHandlers() {
   // Link an existing folder to a repository
   ipcMain.handle('project:linkExisting', async (_event, localPath, repoUrl, repoName) => {
     try {
-      const result = await gitOps.linkExistingFolder(localPath, repoUrl, repoName);
+      const result = await gitOps.linkExistingFolder(localPath, repoUrl, projectKey(repoName));
       return result;
     } catch (error) {
       return { success: false, message: (error as Error).message };
@@ -177,7 +729,7 @@ export function registerIpcHandlers() {
   // Change the folder link for a project
   ipcMain.handle('project:changeLink', async (_event, repoName, newLocalPath) => {
     try {
-      const result = await gitOps.changeProjectLink(repoName, newLocalPath);
+      const result = await gitOps.changeProjectLink(projectKey(repoName), newLocalPath);
       return result;
     } catch (error) {
       return { success: false, message: (error as Error).message };
@@ -187,7 +739,7 @@ export function registerIpcHandlers() {
   // Remove the folder link for a project (without deleting the folder)
   ipcMain.handle('project:removeLink', async (_event, repoName) => {
     try {
-      const result = await gitOps.removeProjectLink(repoName);
+      const result = await gitOps.removeProjectLink(projectKey(repoName));
       return result;
     } catch (error) {
       return { success: false, message: (error as Error).message };
@@ -197,7 +749,7 @@ export function registerIpcHandlers() {
   // Git Operations Handlers
   ipcMain.handle('git:cloneRepository', async (_event, repoUrl, repoName) => {
     try {
-      const projectPath = await gitOps.cloneRepository(repoUrl, repoName, {
+      const projectPath = await gitOps.cloneRepository(repoUrl, projectKey(repoName), {
         onProgress: (message) => {
           _event.sender.send('git:cloneProgress', { message });
         },
@@ -209,14 +761,14 @@ export function registerIpcHandlers() {
   });
 
   ipcMain.handle('git:getProjectPath', async (_event, repoName) => {
-    const projectPath = gitOps.getProjectPath(repoName);
+    const projectPath = gitOps.getProjectPath(projectKey(repoName));
     return { success: true, data: { projectPath } };
   });
 
   // Check for remote changes (fast - no fetch)
   ipcMain.handle('git:checkRemoteChanges', async (_event, repoName) => {
     try {
-      const result = await gitOps.checkForRemoteChanges(repoName);
+      const result = await gitOps.checkForRemoteChanges(projectKey(repoName));
       return { success: true, data: result };
     } catch (error) {
       return { success: false, error: (error as Error).message };
@@ -226,7 +778,7 @@ export function registerIpcHandlers() {
   // Fetch and check for remote changes (slow but accurate)
   ipcMain.handle('git:fetchAndCheckRemoteChanges', async (_event, repoName) => {
     try {
-      const result = await gitOps.fetchAndCheckRemoteChanges(repoName);
+      const result = await gitOps.fetchAndCheckRemoteChanges(projectKey(repoName));
       return { success: true, data: result };
     } catch (error) {
       return { success: false, error: (error as Error).message };
@@ -236,7 +788,17 @@ export function registerIpcHandlers() {
   // Pull remote changes
   ipcMain.handle('git:pull', async (_event, repoName) => {
     try {
-      const result = await gitOps.pullChanges(repoName);
+      const result = await gitOps.pullChanges(projectKey(repoName));
+      return { success: true, data: result };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // Check out a pull request into a local pr-<number> branch
+  ipcMain.handle('git:checkoutPullRequest', async (_event, repoName: string, number: number) => {
+    try {
+      const result = await gitOps.checkoutPullRequest(projectKey(repoName), number);
       return { success: true, data: result };
     } catch (error) {
       return { success: false, error: (error as Error).message };
@@ -273,37 +835,82 @@ export function registerIpcHandlers() {
   // Process Manager Handlers
   ipcMain.handle(
     'process:start',
-    async (_event, projectName, command, cwd, port, type) => {
+    async (_event, projectName, command, cwd, port, type, options) => {
       try {
-        processManager.on('output', ({ processId, output }) => {
-          _event.sender.send('process:output', { processId, output });
-        });
+        forwardProcessEvents(_event.sender);
 
         const process = await processManager.startProcess(
           projectName,
           command,
           cwd,
           port,
-          type
+          type,
+          options
         );
         return { success: true, data: process };
       } catch (error) {
+        // Let the user choose between stopping whoever has the port and using another
+        if (isPortConflictError(error)) {
+          return { success: false, error: error.message, code: error.code, port: error.port, owner: error.owner };
+        }
         return { success: false, error: (error as Error).message };
       }
     }
   );
 
+  // Launch groups: a project's services started in dependency order and stopped together
+  ipcMain.handle('services:launch', async (_event, repoName, projectPath, names) => {
+    try {
+      forwardProcessEvents(_event.sender);
+      const config = await projectInstaller.detectProjectConfig(projectPath, projectKey(repoName));
+      const services = workspaceServices(config.workspace?.packages || [], names);
+      return { success: true, data: serviceLauncher.launch(repoName, services) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('services:stop', async (_event, groupId) => {
+    try {
+      return { success: await serviceLauncher.stop(groupId) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('services:getAll', async () => {
+    try {
+      return { success: true, data: serviceLauncher.getGroups() };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
   ipcMain.handle('process:stop', async (_event, processId) => {
     try {
-      const success = processManager.stopProcess(processId);
+      const success = await processManager.stopProcess(processId);
       return { success };
     } catch (error) {
       return { success: false, error: (error as Error).message };
     }
   });
 
-  ipcMain.handle('process:getAll', async () => {
+  ipcMain.handle('process:restart', async (_event, processId) => {
     try {
+      const process = await processManager.restartProcess(processId);
+      if (!process) {
+        return { success: false, error: 'Process is not running' };
+      }
+      return { success: true, data: process };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('process:getAll', async (_event) => {
+    try {
+      // Includes processes restored at launch, which no window has started
+      forwardProcessEvents(_event.sender);
       const processes = processManager.getAllProcesses();
       return { success: true, data: processes };
     } catch (error) {
@@ -322,13 +929,133 @@ export function registerIpcHandlers() {
 
   ipcMain.handle('process:stopAll', async () => {
     try {
-      processManager.stopAllProcesses();
+      await processManager.stopAllProcesses();
       return { success: true };
     } catch (error) {
       return { success: false, error: (error as Error).message };
     }
   });
 
+  // Starts waiting for a slot under the concurrency limit
+  ipcMain.handle('process:getQueue', async () => {
+    try {
+      return { success: true, data: processManager.getQueue() };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('process:setPriority', async (_event, processId, priority: number) => {
+    try {
+      return { success: processManager.setPriority(processId, priority) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // Keystrokes typed into a process's terminal
+  ipcMain.handle('process:write', async (_event, processId, data: string) => {
+    try {
+      return { success: processManager.writeInput(processId, data) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('process:resize', async (_event, processId, cols: number, rows: number) => {
+    try {
+      return { success: processManager.resizeTerminal(processId, { cols, rows }) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // Logs of past runs, kept on disk per project
+  ipcMain.handle('logs:listRuns', async (_event, repoName) => {
+    try {
+      return { success: true, data: processLogs.listRuns(repoName) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('logs:read', async (_event, repoName, runId, start: number, count: number) => {
+    try {
+      return { success: true, data: await processLogs.readLines(repoName, runId, start, count) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('logs:search', async (_event, repoName, runId, query: string, options) => {
+    try {
+      return { success: true, data: await processLogs.search(repoName, runId, query, options) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // CPU, memory and ports of running processes
+  ipcMain.handle('metrics:getHistory', async () => {
+    try {
+      return { success: true, data: processMetrics.getHistory() };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // Port registry: the port kept for each project, and who holds busy ports
+  ipcMain.handle('ports:list', async () => {
+    try {
+      const reservations = portRegistry.list();
+      const owners = await processManager.findPortOwners(reservations.map((r) => r.port));
+      return { success: true, data: reservations.map((r) => ({ ...r, owner: owners.get(r.port) || null })) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('ports:owner', async (_event, port: number) => {
+    try {
+      return { success: true, data: (await processManager.findPortOwners([port])).get(port) || null };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('ports:killOwner', async (_event, port: number) => {
+    try {
+      return { success: await processManager.killPortOwner(port) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('ports:release', async (_event, key: string) => {
+    try {
+      return { success: portRegistry.release(key) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // App settings, saved and acted on in the main process
+  ipcMain.handle('settings:get', async () => {
+    try {
+      return { success: true, data: settingsStore.get() };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('settings:set', async (_event, changes: Partial<AppSettings>) => {
+    try {
+      return { success: true, data: settingsStore.update(changes) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
   // Open project in VS Code
   ipcMain.handle('project:openInVSCode', async (_event, projectPath: string) => {
     try {
@@ -349,7 +1076,7 @@ export function registerIpcHandlers() {
   ipcMain.handle('notes:get', async (_event, repoName: string) => {
     console.debug('IPC notes:get called for', repoName);
     try {
-      const notes = await notesService.getNotes(repoName);
+      const notes = await notesService.getNotes(projectKey(repoName));
       return { success: true, data: notes };
     } catch (error) {
       return { success: false, error: (error as Error).message };
@@ -358,7 +1085,7 @@ export function registerIpcHandlers() {
 
   ipcMain.handle('notes:save', async (_event, repoName: string, notes: any[]) => {
     try {
-      await notesService.saveNotes(repoName, notes);
+      await notesService.saveNotes(projectKey(repoName), notes);
       return { success: true };
     } catch (error) {
       return { success: false, error: (error as Error).message };
@@ -367,7 +1094,7 @@ export function registerIpcHandlers() {
 
   ipcMain.handle('notes:add', async (_event, repoName: string, text: string) => {
     try {
-      const note = await notesService.addNote(repoName, text);
+      const note = await notesService.addNote(projectKey(repoName), text);
       return { success: true, data: note };
     } catch (error) {
       return { success: false, error: (error as Error).message };
@@ -376,7 +1103,7 @@ export function registerIpcHandlers() {
 
   ipcMain.handle('notes:update', async (_event, repoName: string, noteId: string, updates: any) => {
     try {
-      const note = await notesService.updateNote(repoName, noteId, updates);
+      const note = await notesService.updateNote(projectKey(repoName), noteId, updates);
       return { success: true, data: note };
     } catch (error) {
       return { success: false, error: (error as Error).message };
@@ -385,7 +1112,7 @@ export function registerIpcHandlers() {
 
   ipcMain.handle('notes:delete', async (_event, repoName: string, noteId: string) => {
     try {
-      const success = await notesService.deleteNote(repoName, noteId);
+      const success = await notesService.deleteNote(projectKey(repoName), noteId);
       return { success };
     } catch (error) {
       return { success: false, error: (error as Error).message };
@@ -396,11 +1123,11 @@ export function registerIpcHandlers() {
   ipcMain.handle('notes:fetchFromRepo', async (_event, repoName: string) => {
     console.debug('IPC notes:fetchFromRepo called for', repoName);
     try {
-      const notes = await notesService.fetchNotesFromRepoName(repoName);
+      const notes = await notesService.fetchNotesFromRepoName(repoName, projectKey(repoName));
       console.debug('notes:fetchFromRepo result for', repoName, '->', (notes.notes || []).length, 'items');
       return { success: true, data: notes };
     } catch (error) {
-      return { success: false, error: (error as Error).message };
+      return toErrorResult(error);
     }
   });
 
@@ -0,0 +1,71 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+let userData = '';
+
+vi.mock('electron', () => ({ app: { getPath: () => userData } }));
+
+const storeFile = () => path.join(userData, 'project-manifests.json');
+
+// A fresh store that loads whatever is on disk now
+async function loadStore() {
+  vi.resetModules();
+  return (await import('./manifest-store')).manifestStore;
+}
+
+describe('ManifestStore', () => {
+  beforeEach(() => {
+    userData = fs.mkdtempSync(path.join(os.tmpdir(), 'manifest-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(userData, { recursive: true, force: true });
+  });
+
+  it('saves valid manifests and returns them', async () => {
+    const store = await loadStore();
+
+    expect(store.set('owner/repo', { dev: 'npm run dev', port: 3000 })).toEqual([]);
+
+    expect((await loadStore()).get('owner/repo')).toEqual({ dev: 'npm run dev', port: 3000 });
+  });
+
+  it('rejects an invalid manifest with its errors and keeps the saved one', async () => {
+    const store = await loadStore();
+    store.set('owner/repo', { dev: 'npm run dev' });
+
+    const errors = store.set('owner/repo', { dev: '', port: 70000 } as any);
+
+    expect(errors.length).toBeGreaterThan(0);
+    expect(errors.join('\n')).toMatch(/port/);
+    expect(store.get('owner/repo')).toEqual({ dev: 'npm run dev' });
+  });
+
+  it('does not use a stored manifest that is no longer valid, but keeps it to be fixed', async () => {
+    const broken = { dev: 'npm run dev', port: 'three thousand' };
+    fs.writeFileSync(storeFile(), JSON.stringify({ 'owner/broken': broken, 'owner/fine': { start: 'node .' } }));
+
+    const store = await loadStore();
+
+    expect(store.get('owner/broken')).toBeNull();
+    expect(store.getInvalid('owner/broken')).toMatchObject({ manifest: broken });
+    expect(store.getInvalid('owner/broken')!.errors.length).toBeGreaterThan(0);
+    expect(store.get('owner/fine')).toEqual({ start: 'node .' });
+
+    // Saving another project leaves the broken one on disk
+    store.set('owner/other', { dev: 'vite' });
+    expect(JSON.parse(fs.readFileSync(storeFile(), 'utf-8'))['owner/broken']).toEqual(broken);
+  });
+
+  it('replaces an invalid stored manifest once a valid one is saved', async () => {
+    fs.writeFileSync(storeFile(), JSON.stringify({ 'owner/repo': { unknownKey: true } }));
+    const store = await loadStore();
+
+    expect(store.set('owner/repo', { dev: 'npm run dev' })).toEqual([]);
+
+    expect(store.getInvalid('owner/repo')).toBeNull();
+    expect((await loadStore()).get('owner/repo')).toEqual({ dev: 'npm run dev' });
+  });
+});
@@ -0,0 +1,95 @@
+import { app } from 'electron';
+import path from 'path';
+import fs from 'fs';
+import { ProjectManifest, validateManifest } from './project-manifest.js';
+
+/**
+ * Manifests kept in the app's config rather than in a repository, for
+ * projects whose repository we can't or don't want to change. Keyed by
+ * project key (see AccountManager.getProjectKey).
+ */
+
+// A stored manifest that no longer matches the schema, e.g. edited by hand or
+// saved by an older version. It is kept so it can be fixed, but not used.
+export interface InvalidManifest {
+  manifest: unknown;
+  errors: string[];
+}
+
+class ManifestStore {
+  private storePath: string;
+  private manifests: Record<string, ProjectManifest> = {};
+  private invalid: Record<string, InvalidManifest> = {};
+
+  constructor() {
+    this.storePath = path.join(app.getPath('userData'), 'project-manifests.json');
+    this.load();
+  }
+
+  private load(): void {
+    let stored: Record<string, unknown> = {};
+    try {
+      if (fs.existsSync(this.storePath)) {
+        stored = JSON.parse(fs.readFileSync(this.storePath, 'utf-8'));
+      }
+    } catch (error) {
+      console.warn('Invalid project manifests file, ignoring it:', error);
+    }
+
+    for (const [projectKey, manifest] of Object.entries(stored || {})) {
+      const errors = validateManifest(manifest);
+      if (errors.length > 0) {
+        console.warn(`Ignoring the saved manifest of ${projectKey}:`, errors);
+        this.invalid[projectKey] = { manifest, errors };
+      } else {
+        this.manifests[projectKey] = manifest as ProjectManifest;
+      }
+    }
+  }
+
+  private save(): void {
+    const stored = {
+      ...Object.fromEntries(Object.entries(this.invalid).map(([key, { manifest }]) => [key, manifest])),
+      ...this.manifests,
+    };
+    try {
+      fs.writeFileSync(this.storePath, JSON.stringify(stored, null, 2), 'utf-8');
+    } catch (error) {
+      console.error('Failed to save project manifests:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A project's manifest, if it has a valid one
+   */
+  get(projectKey: string): ProjectManifest | null {
+    return this.manifests[projectKey] || null;
+  }
+
+  getInvalid(projectKey: string): InvalidManifest | null {
+    return this.invalid[projectKey] || null;
+  }
+
+  /**
+   * Save a project's manifest, or remove it when null. Returns the
+   * validation errors, and saves nothing, when it doesn't match the schema.
+   */
+  set(projectKey: string, manifest: ProjectManifest | null): string[] {
+    if (manifest !== null) {
+      const errors = validateManifest(manifest);
+      if (errors.length > 0) return errors;
+    }
+
+    delete this.invalid[projectKey];
+    if (manifest === null) {
+      delete this.manifests[projectKey];
+    } else {
+      this.manifests[projectKey] = manifest;
+    }
+    this.save();
+    return [];
+  }
+}
+
+export const manifestStore = new ManifestStore();
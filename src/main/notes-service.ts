@@ -1,7 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { app } from 'electron';
-import { githubService } from './github-service.js';
+import { githubService, parseFullName } from './github-service.js';
+import { isRateLimitError } from './github-rate-limit.js';
 
 export interface ProjectNote {
   id: string;
@@ -97,8 +98,9 @@ class NotesService {
     candidates.add(repoName.replace(/-/g, '_'));
     candidates.add(repoName.toLowerCase().replace(/-/g, '_'));
 
-    // if repoName contains slash (owner/repo), add repo part and owner_repo
-    if (repoName.includes('/')) {
+    // if repoName is owner/repo, add repo part and owner_repo. Host-prefixed
+    // keys (host/owner/repo) are newer than these legacy names.
+    if (repoName.split('/').length === 2) {
       const parts = repoName.split('/');
       const owner = parts[0];
       const repo = parts[parts.length - 1];
@@ -195,26 +197,28 @@ class NotesService {
   }
 
   // Fetch notes file from GitHub repository. Tries several filenames and returns parsed notes.
-  async fetchNotesFromRepoName(repoName: string): Promise<ProjectNotes> {
+  // storageKey is where the local copy is saved; it includes the host for
+  // repositories on GitHub Enterprise accounts
+  async fetchNotesFromRepoName(repoName: string, storageKey?: string): Promise<ProjectNotes> {
     try {
       // Support passing either "repoName" or "owner/repo" (full_name)
-      if (repoName.includes('/')) {
-        const parts = repoName.split('/');
-        const owner = parts[0];
-        const repo = parts.slice(1).join('/');
-        return await this.fetchNotesFromRepo(owner, repo);
+      const parsed = parseFullName(repoName);
+      if (parsed) {
+        return await this.fetchNotesFromRepo(parsed.owner, parsed.repo, storageKey);
       }
 
       const user = await githubService.getCurrentUser();
       const owner = user.login;
-      return await this.fetchNotesFromRepo(owner, repoName);
+      return await this.fetchNotesFromRepo(owner, repoName, storageKey);
     } catch (error) {
+      if (isRateLimitError(error)) throw error;
       console.error('Failed to determine owner for repo notes lookup:', error);
       return { repoName, notes: [] };
     }
   }
 
-  async fetchNotesFromRepo(owner: string, repo: string): Promise<ProjectNotes> {
+  async fetchNotesFromRepo(owner: string, repo: string, storageKey?: string): Promise<ProjectNotes> {
+    const fullName = `${owner}/${repo}`;
     const possiblePaths = [
       'notes.txt',
       'Notes.txt',
@@ -235,13 +239,13 @@ class NotesService {
           console.info(`Found notes file in ${owner}/${repo}/${p} (len=${content.length})`);
           // Return the whole file as raw content (do not parse or create note items)
           const projectNotes: ProjectNotes = { 
-            repoName: repo, 
+            repoName: fullName, 
             notes: [], 
             rawContent: content, 
             rawPath: p 
           };
           // Save a local copy with rawContent for offline use
-          const filePath = this.getNotesFilePath(repo);
+          const filePath = this.getNotesFilePath(storageKey || fullName);
           try {
             this.ensureNotesDir();
             fs.writeFileSync(filePath, JSON.stringify(projectNotes, null, 2), 'utf-8');
@@ -252,13 +256,15 @@ class NotesService {
           return projectNotes;
         }
       } catch (err) {
+        // An exhausted quota would fail every remaining path too
+        if (isRateLimitError(err)) throw err;
         // continue trying other paths
         continue;
       }
     }
 
     // If not found, return empty
-    return { repoName: repo, notes: [] };
+    return { repoName: fullName, notes: [] };
   }
 
   // Simple parser: split sections by DONE / MISSING headers and collect list items
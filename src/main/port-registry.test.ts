@@ -0,0 +1,124 @@
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+let userData = '';
+
+vi.mock('electron', () => ({ app: { getPath: () => userData } }));
+
+// A fresh registry that loads whatever is on disk now
+async function loadRegistry() {
+  vi.resetModules();
+  return import('./port-registry');
+}
+
+const servers: net.Server[] = [];
+
+// Hold a port the way another program would
+function listen(port: number, host: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    servers.push(server);
+    server.once('error', reject);
+    server.listen(port, host, () => resolve((server.address() as net.AddressInfo).port));
+  });
+}
+
+// A port nothing listens on, as far as the system knows now
+async function freePort(): Promise<number> {
+  const port = await listen(0, '::');
+  await new Promise((resolve) => servers.pop()!.close(resolve));
+  return port;
+}
+
+describe('PortRegistry', () => {
+  beforeEach(() => {
+    userData = fs.mkdtempSync(path.join(os.tmpdir(), 'port-registry-'));
+  });
+
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve))));
+    fs.rmSync(userData, { recursive: true, force: true });
+  });
+
+  it('sees a port held over IPv4 or IPv6 as taken', async () => {
+    const { portRegistry } = await loadRegistry();
+    const ipv4 = await listen(0, '127.0.0.1');
+    const ipv6 = await listen(0, '::1');
+
+    expect(await portRegistry.isFree(ipv4)).toBe(false);
+    expect(await portRegistry.isFree(ipv6)).toBe(false);
+    expect(await portRegistry.isFree(await freePort())).toBe(true);
+  });
+
+  it('keeps a project on the port it was given, across sessions', async () => {
+    const port = await freePort();
+    const { portRegistry } = await loadRegistry();
+
+    expect(await portRegistry.allocate('owner/web', port, 'next-free')).toBe(port);
+    expect(await portRegistry.allocate('owner/api', port, 'next-free')).not.toBe(port);
+
+    const reloaded = (await loadRegistry()).portRegistry;
+    expect(await reloaded.allocate('owner/web', port, 'next-free')).toBe(port);
+  });
+
+  it('hands out different ports to projects allocating at the same time', async () => {
+    const port = await freePort();
+    const { portRegistry } = await loadRegistry();
+
+    const ports = await Promise.all(
+      ['a', 'b', 'c'].map((key) => portRegistry.allocate(`owner/${key}`, port, 'next-free'))
+    );
+
+    expect(ports[0]).toBe(port);
+    expect(new Set(ports).size).toBe(3);
+    expect(portRegistry.list().map((r) => r.port).sort()).toEqual([...ports].sort());
+  });
+
+  it('takes the next free port when the one asked for is held', async () => {
+    const { portRegistry } = await loadRegistry();
+    const held = await listen(0, '::1');
+
+    const port = await portRegistry.allocate('owner/web', held, 'next-free');
+
+    expect(port).toBeGreaterThan(held);
+    expect(portRegistry.list()).toEqual([{ key: 'owner/web', port, requested: held }]);
+  });
+
+  it('throws a PortConflictError for a held port in error mode', async () => {
+    const { portRegistry, isPortConflictError } = await loadRegistry();
+    const held = await listen(0, '127.0.0.1');
+
+    const error = await portRegistry.allocate('owner/web', held, 'error').catch((e) => e);
+
+    expect(isPortConflictError(error)).toBe(true);
+    expect(error).toMatchObject({ code: 'PORT_CONFLICT', port: held });
+    expect(portRegistry.list()).toEqual([]);
+    // A failed allocation doesn't hold up the next one
+    expect(await portRegistry.allocate('owner/api', await freePort(), 'error')).toBeGreaterThan(0);
+  });
+
+  it('gives a port to one project only', async () => {
+    const [first, second] = [await freePort(), await freePort()];
+    const { portRegistry } = await loadRegistry();
+    await portRegistry.allocate('owner/web', first, 'next-free');
+    await portRegistry.allocate('owner/api', second, 'next-free');
+
+    portRegistry['reserve']('owner/api', first, first);
+
+    expect(portRegistry.list()).toEqual([{ key: 'owner/api', port: first, requested: first }]);
+  });
+
+  it('moves a project to the port it now asks for', async () => {
+    const [first, second] = [await freePort(), await freePort()];
+    const { portRegistry } = await loadRegistry();
+    await portRegistry.allocate('owner/web', first, 'next-free');
+
+    expect(await portRegistry.allocate('owner/web', second, 'next-free')).toBe(second);
+
+    expect(portRegistry.list()).toEqual([{ key: 'owner/web', port: second, requested: second }]);
+    expect(await portRegistry.allocate('owner/api', first, 'error')).toBe(first);
+  });
+});
@@ -0,0 +1,349 @@
+import { app } from 'electron';
+import { execFile, spawn } from 'child_process';
+import net from 'net';
+import path from 'path';
+import fs from 'fs';
+import fsp from 'fs/promises';
+
+/**
+ * Which project uses which port. Each project (or workspace service) keeps
+ * the port it was first given, so its address stays the same across
+ * restarts and launches and no other project is handed it. Busy ports can
+ * be traced to the process holding them, whoever started it.
+ */
+
+export interface PortReservation {
+  // Project name, with the workspace service for monorepos (see reservationKey)
+  key: string;
+  port: number;
+  // Port the project asked for; asking for another one moves the reservation
+  requested: number;
+}
+
+export interface PortOwner {
+  port: number;
+  pid: number;
+  // Process group, to tell which project's tree it belongs to
+  pgid?: number;
+  command?: string;
+  // Set when it is a process started here
+  processId?: string;
+  projectName?: string;
+  target?: string;
+}
+
+// What to do when a project's port is held by something else: fail so the
+// user can choose, or move on to the next free port
+export type PortConflictMode = 'error' | 'next-free';
+
+/**
+ * Thrown when the port a project needs is in use. Carries who holds it, so
+ * the UI can offer to stop that process or pick another port.
+ */
+export class PortConflictError extends Error {
+  readonly code = 'PORT_CONFLICT';
+
+  constructor(public readonly port: number, public readonly owner: PortOwner | null) {
+    super(
+      owner
+        ? `Port ${port} is in use by ${owner.projectName || owner.command || 'another process'} (pid ${owner.pid})`
+        : `Port ${port} is in use`
+    );
+    this.name = 'PortConflictError';
+  }
+}
+
+export function isPortConflictError(error: unknown): error is PortConflictError {
+  return error instanceof PortConflictError;
+}
+
+export const reservationKey = (projectName: string, target?: string) =>
+  target ? `${projectName}#${target}` : projectName;
+
+// Ports tried after the preferred one before giving up
+const PORT_SEARCH_RANGE = 100;
+const EXIT_POLL_INTERVAL_MS = 100;
+const KILL_TIMEOUT_MS = 2000;
+
+const isWindows = process.platform === 'win32';
+
+const run = (file: string, args: string[]) =>
+  new Promise<string>((resolve) => {
+    execFile(file, args, { maxBuffer: 8 * 1024 * 1024, windowsHide: true }, (_error, stdout) => resolve(stdout || ''));
+  });
+
+// Ports in LISTEN state by socket inode, from /proc/net/tcp{,6}
+export async function listeningSockets(): Promise<Map<string, number>> {
+  const sockets = new Map<string, number>();
+  for (const file of ['/proc/net/tcp', '/proc/net/tcp6']) {
+    const content = await fsp.readFile(file, 'utf-8').catch(() => '');
+    for (const line of content.split('\n').slice(1)) {
+      const fields = line.trim().split(/\s+/);
+      // local_address is ADDR:PORT in hex, st 0A is LISTEN, inode is the 10th field
+      if (fields.length < 10 || fields[3] !== '0A') continue;
+      sockets.set(fields[9], parseInt(fields[1].split(':')[1], 16));
+    }
+  }
+  return sockets;
+}
+
+// Linux: match the sockets listening on the ports to the processes holding them
+async function procPortOwners(ports: number[]): Promise<Map<number, PortOwner>> {
+  const inodes = new Map<string, number>();
+  for (const [inode, port] of await listeningSockets()) {
+    if (ports.includes(port)) inodes.set(inode, port);
+  }
+
+  const owners = new Map<number, PortOwner>();
+  if (inodes.size === 0) return owners;
+  for (const name of await fsp.readdir('/proc')) {
+    if (!/^\d+$/.test(name)) continue;
+    const fds = await fsp.readdir(`/proc/${name}/fd`).catch(() => [] as string[]);
+    for (const fd of fds) {
+      const link = await fsp.readlink(`/proc/${name}/fd/${fd}`).catch(() => '');
+      const port = inodes.get(link.match(/^socket:\[(\d+)\]$/)?.[1] || '');
+      if (!port || owners.has(port)) continue;
+
+      const stat = await fsp.readFile(`/proc/${name}/stat`, 'utf-8').catch(() => '');
+      const cmdline = await fsp.readFile(`/proc/${name}/cmdline`, 'utf-8').catch(() => '');
+      owners.set(port, {
+        port,
+        pid: Number(name),
+        // The command name is in parentheses and may contain spaces
+        pgid: Number(stat.slice(stat.lastIndexOf(')') + 2).split(' ')[2]) || undefined,
+        command: cmdline.split('\0').join(' ').trim() || undefined,
+      });
+    }
+  }
+  return owners;
+}
+
+// macOS and other BSDs: lsof, then ps for the process group
+async function lsofPortOwners(ports: number[]): Promise<Map<number, PortOwner>> {
+  const owners = new Map<number, PortOwner>();
+  // -F pcn prints "p<pid>", "c<command>", then "n<address>" for each listening socket
+  let pid = 0;
+  let command = '';
+  const args = ['-nP', '-sTCP:LISTEN', ...ports.map((port) => `-iTCP:${port}`), '-Fpcn'];
+  for (const line of (await run('lsof', args)).split('\n')) {
+    if (line.startsWith('p')) pid = Number(line.slice(1));
+    if (line.startsWith('c')) command = line.slice(1);
+    const port = line.startsWith('n') ? Number(line.slice(line.lastIndexOf(':') + 1)) : 0;
+    if (port && ports.includes(port) && !owners.has(port)) {
+      owners.set(port, { port, pid, command });
+    }
+  }
+  for (const owner of owners.values()) {
+    owner.pgid = Number((await run('ps', ['-o', 'pgid=', '-p', String(owner.pid)])).trim()) || undefined;
+  }
+  return owners;
+}
+
+// Windows: netstat for the pid, tasklist for its image name
+async function netstatPortOwners(ports: number[]): Promise<Map<number, PortOwner>> {
+  const owners = new Map<number, PortOwner>();
+  for (const line of (await run('netstat', ['-ano', '-p', 'TCP'])).split('\n')) {
+    const fields = line.trim().split(/\s+/);
+    if (fields[0] !== 'TCP' || fields[3] !== 'LISTENING') continue;
+    const port = Number(fields[1].slice(fields[1].lastIndexOf(':') + 1));
+    if (ports.includes(port) && !owners.has(port)) {
+      owners.set(port, { port, pid: Number(fields[4]) });
+    }
+  }
+  for (const owner of owners.values()) {
+    const row = await run('tasklist', ['/FI', `PID eq ${owner.pid}`, '/FO', 'CSV', '/NH']);
+    owner.command = row.match(/^"([^"]+)"/)?.[1];
+  }
+  return owners;
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // Running, but as another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+// Throws when the process belongs to another user; one already gone is fine
+function signal(pid: number, name: 'SIGTERM' | 'SIGKILL'): void {
+  try {
+    process.kill(pid, name);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ESRCH') throw error;
+  }
+}
+
+async function waitForExit(pid: number, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (isAlive(pid)) {
+    if (Date.now() >= deadline) return false;
+    await new Promise((resolve) => setTimeout(resolve, EXIT_POLL_INTERVAL_MS));
+  }
+  return true;
+}
+
+// A host without the address (IPv6 turned off) has nothing listening there
+function canListen(port: number, host: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const server = net.createServer();
+
+    server.once('error', (err: NodeJS.ErrnoException) => {
+      resolve(err.code !== 'EADDRINUSE');
+    });
+
+    server.once('listening', () => {
+      server.close(() => resolve(true));
+    });
+
+    server.listen(port, host);
+  });
+}
+
+class PortRegistry {
+  private storePath: string;
+  private reservations: PortReservation[];
+  // Allocations run one at a time, so two launches can't both take a port
+  // that looked free to each of them
+  private allocating: Promise<unknown> = Promise.resolve();
+
+  constructor() {
+    this.storePath = path.join(app.getPath('userData'), 'port-registry.json');
+    this.reservations = this.load();
+  }
+
+  private load(): PortReservation[] {
+    try {
+      if (fs.existsSync(this.storePath)) {
+        const saved = JSON.parse(fs.readFileSync(this.storePath, 'utf-8'));
+        return Array.isArray(saved.reservations) ? saved.reservations : [];
+      }
+    } catch (error) {
+      console.error('Failed to load port registry:', error);
+    }
+    return [];
+  }
+
+  private save(): void {
+    try {
+      fs.writeFileSync(this.storePath, JSON.stringify({ reservations: this.reservations }, null, 2), 'utf-8');
+    } catch (error) {
+      console.error('Failed to save port registry:', error);
+    }
+  }
+
+  list(): PortReservation[] {
+    return this.reservations.map((r) => ({ ...r })).sort((a, b) => a.port - b.port);
+  }
+
+  /**
+   * Forget a project's port, so it can be handed to others
+   */
+  release(key: string): boolean {
+    const count = this.reservations.length;
+    this.reservations = this.reservations.filter((r) => r.key !== key);
+    if (this.reservations.length === count) return false;
+    this.save();
+    return true;
+  }
+
+  /**
+   * The port for a project to run on: the one reserved for it, unless it now
+   * asks for a different one. Ports reserved for other projects are skipped.
+   * When the port is held by a process, 'error' throws a PortConflictError
+   * and 'next-free' takes the next free port and reserves that instead.
+   */
+  allocate(key: string, requested: number, mode: PortConflictMode): Promise<number> {
+    const allocation = this.allocating.then(() => this.allocateNow(key, requested, mode));
+    this.allocating = allocation.catch(() => undefined);
+    return allocation;
+  }
+
+  private async allocateNow(key: string, requested: number, mode: PortConflictMode): Promise<number> {
+    const reservation = this.reservations.find((r) => r.key === key);
+    const preferred = reservation && reservation.requested === requested ? reservation.port : requested;
+    // Checked again after each await, as reservations can be released meanwhile
+    const reservedByOthers = (port: number) => this.reservations.some((r) => r.key !== key && r.port === port);
+
+    let start = preferred;
+    if (!reservedByOthers(preferred)) {
+      if ((await this.isFree(preferred)) && !reservedByOthers(preferred)) {
+        this.reserve(key, preferred, requested);
+        return preferred;
+      }
+      if (mode === 'error') {
+        throw new PortConflictError(preferred, await this.findOwner(preferred));
+      }
+      start = preferred + 1;
+    }
+
+    for (let port = start; port <= Math.min(preferred + PORT_SEARCH_RANGE, 65535); port++) {
+      if (!reservedByOthers(port) && (await this.isFree(port)) && !reservedByOthers(port)) {
+        console.log(`Port ${preferred} is not available for ${key}, using ${port}`);
+        this.reserve(key, port, requested);
+        return port;
+      }
+    }
+    throw new Error(`No free port between ${preferred} and ${preferred + PORT_SEARCH_RANGE}`);
+  }
+
+  // A project has one port and a port one project; any other claim on it goes
+  private reserve(key: string, port: number, requested: number): void {
+    const existing = this.reservations.find((r) => r.key === key);
+    if (existing?.port === port && existing.requested === requested) return;
+    this.reservations = [...this.reservations.filter((r) => r.key !== key && r.port !== port), { key, port, requested }];
+    this.save();
+  }
+
+  /**
+   * Whether nothing listens on the port, over IPv4 or IPv6: dev servers bound
+   * to "localhost" often take only ::1
+   */
+  async isFree(port: number): Promise<boolean> {
+    // One after the other, as our own IPv4 probe would hold the port for a
+    // dual-stack ::
+    for (const host of ['127.0.0.1', '::']) {
+      if (!(await canListen(port, host))) return false;
+    }
+    return true;
+  }
+
+  /**
+   * The processes listening on some ports, by port; free ports are left out
+   */
+  findOwners(ports: number[]): Promise<Map<number, PortOwner>> {
+    if (ports.length === 0) return Promise.resolve(new Map());
+    if (process.platform === 'linux') return procPortOwners(ports);
+    if (isWindows) return netstatPortOwners(ports);
+    return lsofPortOwners(ports);
+  }
+
+  async findOwner(port: number): Promise<PortOwner | null> {
+    return (await this.findOwners([port])).get(port) || null;
+  }
+
+  /**
+   * Stop a process that was not started here: SIGTERM, then SIGKILL after
+   * the grace period. Resolves once it is gone.
+   */
+  async terminate(pid: number, gracePeriodMs: number): Promise<void> {
+    if (isWindows) {
+      await new Promise<void>((resolve) => {
+        spawn('taskkill', ['/PID', String(pid), '/T', '/F'], { windowsHide: true })
+          .on('error', () => resolve())
+          .on('exit', () => resolve());
+      });
+      return;
+    }
+
+    signal(pid, 'SIGTERM');
+    if (!(await waitForExit(pid, gracePeriodMs))) {
+      signal(pid, 'SIGKILL');
+      await waitForExit(pid, KILL_TIMEOUT_MS);
+    }
+  }
+}
+
+export const portRegistry = new PortRegistry();
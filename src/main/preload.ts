@@ -4,20 +4,72 @@ const api = {
   // GitHub APIs
   github: {
     validateToken: () => ipcRenderer.invoke('github:validateToken'),
+    getTokenInfo: () => ipcRenderer.invoke('github:getTokenInfo'),
+    setToken: (token: string) => ipcRenderer.invoke('github:setToken', token),
+    clearToken: () => ipcRenderer.invoke('github:clearToken'),
+    startDeviceFlow: () => ipcRenderer.invoke('github:startDeviceFlow'),
+    cancelDeviceFlow: () => ipcRenderer.invoke('github:cancelDeviceFlow'),
+    onDeviceFlowCompleted: (callback: (data: any) => void) => {
+      const handler = (_event: any, data: any) => callback(data);
+      ipcRenderer.on('github:deviceFlowCompleted', handler);
+      return () => ipcRenderer.removeListener('github:deviceFlowCompleted', handler);
+    },
+    listAccounts: () => ipcRenderer.invoke('github:listAccounts'),
+    addAccount: (host: string, token: string, apiBaseUrl?: string) =>
+      ipcRenderer.invoke('github:addAccount', host, token, apiBaseUrl),
+    removeAccount: (accountId: string) => ipcRenderer.invoke('github:removeAccount', accountId),
+    setActiveAccount: (accountId: string) => ipcRenderer.invoke('github:setActiveAccount', accountId),
+    getRateLimit: () => ipcRenderer.invoke('github:getRateLimit'),
+    onRateLimitUpdated: (callback: (data: any) => void) => {
+      const handler = (_event: any, data: any) => callback(data);
+      ipcRenderer.on('github:rateLimitUpdated', handler);
+      return () => ipcRenderer.removeListener('github:rateLimitUpdated', handler);
+    },
     getCurrentUser: () => ipcRenderer.invoke('github:getCurrentUser'),
-    getAllRepositories: () => ipcRenderer.invoke('github:getAllRepositories'),
-    getRepository: (repoName: string) => ipcRenderer.invoke('github:getRepository', repoName),
+    getAllRepositories: (affiliation?: string) => ipcRenderer.invoke('github:getAllRepositories', affiliation),
+    getOrganizations: () => ipcRenderer.invoke('github:getOrganizations'),
+    getOrganizationRepositories: (org: string) =>
+      ipcRenderer.invoke('github:getOrganizationRepositories', org),
+    getRepository: (fullName: string) => ipcRenderer.invoke('github:getRepository', fullName),
+    listIssues: (fullName: string) => ipcRenderer.invoke('github:listIssues', fullName),
+    listPullRequests: (fullName: string) => ipcRenderer.invoke('github:listPullRequests', fullName),
+    getRepositoryTemplates: () => ipcRenderer.invoke('github:getRepositoryTemplates'),
+    createRepository: (options: any) => ipcRenderer.invoke('github:createRepository', options),
+    forkRepository: (fullName: string, org?: string) =>
+      ipcRenderer.invoke('github:forkRepository', fullName, org),
+    onRepositoriesUpdated: (callback: (data: any) => void) => {
+      const handler = (_event: any, data: any) => callback(data);
+      ipcRenderer.on('github:repositoriesUpdated', handler);
+      return () => ipcRenderer.removeListener('github:repositoriesUpdated', handler);
+    },
+  },
+
+  // GitHub Actions
+  actions: {
+    listRuns: (fullName: string) => ipcRenderer.invoke('actions:listRuns', fullName),
+    getStatuses: (fullNames: string[]) => ipcRenderer.invoke('actions:getStatuses', fullNames),
+    listJobs: (fullName: string, runId: number) => ipcRenderer.invoke('actions:listJobs', fullName, runId),
+    getJobLogs: (fullName: string, jobId: number) => ipcRenderer.invoke('actions:getJobLogs', fullName, jobId),
+    rerun: (fullName: string, runId: number) => ipcRenderer.invoke('actions:rerun', fullName, runId),
+    cancel: (fullName: string, runId: number) => ipcRenderer.invoke('actions:cancel', fullName, runId),
   },
 
   // Project Detection & Installation
   project: {
     detectType: (repo: any) => ipcRenderer.invoke('project:detectType', repo),
-    install: (repoUrl: string, repoName: string) => 
-      ipcRenderer.invoke('project:install', repoUrl, repoName),
-    isInstalled: (repoName: string) => 
-      ipcRenderer.invoke('project:isInstalled', repoName),
-    getConfig: (projectPath: string) => 
-      ipcRenderer.invoke('project:getConfig', projectPath),
+    install: (repoUrl: string, fullName: string) => 
+      ipcRenderer.invoke('project:install', repoUrl, fullName),
+    isInstalled: (fullName: string) => 
+      ipcRenderer.invoke('project:isInstalled', fullName),
+    batchCheck: (fullNames: string[]) => 
+      ipcRenderer.invoke('project:batchCheck', fullNames),
+    getConfig: (projectPath: string, repoName?: string) => 
+      ipcRenderer.invoke('project:getConfig', projectPath, repoName),
+    runSteps: (projectPath: string, steps: string[], env?: Record<string, string>) =>
+      ipcRenderer.invoke('project:runSteps', projectPath, steps, env),
+    getManifest: (repoName: string) => ipcRenderer.invoke('project:getManifest', repoName),
+    saveManifest: (repoName: string, manifest: any) =>
+      ipcRenderer.invoke('project:saveManifest', repoName, manifest),
     getBaseDir: () => ipcRenderer.invoke('project:getBaseDir'),
     setBaseDir: (newBaseDir: string) => ipcRenderer.invoke('project:setBaseDir', newBaseDir),
     linkExisting: (localPath: string, repoUrl: string, repoName: string) => 
@@ -48,6 +100,8 @@ const api = {
       ipcRenderer.invoke('git:fetchAndCheckRemoteChanges', repoName),
     pull: (repoName: string) => 
       ipcRenderer.invoke('git:pull', repoName),
+    checkoutPullRequest: (repoName: string, number: number) =>
+      ipcRenderer.invoke('git:checkoutPullRequest', repoName, number),
     onCloneProgress: (callback: (data: any) => void) => {
       ipcRenderer.on('git:cloneProgress', (_event, data) => callback(data));
     },
@@ -69,15 +123,126 @@ const api = {
 
   // Process Management
   process: {
-    start: (projectName: string, command: string, cwd: string, port: number, type: string) =>
-      ipcRenderer.invoke('process:start', projectName, command, cwd, port, type),
+    start: (
+      projectName: string,
+      command: string,
+      cwd: string,
+      port: number,
+      type: string,
+      options?: {
+        target?: string;
+        env?: Record<string, string>;
+        restart?: { mode: 'never' | 'on-failure' | 'always'; maxRetries: number; backoffMs?: number };
+        readiness?: { type: 'tcp' | 'http' | 'output' | 'none'; path?: string; pattern?: string };
+        profileId?: string;
+        priority?: number;
+        portConflict?: 'error' | 'next-free';
+      }
+    ) => ipcRenderer.invoke('process:start', projectName, command, cwd, port, type, options),
     stop: (processId: string) => ipcRenderer.invoke('process:stop', processId),
+    restart: (processId: string) => ipcRenderer.invoke('process:restart', processId),
     getAll: () => ipcRenderer.invoke('process:getAll'),
     get: (processId: string) => ipcRenderer.invoke('process:get', processId),
     stopAll: () => ipcRenderer.invoke('process:stopAll'),
+    getQueue: () => ipcRenderer.invoke('process:getQueue'),
+    setPriority: (processId: string, priority: number) => ipcRenderer.invoke('process:setPriority', processId, priority),
+    write: (processId: string, data: string) => ipcRenderer.invoke('process:write', processId, data),
+    resize: (processId: string, cols: number, rows: number) => ipcRenderer.invoke('process:resize', processId, cols, rows),
     onOutput: (callback: (data: any) => void) => {
-      ipcRenderer.on('process:output', (_event, data) => callback(data));
+      const handler = (_event: any, data: any) => callback(data);
+      ipcRenderer.on('process:output', handler);
+      return () => ipcRenderer.removeListener('process:output', handler);
     },
+    onPortDetected: (callback: (data: { processId: string; port: number }) => void) => {
+      const handler = (_event: any, data: any) => callback(data);
+      ipcRenderer.on('process:port', handler);
+      return () => ipcRenderer.removeListener('process:port', handler);
+    },
+    onStatusChanged: (callback: (data: { id: string; status: string }) => void) => {
+      const handler = (_event: any, data: any) => callback(data);
+      ipcRenderer.on('process:status', handler);
+      return () => ipcRenderer.removeListener('process:status', handler);
+    },
+    onExit: (
+      callback: (data: { id: string; code: number | null; signal: string | null; reason: 'exited' | 'crashed' | 'stopped' | 'killed' }) => void
+    ) => {
+      const handler = (_event: any, data: any) => callback(data);
+      ipcRenderer.on('process:exit', handler);
+      return () => ipcRenderer.removeListener('process:exit', handler);
+    },
+    onRestarting: (callback: (data: { id: string; attempt: number; delayMs: number; code: number | null }) => void) => {
+      const handler = (_event: any, data: any) => callback(data);
+      ipcRenderer.on('process:restarting', handler);
+      return () => ipcRenderer.removeListener('process:restarting', handler);
+    },
+    onCrashLoop: (callback: (data: { id: string; projectName: string; target?: string; restarts: number }) => void) => {
+      const handler = (_event: any, data: any) => callback(data);
+      ipcRenderer.on('process:crashLoop', handler);
+      return () => ipcRenderer.removeListener('process:crashLoop', handler);
+    },
+    onQueueChanged: (callback: (queue: { id: string; projectName: string; target?: string; priority: number; position: number }[]) => void) => {
+      const handler = (_event: any, queue: any) => callback(queue);
+      ipcRenderer.on('process:queue', handler);
+      return () => ipcRenderer.removeListener('process:queue', handler);
+    },
+  },
+
+  // Launch groups: a project's services started in dependency order
+  services: {
+    launch: (repoName: string, projectPath: string, names?: string[]) =>
+      ipcRenderer.invoke('services:launch', repoName, projectPath, names),
+    stop: (groupId: string) => ipcRenderer.invoke('services:stop', groupId),
+    getAll: () => ipcRenderer.invoke('services:getAll'),
+    onUpdate: (callback: (group: any) => void) => {
+      const handler = (_event: any, group: any) => callback(group);
+      ipcRenderer.on('services:update', handler);
+      return () => ipcRenderer.removeListener('services:update', handler);
+    },
+  },
+
+  // Run Profiles
+  profiles: {
+    list: (repoName: string, projectPath: string) => ipcRenderer.invoke('profiles:list', repoName, projectPath),
+    save: (repoName: string, profiles: any[]) => ipcRenderer.invoke('profiles:save', repoName, profiles),
+    select: (repoName: string, profileId: string) => ipcRenderer.invoke('profiles:select', repoName, profileId),
+  },
+
+  // Process Logs: every run's output, kept on disk per project
+  logs: {
+    listRuns: (repoName: string) => ipcRenderer.invoke('logs:listRuns', repoName),
+    read: (repoName: string, runId: string, start: number, count: number) =>
+      ipcRenderer.invoke('logs:read', repoName, runId, start, count),
+    search: (repoName: string, runId: string, query: string, options?: { regex?: boolean; caseSensitive?: boolean; limit?: number }) =>
+      ipcRenderer.invoke('logs:search', repoName, runId, query, options),
+  },
+
+  // Process Metrics: CPU, memory and ports of running processes, sampled every few seconds
+  metrics: {
+    getHistory: () => ipcRenderer.invoke('metrics:getHistory'),
+    onSample: (callback: (samples: any[]) => void) => {
+      const handler = (_event: any, samples: any[]) => callback(samples);
+      ipcRenderer.on('metrics:sample', handler);
+      return () => ipcRenderer.removeListener('metrics:sample', handler);
+    },
+    onMemoryAlert: (callback: (alert: any) => void) => {
+      const handler = (_event: any, alert: any) => callback(alert);
+      ipcRenderer.on('metrics:memoryAlert', handler);
+      return () => ipcRenderer.removeListener('metrics:memoryAlert', handler);
+    },
+  },
+
+  // Port Registry: stable ports per project, and who holds a busy port
+  ports: {
+    list: () => ipcRenderer.invoke('ports:list'),
+    owner: (port: number) => ipcRenderer.invoke('ports:owner', port),
+    killOwner: (port: number) => ipcRenderer.invoke('ports:killOwner', port),
+    release: (key: string) => ipcRenderer.invoke('ports:release', key),
+  },
+
+  // Settings, kept in the main process
+  settings: {
+    get: () => ipcRenderer.invoke('settings:get'),
+    set: (changes: Record<string, unknown>) => ipcRenderer.invoke('settings:set', changes),
   },
 
   // Notes Management
@@ -0,0 +1,116 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+let userData = '';
+
+vi.mock('electron', () => ({ app: { getPath: () => userData } }));
+vi.mock('./process-manager', () => ({ processManager: new EventEmitter() }));
+
+let processManager: EventEmitter;
+let processLogs: typeof import('./process-logs').processLogs;
+let nextId = 0;
+
+// A process that runs while `body` emits its output, then exits
+async function run(projectName: string, body: (output: (text: string) => void) => void) {
+  const id = `process-${++nextId}`;
+  processManager.emit('processStarted', { id, projectName, command: 'npm run dev', startTime: new Date() });
+  body((text) => processManager.emit('output', { processId: id, stream: 'stdout', text }));
+  processManager.emit('processExit', { id, code: 0, signal: null, reason: 'exited' });
+
+  const runId = processLogs.listRuns(projectName).find((r) => r.runId.endsWith(`-${id}`))!.runId;
+  // The stream is flushed once the exit line is on disk
+  await vi.waitFor(async () => {
+    const { lines } = await processLogs.readLines(projectName, runId, -1, 1);
+    expect(lines[0]?.text).toMatch(/Process exited/);
+  });
+  return runId;
+}
+
+// Log lines without their timestamp
+const texts = (lines: { text: string }[]) => lines.map((l) => l.text.replace(/^\S+ /, ''));
+
+describe('ProcessLogs', () => {
+  beforeEach(async () => {
+    userData = fs.mkdtempSync(path.join(os.tmpdir(), 'process-logs-'));
+    vi.resetModules();
+    processManager = (await import('./process-manager')).processManager as unknown as EventEmitter;
+    processLogs = (await import('./process-logs')).processLogs;
+  });
+
+  afterEach(() => {
+    // The mocked manager outlives each ProcessLogs loaded from it
+    processManager.removeAllListeners();
+    fs.rmSync(userData, { recursive: true, force: true });
+  });
+
+  it('keeps projects apart whose names sanitize the same', async () => {
+    await run('owner/repo', (output) => output('a\n'));
+    await run('owner_repo', (output) => output('b\n'));
+
+    expect(processLogs.listRuns('owner/repo')).toHaveLength(1);
+    expect(processLogs.listRuns('owner_repo')).toHaveLength(1);
+    expect(fs.readdirSync(path.join(userData, 'logs'))).toHaveLength(2);
+  });
+
+  it('reads lines from the start or from the end', async () => {
+    const runId = await run('owner/repo', (output) => output('one\ntwo\nthree\n'));
+
+    expect(texts((await processLogs.readLines('owner/repo', runId, 1, 2)).lines)).toEqual([
+      '[stdout] one',
+      '[stdout] two',
+    ]);
+    const { lines } = await processLogs.readLines('owner/repo', runId, -3, 2);
+    expect(lines.map((l) => l.line)).toEqual([2, 3]);
+    expect(texts(lines)).toEqual(['[stdout] two', '[stdout] three']);
+    expect((await processLogs.readLines('owner/repo', runId, -100, 100)).lines).toHaveLength(5);
+    expect((await processLogs.readLines('owner/repo', runId, 10, 5)).lines).toEqual([]);
+  });
+
+  it('joins output split across chunks into whole lines', async () => {
+    const runId = await run('owner/repo', (output) => {
+      output('hel');
+      output('lo\r\nwor');
+      output('\x1b[32mld\x1b[0m\n');
+    });
+
+    const { lines } = await processLogs.readLines('owner/repo', runId, 1, 2);
+    expect(texts(lines)).toEqual(['[stdout] hello', '[stdout] world']);
+  });
+
+  it('searches for text, case-insensitively by default, or a regular expression', async () => {
+    const runId = await run('owner/repo', (output) => output('Error: one\nfine\nerror: two\nerror: three\n'));
+
+    const found = async (query: string, options = {}) =>
+      texts(await processLogs.search('owner/repo', runId, query, options));
+
+    expect(await found('error')).toEqual(['[stdout] Error: one', '[stdout] error: two', '[stdout] error: three']);
+    expect(await found('Error', { caseSensitive: true })).toEqual(['[stdout] Error: one']);
+    expect(await found('^\\S+ \\[stdout\\] (fine|error: t)', { regex: true })).toEqual([
+      '[stdout] fine',
+      '[stdout] error: two',
+      '[stdout] error: three',
+    ]);
+    expect(await found('error', { limit: 2 })).toHaveLength(2);
+    expect((await processLogs.search('owner/repo', runId, 'two'))[0].line).toBe(3);
+  });
+
+  it('rotates a large log and reads it back across its files', async () => {
+    const chunk = 'x'.repeat(64 * 1024);
+    const runId = await run('owner/repo', (output) => {
+      for (let i = 0; i < 100; i++) output(`${i} ${chunk}\n`);
+    });
+
+    const [folder] = fs.readdirSync(path.join(userData, 'logs'));
+    const dir = path.join(userData, 'logs', folder);
+    expect(fs.existsSync(path.join(dir, `${runId}.1.log`))).toBe(true);
+    expect(fs.statSync(path.join(dir, `${runId}.1.log`)).size).toBeLessThanOrEqual(5 * 1024 * 1024);
+
+    const { lines } = await processLogs.readLines('owner/repo', runId, 0, 200);
+    expect(lines).toHaveLength(102);
+    expect(lines.slice(1, 101).map((l) => Number(l.text.split(' ')[2]))).toEqual([...Array(100).keys()]);
+    expect((await processLogs.search('owner/repo', runId, '99 x'))[0].line).toBe(100);
+  });
+});
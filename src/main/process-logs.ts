@@ -0,0 +1,339 @@
+import { app } from 'electron';
+import path from 'path';
+import fs from 'fs';
+import * as crypto from 'crypto';
+import readline from 'readline';
+import { ProcessExit, ProcessRestarting, RunningProcess, processManager } from './process-manager.js';
+import { stripAnsi } from './pty-spawn.js';
+
+/**
+ * Every run's output on disk, so a crash can be looked into after the
+ * process is gone. Runs are logged per project under userData/logs, one file
+ * per run (rotated when it grows large) plus a small JSON file describing it.
+ */
+
+export interface LogRun {
+  runId: string;
+  projectName: string;
+  target?: string;
+  command: string;
+  startedAt: string;
+  endedAt?: string;
+  exitCode?: number | null;
+  signal?: string | null;
+  reason?: ProcessExit['reason'];
+}
+
+export interface LogLine {
+  // 0-based position in the run's log
+  line: number;
+  text: string;
+}
+
+export interface SearchOptions {
+  regex?: boolean;
+  caseSensitive?: boolean;
+  limit?: number;
+}
+
+const MAX_LOG_BYTES = 5 * 1024 * 1024;
+// Rotated files kept per run, besides the one being written
+const MAX_ROTATED_FILES = 3;
+const MAX_RUNS_PER_PROJECT = 20;
+const DEFAULT_SEARCH_LIMIT = 500;
+
+// Project names are "owner/repo"; keep them to one safe folder name. The
+// hash tells apart names that read the same once sanitized ("a/b", "a_b").
+const folderName = (projectName: string) =>
+  `${projectName.replace(/[^\w.-]+/g, '_')}-${crypto.createHash('sha1').update(projectName).digest('hex').slice(0, 8)}`;
+
+interface ActiveLog {
+  run: LogRun;
+  dir: string;
+  stream: fs.WriteStream;
+  bytes: number;
+  // Lines written while the files are being rotated, for the new file
+  pending: string[] | null;
+  // The process exited; end the stream once rotation is done
+  ended: boolean;
+  // Text after the last newline of each stream, waiting for the rest of its line
+  partial: Record<'stdout' | 'stderr', string>;
+}
+
+class ProcessLogs {
+  private rootDir: string;
+  private active: Map<string, ActiveLog> = new Map();
+
+  constructor() {
+    this.rootDir = path.join(app.getPath('userData'), 'logs');
+
+    processManager.on('processStarted', (process: RunningProcess) => this.open(process));
+    processManager.on('output', ({ processId, stream, text }) => this.append(processId, stream, text));
+    processManager.on('processRestarting', ({ id, attempt, code }: ProcessRestarting) => {
+      this.writeLine(id, 'system', `Exited with code ${code}, restarting (attempt ${attempt})`);
+    });
+    processManager.on('processExit', (exit: ProcessExit) => this.close(exit));
+  }
+
+  private logFile(dir: string, runId: string, rotation = 0): string {
+    return path.join(dir, rotation === 0 ? `${runId}.log` : `${runId}.${rotation}.log`);
+  }
+
+  private createStream(dir: string, runId: string): fs.WriteStream {
+    const stream = fs.createWriteStream(this.logFile(dir, runId), { flags: 'a' });
+    stream.on('error', (error) => console.error('Failed to write process log:', error));
+    return stream;
+  }
+
+  private open(process: RunningProcess): void {
+    // Restarted by hand: the run before it ends here
+    if (this.active.has(process.id)) {
+      this.close({ id: process.id, code: null, signal: null, reason: 'stopped' });
+    }
+
+    try {
+      const dir = path.join(this.rootDir, folderName(process.projectName));
+      fs.mkdirSync(dir, { recursive: true });
+
+      // To the millisecond: a restart by hand is a new run of the same process
+      const stamp = process.startTime.toISOString().replace(/[-:.Z]/g, '');
+      const run: LogRun = {
+        runId: `${stamp}-${process.id}`,
+        projectName: process.projectName,
+        target: process.target,
+        command: process.command,
+        startedAt: process.startTime.toISOString(),
+      };
+      this.writeMeta(dir, run);
+
+      const stream = this.createStream(dir, run.runId);
+      this.active.set(process.id, {
+        run,
+        dir,
+        stream,
+        bytes: 0,
+        pending: null,
+        ended: false,
+        partial: { stdout: '', stderr: '' },
+      });
+      this.writeLine(process.id, 'system', `$ ${process.command}`);
+
+      this.prune(dir);
+    } catch (error) {
+      console.error('Failed to open process log:', error);
+    }
+  }
+
+  private append(processId: string, stream: 'stdout' | 'stderr', output: string): void {
+    const log = this.active.get(processId);
+    if (!log) return;
+
+    const lines = (log.partial[stream] + output).split(/\r?\n/);
+    log.partial[stream] = lines.pop() || '';
+    for (const line of lines) {
+      // Keep what a terminal would end up showing: no escapes, and only the
+      // last redraw of a line that was rewritten in place
+      this.writeLine(processId, stream, stripAnsi(line).split('\r').pop() || '');
+    }
+  }
+
+  private writeLine(processId: string, source: 'stdout' | 'stderr' | 'system', text: string): void {
+    const log = this.active.get(processId);
+    if (!log) return;
+
+    this.write(log, `${new Date().toISOString()} [${source}] ${text}\n`);
+  }
+
+  // To the current file, rotating it first when the line would go over the
+  // limit; held for the next file while a rotation is in progress
+  private write(log: ActiveLog, line: string): void {
+    const bytes = Buffer.byteLength(line);
+    if (!log.pending && log.bytes > 0 && log.bytes + bytes > MAX_LOG_BYTES) {
+      this.rotate(log);
+    }
+    if (log.pending) {
+      log.pending.push(line);
+      return;
+    }
+    log.stream.write(line);
+    log.bytes += bytes;
+  }
+
+  /**
+   * run.log becomes run.1.log, run.1.log becomes run.2.log, and so on. The
+   * files are moved once the current one is closed; lines written until then
+   * are held for the new run.log.
+   */
+  private rotate(log: ActiveLog): void {
+    const { dir, run } = log;
+    log.pending = [];
+    log.bytes = 0;
+    log.stream.once('close', () => {
+      try {
+        fs.rmSync(this.logFile(dir, run.runId, MAX_ROTATED_FILES), { force: true });
+        for (let rotation = MAX_ROTATED_FILES - 1; rotation >= 0; rotation--) {
+          const from = this.logFile(dir, run.runId, rotation);
+          if (fs.existsSync(from)) {
+            fs.renameSync(from, this.logFile(dir, run.runId, rotation + 1));
+          }
+        }
+      } catch (error) {
+        // Keep appending to run.log rather than lose the output
+        console.error('Failed to rotate process log:', error);
+      }
+
+      const pending = log.pending || [];
+      log.stream = this.createStream(dir, run.runId);
+      log.pending = null;
+      // May start another rotation, which then holds the rest
+      for (const line of pending) this.write(log, line);
+      if (log.ended && !log.pending) log.stream.end();
+    });
+    log.stream.end();
+  }
+
+  private close(exit: ProcessExit): void {
+    const log = this.active.get(exit.id);
+    if (!log) return;
+
+    for (const stream of ['stdout', 'stderr'] as const) {
+      if (log.partial[stream]) this.writeLine(exit.id, stream, stripAnsi(log.partial[stream]));
+    }
+    this.writeLine(exit.id, 'system', `Process ${exit.reason} (${exit.signal ? `signal ${exit.signal}` : `exit code ${exit.code}`})`);
+    log.ended = true;
+    // A rotation in progress ends the new stream when it is done
+    if (!log.pending) log.stream.end();
+    this.active.delete(exit.id);
+
+    Object.assign(log.run, {
+      endedAt: new Date().toISOString(),
+      exitCode: exit.code,
+      signal: exit.signal,
+      reason: exit.reason,
+    });
+    try {
+      this.writeMeta(log.dir, log.run);
+    } catch (error) {
+      console.error('Failed to save process log details:', error);
+    }
+  }
+
+  private writeMeta(dir: string, run: LogRun): void {
+    fs.writeFileSync(path.join(dir, `${run.runId}.json`), JSON.stringify(run, null, 2), 'utf-8');
+  }
+
+  // Forget the oldest runs of a project beyond MAX_RUNS_PER_PROJECT
+  private prune(dir: string): void {
+    const runIds = fs.readdirSync(dir)
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => file.slice(0, -'.json'.length))
+      .sort();
+    for (const runId of runIds.slice(0, Math.max(0, runIds.length - MAX_RUNS_PER_PROJECT))) {
+      for (const file of fs.readdirSync(dir)) {
+        if (file.startsWith(`${runId}.`)) fs.rmSync(path.join(dir, file), { force: true });
+      }
+    }
+  }
+
+  private runDir(projectName: string, runId: string): string {
+    if (!/^[\w.-]+$/.test(runId)) {
+      throw new Error('Invalid run id');
+    }
+    return path.join(this.rootDir, folderName(projectName));
+  }
+
+  /**
+   * A project's logged runs, most recent first
+   */
+  listRuns(projectName: string): LogRun[] {
+    const dir = path.join(this.rootDir, folderName(projectName));
+    if (!fs.existsSync(dir)) return [];
+
+    const runs: LogRun[] = [];
+    for (const file of fs.readdirSync(dir).filter((f) => f.endsWith('.json'))) {
+      try {
+        runs.push(JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8')));
+      } catch {
+        // Written while the app was killed; skip it
+      }
+    }
+    return runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  // Lines of a run across its rotated files, oldest first
+  private async *lines(projectName: string, runId: string): AsyncGenerator<string> {
+    const dir = this.runDir(projectName, runId);
+    for (let rotation = MAX_ROTATED_FILES; rotation >= 0; rotation--) {
+      const file = this.logFile(dir, runId, rotation);
+      if (!fs.existsSync(file)) continue;
+      const input = fs.createReadStream(file);
+      const reader = readline.createInterface({ input, crlfDelay: Infinity });
+      try {
+        for await (const line of reader) {
+          yield line;
+        }
+      } finally {
+        // Also when the caller stops early
+        input.destroy();
+      }
+    }
+  }
+
+  /**
+   * `count` lines of a run from `start`; a negative start counts from the end
+   */
+  async readLines(projectName: string, runId: string, start: number, count: number): Promise<{ lines: LogLine[] }> {
+    if (start >= 0) {
+      const lines: LogLine[] = [];
+      if (count <= 0) return { lines };
+      let line = 0;
+      for await (const text of this.lines(projectName, runId)) {
+        if (line >= start) lines.push({ line, text });
+        if (++line >= start + count) break;
+      }
+      return { lines };
+    }
+
+    // Keep only the last -start lines, in a ring
+    const ring: string[] = [];
+    let total = 0;
+    for await (const text of this.lines(projectName, runId)) {
+      ring[total++ % -start] = text;
+    }
+    const oldest = total > -start ? total % -start : 0;
+    const from = total - ring.length;
+    return {
+      lines: [...ring.slice(oldest), ...ring.slice(0, oldest)]
+        .slice(0, count)
+        .map((text, index) => ({ line: from + index, text })),
+    };
+  }
+
+  /**
+   * Lines of a run containing the query, or matching it as a regular expression
+   */
+  async search(projectName: string, runId: string, query: string, options: SearchOptions = {}): Promise<LogLine[]> {
+    const { regex = false, caseSensitive = false, limit = DEFAULT_SEARCH_LIMIT } = options;
+    let matches: (text: string) => boolean;
+    if (regex) {
+      const pattern = new RegExp(query, caseSensitive ? '' : 'i');
+      matches = (text) => pattern.test(text);
+    } else {
+      const needle = caseSensitive ? query : query.toLowerCase();
+      matches = (text) => (caseSensitive ? text : text.toLowerCase()).includes(needle);
+    }
+
+    const results: LogLine[] = [];
+    let line = 0;
+    for await (const text of this.lines(projectName, runId)) {
+      if (matches(text)) {
+        results.push({ line, text });
+        if (results.length >= limit) break;
+      }
+      line++;
+    }
+    return results;
+  }
+}
+
+export const processLogs = new ProcessLogs();
@@ -0,0 +1,298 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SpawnHandlers, SpawnOptions } from './pty-spawn';
+import type { ProcessExit, ProcessRestarting, StartOptions } from './process-manager';
+
+interface FakeChild {
+  pid: number;
+  exitCode: number | null;
+  signalCode: NodeJS.Signals | null;
+  tty: boolean;
+  command: string;
+  options: SpawnOptions;
+  handlers: SpawnHandlers;
+  write(data: string): void;
+  resize(): void;
+}
+
+// Commands "spawned" by the manager, in order. Their pids are above any real
+// pid, so signals sent to them find nothing.
+const spawned = vi.hoisted(() => [] as FakeChild[]);
+// Commands that fail to start, as when the shell can't be run
+const failing = vi.hoisted(() => new Set<string>());
+const released = vi.hoisted(() => [] as string[]);
+
+vi.mock('./pty-spawn', () => ({
+  stripAnsi: (text: string) => text,
+  spawnCommand: (command: string, options: SpawnOptions, handlers: SpawnHandlers) => {
+    const failed = failing.has(command);
+    const child: FakeChild = {
+      pid: failed ? (undefined as unknown as number) : 5_000_000 + spawned.length,
+      exitCode: null,
+      signalCode: null,
+      tty: false,
+      command,
+      options,
+      handlers,
+      write: () => {},
+      resize: () => {},
+    };
+    spawned.push(child);
+    if (failed) setImmediate(() => handlers.onError(new Error(`spawn ${command} ENOENT`)));
+    return child;
+  },
+}));
+
+vi.mock('./port-registry', () => ({
+  portRegistry: {
+    allocate: async (_key: string, port: number) => port,
+    release: (key: string) => released.push(key) > 0,
+    findOwners: async () => new Map(),
+  },
+  reservationKey: (projectName: string, target?: string) => (target ? `${projectName}#${target}` : projectName),
+  isPortConflictError: () => false,
+  PortConflictError: class extends Error {},
+}));
+
+async function loadManager() {
+  vi.resetModules();
+  const { processManager } = await import('./process-manager');
+  const events: { name: string; payload: any }[] = [];
+  for (const name of ['processStarted', 'processRestarting', 'processExit', 'crashLoop', 'processError']) {
+    processManager.on(name, (payload) => events.push({ name, payload }));
+  }
+  return { processManager, events, named: (name: string) => events.filter((e) => e.name === name).map((e) => e.payload) };
+}
+
+// Let the child exit the way the spawned command reports it
+function exit(child: FakeChild, code: number | null, signal: NodeJS.Signals | null = null): void {
+  child.exitCode = code;
+  child.signalCode = signal;
+  child.handlers.onExit(code, signal);
+}
+
+const start = (processManager: Awaited<ReturnType<typeof loadManager>>['processManager'], options: StartOptions = {}) =>
+  processManager.startProcess('owner/repo', 'npm run dev', '/tmp', 3000, 'frontend', { readiness: { type: 'none' }, ...options });
+
+beforeEach(() => {
+  spawned.length = 0;
+  failing.clear();
+  released.length = 0;
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('restart policy', () => {
+  it('restarts a crashed process with doubling backoff until it gives up', async () => {
+    const { processManager, named } = await loadManager();
+    const process = await start(processManager, { restart: { mode: 'on-failure', maxRetries: 3, backoffMs: 1000 } });
+
+    for (const delay of [1000, 2000, 4000]) {
+      exit(spawned[spawned.length - 1], 1);
+      expect(processManager.getProcess(process.id)?.status).toBe('restarting');
+      await vi.advanceTimersByTimeAsync(delay - 1);
+      const before = spawned.length;
+      await vi.advanceTimersByTimeAsync(1);
+      expect(spawned).toHaveLength(before + 1);
+    }
+    expect(named('processRestarting').map((r: ProcessRestarting) => [r.attempt, r.delayMs])).toEqual([
+      [1, 1000],
+      [2, 2000],
+      [3, 4000],
+    ]);
+
+    exit(spawned[3], 1);
+
+    expect(named('crashLoop')).toEqual([expect.objectContaining({ id: process.id, restarts: 3, code: 1 })]);
+    expect(named('processExit')).toEqual([expect.objectContaining({ id: process.id, reason: 'crashed' })]);
+    expect(processManager.getProcess(process.id)).toBeNull();
+    expect(spawned).toHaveLength(4);
+  });
+
+  it('caps the backoff', async () => {
+    const { processManager, named } = await loadManager();
+    await start(processManager, { restart: { mode: 'always', maxRetries: 5, backoffMs: 10_000 } });
+
+    for (let attempt = 0; attempt < 4; attempt++) {
+      exit(spawned[spawned.length - 1], 1);
+      await vi.advanceTimersByTimeAsync(30_000);
+    }
+
+    expect(named('processRestarting').map((r: ProcessRestarting) => r.delayMs)).toEqual([10_000, 20_000, 30_000, 30_000]);
+  });
+
+  it('starts counting again once a process stayed up', async () => {
+    const { processManager, named } = await loadManager();
+    await start(processManager, { restart: { mode: 'on-failure', maxRetries: 1, backoffMs: 1000 } });
+
+    exit(spawned[0], 1);
+    await vi.advanceTimersByTimeAsync(1000);
+    await vi.advanceTimersByTimeAsync(30_000);
+    exit(spawned[1], 1);
+
+    expect(named('crashLoop')).toHaveLength(0);
+    expect(named('processRestarting').map((r: ProcessRestarting) => r.attempt)).toEqual([1, 1]);
+  });
+
+  it("doesn't restart a clean exit under on-failure", async () => {
+    const { processManager, named } = await loadManager();
+    await start(processManager, { restart: { mode: 'on-failure', maxRetries: 3 } });
+
+    exit(spawned[0], 0);
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(spawned).toHaveLength(1);
+    expect(named('processExit').map((e: ProcessExit) => e.reason)).toEqual(['exited']);
+  });
+
+  it('restarts a clean exit under always', async () => {
+    const { processManager, named } = await loadManager();
+    await start(processManager, { restart: { mode: 'always', maxRetries: 3, backoffMs: 1000 } });
+
+    exit(spawned[0], 0);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(spawned).toHaveLength(2);
+    expect(named('processExit')).toHaveLength(0);
+  });
+
+  it('never restarts under never, or without a policy', async () => {
+    const { processManager, named } = await loadManager();
+    await start(processManager, { restart: { mode: 'never', maxRetries: 3 } });
+    await start(processManager);
+
+    exit(spawned[0], 1);
+    exit(spawned[1], null, 'SIGSEGV');
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(spawned).toHaveLength(2);
+    expect(named('processExit').map((e: ProcessExit) => e.reason)).toEqual(['crashed', 'crashed']);
+  });
+
+  it('starts a new run on a restart by hand', async () => {
+    const { processManager, named } = await loadManager();
+    const process = await start(processManager);
+
+    const restarted = await processManager.restartProcess(process.id);
+
+    expect(restarted?.id).toBe(process.id);
+    expect(spawned).toHaveLength(2);
+    expect(named('processStarted').map((p) => p.id)).toEqual([process.id, process.id]);
+    expect(named('processStarted')[1].pid).toBe(spawned[1].pid);
+  });
+});
+
+describe('failed spawns', () => {
+  it('ends a process whose command could not be started', async () => {
+    const { processManager, named } = await loadManager();
+    failing.add('missing-binary');
+    const process = await processManager.startProcess('owner/repo', 'missing-binary', '/tmp', 3000, 'frontend', {
+      target: 'web',
+    });
+
+    await vi.waitFor(() => expect(named('processExit')).toHaveLength(1));
+
+    expect(named('processError')).toEqual([{ processId: process.id, error: 'spawn missing-binary ENOENT' }]);
+    expect(named('processExit')).toEqual([{ id: process.id, code: null, signal: null, reason: 'crashed' }]);
+    expect(processManager.getProcess(process.id)).toBeNull();
+    expect(released).toEqual(['owner/repo#web']);
+  });
+});
+
+describe('queue', () => {
+  const startNamed = (
+    processManager: Awaited<ReturnType<typeof loadManager>>['processManager'],
+    projectName: string,
+    options: StartOptions = {}
+  ) => processManager.startProcess(projectName, `run ${projectName}`, '/tmp', 3000, 'frontend', { readiness: { type: 'none' }, ...options });
+
+  // The projects whose commands were spawned, in order
+  const started = () => spawned.map((child) => child.command.replace('run ', ''));
+
+  it('starts queued processes in order as slots free up', async () => {
+    const { processManager } = await loadManager();
+    processManager.setMaxConcurrent(1);
+    await startNamed(processManager, 'a');
+    const b = await startNamed(processManager, 'b');
+    await startNamed(processManager, 'c');
+
+    expect(b.status).toBe('queued');
+    expect(processManager.getQueue().map((entry) => [entry.projectName, entry.position])).toEqual([
+      ['b', 1],
+      ['c', 2],
+    ]);
+
+    exit(spawned[0], 0);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started()).toEqual(['a', 'b']);
+    expect(processManager.getQueue().map((entry) => [entry.projectName, entry.position])).toEqual([['c', 1]]);
+
+    exit(spawned[1], 1);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started()).toEqual(['a', 'b', 'c']);
+    expect(processManager.getQueue()).toEqual([]);
+  });
+
+  it('starts higher priorities first', async () => {
+    const { processManager } = await loadManager();
+    processManager.setMaxConcurrent(1);
+    await startNamed(processManager, 'a');
+    await startNamed(processManager, 'low');
+    const later = await startNamed(processManager, 'later');
+    await startNamed(processManager, 'high', { priority: 5 });
+
+    expect(processManager.getQueue().map((entry) => entry.projectName)).toEqual(['high', 'low', 'later']);
+    processManager.setPriority(later.id, 10);
+    expect(processManager.getQueue().map((entry) => entry.projectName)).toEqual(['later', 'high', 'low']);
+
+    for (let i = 0; i < 3; i++) {
+      exit(spawned[spawned.length - 1], 0);
+      await vi.advanceTimersByTimeAsync(0);
+    }
+    expect(started()).toEqual(['a', 'later', 'high', 'low']);
+  });
+
+  it('takes a cancelled start off the queue without running it', async () => {
+    const { processManager, named } = await loadManager();
+    processManager.setMaxConcurrent(1);
+    await startNamed(processManager, 'a');
+    const b = await startNamed(processManager, 'b');
+    await startNamed(processManager, 'c');
+
+    expect(await processManager.stopProcess(b.id)).toBe(true);
+
+    expect(processManager.getQueue().map((entry) => [entry.projectName, entry.position])).toEqual([['c', 1]]);
+    expect(named('processExit')).toEqual([expect.objectContaining({ id: b.id, reason: 'stopped' })]);
+    exit(spawned[0], 0);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started()).toEqual(['a', 'c']);
+  });
+
+  it('frees the slot of a process whose command failed to start', async () => {
+    const { processManager } = await loadManager();
+    processManager.setMaxConcurrent(1);
+    failing.add('run broken');
+    await startNamed(processManager, 'broken');
+    await startNamed(processManager, 'b');
+
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(started()).toEqual(['broken', 'b']);
+    expect(processManager.getQueue()).toEqual([]);
+  });
+
+  it('starts queued processes when the limit is raised', async () => {
+    const { processManager } = await loadManager();
+    processManager.setMaxConcurrent(1);
+    await startNamed(processManager, 'a');
+    await startNamed(processManager, 'b');
+    await startNamed(processManager, 'c');
+
+    processManager.setMaxConcurrent(0);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(started()).toEqual(['a', 'b', 'c']);
+  });
+});
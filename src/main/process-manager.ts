@@ -1,6 +1,11 @@
-import { ChildProcess, spawn } from 'child_process';
+import { spawn } from 'child_process';
 import { EventEmitter } from 'events';
-import net from 'net';
+import { ReadinessProbe, checkProbe, validateProbe } from './health-probes.js';
+import { PortConflictMode, PortConflictError, PortOwner, isPortConflictError, portRegistry, reservationKey } from './port-registry.js';
+import { SpawnHandlers, SpawnedCommand, TerminalSize, spawnCommand, stripAnsi } from './pty-spawn.js';
+
+// queued while the concurrency limit is reached, waiting for a slot
+export type ProcessStatus = 'queued' | 'starting' | 'ready' | 'unhealthy' | 'restarting' | 'stopped' | 'error';
 
 export interface RunningProcess {
   id: string;
@@ -8,266 +13,860 @@ export interface RunningProcess {
   command: string;
   port: number;
   pid: number | null;
-  status: 'running' | 'stopped' | 'error';
+  // starting until the readiness probe passes, then ready; unhealthy when it
+  // never passes or liveness checks fail
+  status: ProcessStatus;
   output: string[];
   startTime: Date;
   type: 'frontend' | 'backend' | 'other';
+  // Workspace package this process runs, for monorepos
+  target?: string;
+  // Launch group the process was started in, stopped together
+  group?: string;
+  // Restarts in a row since the process last ran long enough to count as up
+  restarts: number;
+  // Run profile it was started with
+  profileId?: string;
+  // Higher starts first among queued processes
+  priority: number;
+  // 1 for the next to start, while queued
+  queuePosition?: number;
+}
+
+export interface RestartPolicy {
+  // 'on-failure' restarts after a non-zero exit, 'always' after any exit
+  mode: 'never' | 'on-failure' | 'always';
+  maxRetries: number;
+  // Delay before the first restart, doubled for each one after it
+  backoffMs?: number;
+}
+
+export interface StartOptions {
+  // Workspace package or service to run, for monorepos
+  target?: string;
+  // Variables added to the inherited environment
+  env?: Record<string, string>;
+  // Launch group to start the process in (see stopGroup)
+  group?: string;
+  // How long to wait after SIGTERM before killing the process tree
+  gracePeriodMs?: number;
+  restart?: RestartPolicy;
+  // Defaults to the port accepting connections
+  readiness?: ReadinessProbe;
+  // Run profile the command comes from
+  profileId?: string;
+  // Higher starts sooner when it has to wait for a slot; 0 by default
+  priority?: number;
+  // When its port is held by another process: take the next free one (the
+  // default), or fail with a PortConflictError
+  portConflict?: PortConflictMode;
+}
+
+/**
+ * How a process was started: enough to start it again, or to take it over,
+ * in a later session
+ */
+export interface LaunchSpec {
+  projectName: string;
+  // As given, before $PORT is filled in
+  command: string;
+  cwd: string;
+  port: number;
+  type: 'frontend' | 'backend' | 'other';
+  options: StartOptions;
+}
+
+// Which process is which, without its output
+export interface ProcessSummary {
+  id: string;
+  projectName: string;
+  target?: string;
+  pid: number | null;
+}
+
+// A queued process: where it is in the queue and why
+export interface QueueEntry {
+  id: string;
+  projectName: string;
+  target?: string;
+  priority: number;
+  position: number;
+}
+
+// Why a process ended: on its own (cleanly or not), or because it was stopped,
+// either within the grace period or by SIGKILL after it
+export type ExitReason = 'exited' | 'crashed' | 'stopped' | 'killed';
+
+export interface ProcessExit {
+  id: string;
+  code: number | null;
+  signal: NodeJS.Signals | null;
+  reason: ExitReason;
+}
+
+export interface ProcessRestarting {
+  id: string;
+  attempt: number;
+  delayMs: number;
+  code: number | null;
+  signal: NodeJS.Signals | null;
+}
+
+// Raised when a process keeps exiting and restarts are given up
+export interface CrashLoop {
+  id: string;
+  projectName: string;
+  target?: string;
+  restarts: number;
+  code: number | null;
+  signal: NodeJS.Signals | null;
+}
+
+const DEFAULT_GRACE_PERIOD_MS = 5000;
+const DEFAULT_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+// A process up this long has recovered; its restart count starts over
+const STABLE_RUN_MS = 30000;
+// Readiness is probed this often until it passes or startup times out
+const READINESS_INTERVAL_MS = 500;
+const STARTUP_TIMEOUT_MS = 120000;
+// Once ready, liveness is checked this often; this many failures in a row make it unhealthy
+const LIVENESS_INTERVAL_MS = 10000;
+const LIVENESS_FAILURES = 3;
+// How long to wait for a tree to disappear after SIGKILL
+const KILL_TIMEOUT_MS = 2000;
+const EXIT_POLL_INTERVAL_MS = 100;
+// How often an adopted process is checked for having exited
+const ADOPTED_POLL_INTERVAL_MS = 2000;
+// Output chunks kept in memory per process
+const OUTPUT_BUFFER_SIZE = 2000;
+// Until the renderer reports the size of its terminal
+const DEFAULT_TERMINAL_SIZE: TerminalSize = { cols: 120, rows: 30 };
+
+const isWindows = process.platform === 'win32';
+
+/**
+ * Keeps the last `capacity` items pushed into it
+ */
+export class RingBuffer<T> {
+  private items: T[] = [];
+  private start = 0;
+
+  constructor(private capacity: number) {}
+
+  push(item: T): void {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+    } else {
+      this.items[this.start] = item;
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  toArray(): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+  }
+}
+
+interface ProcessData extends Omit<RunningProcess, 'output'> {
+  // Recent output for the live view; the full output goes to the run's log file
+  output: RingBuffer<string>;
+  child: SpawnedCommand | null;
+  cwd: string;
+  // Size of the terminal the output is shown in, kept for restarts
+  terminalSize: TerminalSize;
+  env?: Record<string, string>;
+  gracePeriodMs?: number;
+  restartPolicy?: RestartPolicy;
+  restartTimer?: NodeJS.Timeout;
+  readiness: ReadinessProbe;
+  healthTimer?: NodeJS.Timeout;
+  // Set while the tree is being terminated; resolves once it is gone
+  stopping?: Promise<boolean>;
+  killed?: boolean;
+  launch: LaunchSpec;
+  // Order it was queued in, to start equal priorities first come first served
+  queuedSeq?: number;
+}
+
+const toRunningProcess = (data: ProcessData): RunningProcess => ({
+  id: data.id,
+  projectName: data.projectName,
+  command: data.command,
+  port: data.port,
+  pid: data.pid,
+  status: data.status,
+  output: data.output.toArray(),
+  startTime: data.startTime,
+  type: data.type,
+  target: data.target,
+  group: data.group,
+  restarts: data.restarts,
+  profileId: data.launch.options.profileId,
+  priority: data.priority,
+  queuePosition: data.queuePosition,
+});
+
+// Lines servers print once they are bound, e.g. Vite's "Local: http://localhost:5173/",
+// Express's "listening on port 3000" or Spring's "Tomcat started on port(s): 8080"
+const LISTENING_PATTERNS = [
+  /https?:\/\/(?:localhost|127\.0\.0\.1|0\.0\.0\.0|\[::1?\]):(\d{2,5})/i,
+  /listening (?:on|at)\b[^\d\n]*?(\d{2,5})\b/i,
+  /(?:running|started|serving) (?:on|at) port\(?s?\)?:? ?(\d{2,5})\b/i,
+];
+
+function parseListeningPort(output: string): number | null {
+  const text = stripAnsi(output);
+  for (const pattern of LISTENING_PATTERNS) {
+    const port = Number(text.match(pattern)?.[1]);
+    if (port > 0 && port < 65536) return port;
+  }
+  return null;
+}
+
+/**
+ * Send a signal to a process and everything it started. Processes are
+ * spawned as process group leaders, so on Unix the group gets it; Windows
+ * has no groups and taskkill walks the tree instead.
+ */
+function signalTree(pid: number, signal: 'SIGTERM' | 'SIGKILL'): void {
+  if (isWindows) {
+    const args = ['/PID', String(pid), '/T', ...(signal === 'SIGKILL' ? ['/F'] : [])];
+    spawn('taskkill', args, { windowsHide: true }).on('error', () => { /* Already gone */ });
+    return;
+  }
+  try {
+    process.kill(-pid, signal);
+  } catch { /* Already gone */ }
+}
+
+function isTreeAlive(pid: number, child: SpawnedCommand): boolean {
+  if (isWindows) {
+    return child.exitCode === null && child.signalCode === null;
+  }
+  try {
+    process.kill(-pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function waitForTreeExit(pid: number, child: SpawnedCommand, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (isTreeAlive(pid, child)) {
+    if (Date.now() >= deadline) return false;
+    await new Promise((resolve) => setTimeout(resolve, EXIT_POLL_INTERVAL_MS));
+  }
+  return true;
+}
+
+/**
+ * Stands in for the child of a process an earlier session started. Its
+ * output went to that session and nothing can be typed into it; that it
+ * exited is noticed by polling its process group.
+ */
+function adoptedChild(pid: number, onExit: SpawnHandlers['onExit']): SpawnedCommand {
+  const timer = setInterval(() => {
+    try {
+      process.kill(-pid, 0);
+    } catch {
+      clearInterval(timer);
+      onExit(null, null);
+    }
+  }, ADOPTED_POLL_INTERVAL_MS);
+
+  return { pid, exitCode: null, signalCode: null, tty: false, write: () => {}, resize: () => {} };
 }
 
 class ProcessManager extends EventEmitter {
-  private processes: Map<string, RunningProcess & { child: ChildProcess | null }> = new Map();
+  private processes: Map<string, ProcessData> = new Map();
   private nextProcessId = 1;
+  private gracePeriodMs = DEFAULT_GRACE_PERIOD_MS;
+  // Processes allowed to run at once; 0 for no limit
+  private maxConcurrent = 0;
+  private nextQueueSeq = 1;
+
+  /**
+   * Grace period for processes started without their own
+   */
+  setGracePeriod(ms: number): void {
+    this.gracePeriodMs = Math.max(0, ms);
+  }
 
+  /**
+   * How many processes may run at once; 0 for no limit. Raising it starts
+   * queued processes straight away.
+   */
+  setMaxConcurrent(limit: number): void {
+    this.maxConcurrent = Math.max(0, Math.floor(limit) || 0);
+    this.startQueued();
+  }
+
+  /**
+   * Start a process, or queue it when as many as allowed are running
+   * already. A queued process is returned with status 'queued' and starts,
+   * on a port allocated then, once a slot frees up. The port is the one the
+   * registry keeps for the project; the command gets it as $PORT and in the
+   * PORT environment variable.
+   */
   async startProcess(
     projectName: string,
     command: string,
     cwd: string,
     port: number,
-    type: 'frontend' | 'backend' | 'other' = 'other'
+    type: 'frontend' | 'backend' | 'other' = 'other',
+    options: StartOptions = {}
   ): Promise<RunningProcess> {
-    const processId = `process-${this.nextProcessId++}`;
-    const allocatedPort = await this.findAvailablePort(port);
-
-    const finalCommand = command.replace(/\$PORT/g, allocatedPort.toString());
-    const [executable, ...args] = finalCommand.split(' ');
+    const processData = this.createProcessData({ projectName, command, cwd, port, type, options }, port);
+
+    if (!this.hasFreeSlot()) {
+      console.log(`Queueing process: ${projectName}, ${this.maxConcurrent} already running`);
+      processData.status = 'queued';
+      processData.queuedSeq = this.nextQueueSeq++;
+      this.processes.set(processData.id, processData);
+      this.updateQueue();
+      this.emit('processQueued', toRunningProcess(processData));
+      return toRunningProcess(processData);
+    }
 
-    console.log(`Starting process: ${projectName} with command: ${finalCommand}`);
+    this.processes.set(processData.id, processData);
+    try {
+      await this.launch(processData);
+      return toRunningProcess(processData);
+    } catch (error) {
+      console.error(`Error starting process: ${error}`);
+      this.processes.delete(processData.id);
+      this.startQueued();
+      throw error;
+    }
+  }
 
+  /**
+   * Allocate a port and run the command of a process that holds a slot
+   */
+  private async launch(processData: ProcessData): Promise<void> {
+    const key = reservationKey(processData.projectName, processData.target);
+    let port: number;
     try {
-      const child = spawn(executable, args, {
-        cwd,
-        stdio: ['pipe', 'pipe', 'pipe'],
-        shell: true,
-      });
+      port = await portRegistry.allocate(key, processData.launch.port, processData.launch.options.portConflict ?? 'next-free');
+    } catch (error) {
+      // Say which project holds it when it is one of ours
+      if (isPortConflictError(error) && error.owner) {
+        throw new PortConflictError(error.port, this.identifyOwner(error.owner));
+      }
+      throw error;
+    }
+    // Stopped while the port was being found
+    if (processData.stopping || !this.processes.has(processData.id)) return;
+
+    // A queued process was shown with the port it asked for
+    if (port !== processData.port) this.emit('portDetected', { processId: processData.id, port });
+    processData.port = port;
+    processData.command = processData.launch.command.replace(/\$PORT/g, port.toString());
+    // Dev servers that read PORT bind the allocated one, not their default
+    processData.env = { ...processData.launch.options.env, PORT: port.toString() };
+    console.log(`Starting process: ${processData.projectName} with command: ${processData.command}`);
+
+    this.spawnChild(processData);
+    this.emit('processStarted', toRunningProcess(processData));
+  }
 
-      const processData: RunningProcess & { child: ChildProcess | null } = {
-        id: processId,
-        projectName,
-        command: finalCommand,
-        port: allocatedPort,
-        pid: child.pid || null,
-        status: 'running',
-        output: [],
-        startTime: new Date(),
-        type,
-        child,
-      };
-
-      // Handle stdout
-      child.stdout?.on('data', (data) => {
-        const output = data.toString();
-        processData.output.push(`[STDOUT] ${output}`);
-        this.emit('output', { processId, output: `[STDOUT] ${output}` });
-      });
+  private hasFreeSlot(): boolean {
+    if (this.maxConcurrent === 0) return true;
+    const running = Array.from(this.processes.values()).filter((p) => p.status !== 'queued');
+    return running.length < this.maxConcurrent;
+  }
 
-      // Handle stderr
-      child.stderr?.on('data', (data) => {
-        const output = data.toString();
-        processData.output.push(`[STDERR] ${output}`);
-        this.emit('output', { processId, output: `[STDERR] ${output}` });
-      });
+  // Queued processes in the order they will start
+  private queued(): ProcessData[] {
+    return Array.from(this.processes.values())
+      .filter((p) => p.status === 'queued' && !p.stopping)
+      .sort((a, b) => b.priority - a.priority || a.queuedSeq! - b.queuedSeq!);
+  }
 
-      // Handle process exit
-      child.on('exit', (code: number | null) => {
-        processData.status = code === 0 ? 'stopped' : 'error';
-        this.emit('processExit', { id: processId, code });
-        this.processes.delete(processId);
-      });
+  private updateQueue(): void {
+    this.queued().forEach((processData, index) => {
+      processData.queuePosition = index + 1;
+    });
+    this.emit('queueChanged', this.getQueue());
+  }
 
-      // Handle process error
-      child.on('error', (error) => {
-        processData.status = 'error';
-        this.emit('processError', { processId, error: error.message });
+  /**
+   * Start queued processes while there are free slots
+   */
+  private startQueued(): void {
+    let started = false;
+    for (const processData of this.queued()) {
+      if (!this.hasFreeSlot()) break;
+      processData.queuePosition = undefined;
+      processData.queuedSeq = undefined;
+      this.setStatus(processData, 'starting');
+      started = true;
+
+      this.launch(processData).catch((error) => {
+        console.error(`Error starting queued process: ${error}`);
+        this.setStatus(processData, 'error');
+        this.emit('processError', { processId: processData.id, error: (error as Error).message });
+        this.processes.delete(processData.id);
+        this.emit('processExit', { id: processData.id, code: null, signal: null, reason: 'crashed' } as ProcessExit);
+        this.startQueued();
       });
-
-      this.processes.set(processId, processData);
-      this.emit('processStarted', processData);
-
-      return {
-        id: processData.id,
-        projectName: processData.projectName,
-        command: processData.command,
-        port: processData.port,
-        pid: processData.pid,
-        status: processData.status,
-        output: processData.output,
-        startTime: processData.startTime,
-        type: processData.type,
-      };
-    } catch (error) {
-      console.error(`Error starting process: ${error}`);
-      throw error;
     }
+    if (started) this.updateQueue();
   }
 
-  stopProcess(processId: string): boolean {
+  /**
+   * Move a queued process up or down the queue; higher starts sooner
+   */
+  setPriority(processId: string, priority: number): boolean {
     const processData = this.processes.get(processId);
-    if (!processData || !processData.child) return false;
-
-    processData.child.kill();
-    processData.status = 'stopped';
+    if (!processData) return false;
+    processData.priority = priority;
+    processData.launch.options = { ...processData.launch.options, priority };
+    if (processData.status === 'queued') this.updateQueue();
     return true;
   }
 
-  stopAllProcesses(): void {
-    for (const [_processId, processData] of this.processes) {
-      if (processData.child) {
-        processData.child.kill();
-        processData.status = 'stopped';
-      }
+  /**
+   * Queued processes in the order they will start
+   */
+  getQueue(): QueueEntry[] {
+    return this.queued().map((processData, index) => ({
+      id: processData.id,
+      projectName: processData.projectName,
+      target: processData.target,
+      priority: processData.priority,
+      position: index + 1,
+    }));
+  }
+
+  /**
+   * Take over a process a previous session started and left running, so it
+   * is managed again instead of being started a second time. Only Unix
+   * processes can be adopted: they lead a process group that can be watched
+   * and signalled.
+   */
+  adoptProcess(spec: LaunchSpec, pid: number): RunningProcess {
+    if (isWindows) {
+      throw new Error('Processes from an earlier session cannot be adopted on Windows');
     }
-    this.processes.clear();
+    const processData = this.createProcessData(spec, spec.port);
+    console.log(`Adopting process: ${spec.projectName} (pid ${pid})`);
+
+    let child: SpawnedCommand;
+    const handlers = this.childHandlers(processData, () => child);
+    child = adoptedChild(pid, handlers.onExit);
+    this.attachChild(processData, child);
+
+    this.processes.set(processData.id, processData);
+    this.emit('processStarted', toRunningProcess(processData));
+    return toRunningProcess(processData);
+  }
+
+  private createProcessData(spec: LaunchSpec, port: number): ProcessData {
+    const { target, env, group, gracePeriodMs, restart, readiness = { type: 'tcp' } } = spec.options;
+    // Rejects the start here; a bad pattern would otherwise throw on every spawn
+    validateProbe(readiness);
+    return {
+      id: `process-${this.nextProcessId++}`,
+      projectName: spec.projectName,
+      command: spec.command.replace(/\$PORT/g, port.toString()),
+      port,
+      pid: null,
+      status: 'starting',
+      output: new RingBuffer(OUTPUT_BUFFER_SIZE),
+      startTime: new Date(),
+      type: spec.type,
+      target,
+      group,
+      restarts: 0,
+      priority: spec.options.priority ?? 0,
+      child: null,
+      cwd: spec.cwd,
+      terminalSize: DEFAULT_TERMINAL_SIZE,
+      env,
+      gracePeriodMs,
+      restartPolicy: restart,
+      readiness,
+      launch: { ...spec, port },
+    };
   }
 
   /**
-   * Stop all processes associated with a specific project
+   * Run the process's command, for its first start or a restart. The
+   * process keeps its id and port across restarts.
    */
-  stopProcessesForProject(projectName: string): number {
-    let stoppedCount = 0;
-    for (const [processId, processData] of this.processes) {
-      if (processData.projectName === projectName && processData.child) {
-        processData.child.kill();
-        processData.status = 'stopped';
+  private spawnChild(processData: ProcessData): void {
+    let child: SpawnedCommand;
+    const handlers = this.childHandlers(processData, () => child);
+    child = spawnCommand(
+      processData.command,
+      { cwd: processData.cwd, env: processData.env, size: processData.terminalSize },
+      handlers
+    );
+    this.attachChild(processData, child);
+  }
+
+  private attachChild(processData: ProcessData, child: SpawnedCommand): void {
+    processData.child = child;
+    processData.pid = child.pid || null;
+    this.setStatus(processData, 'starting');
+    processData.startTime = new Date();
+    processData.stopping = undefined;
+    processData.killed = false;
+
+    this.scheduleHealthCheck(processData, child, READINESS_INTERVAL_MS);
+  }
+
+  /**
+   * What to do with a child's output and exit. `getChild` is the child the
+   * handlers belong to, so ones left over from before a restart do nothing.
+   */
+  private childHandlers(processData: ProcessData, getChild: () => SpawnedCommand): SpawnHandlers {
+    const processId = processData.id;
+
+    // The allocated port is only what we asked for; the first address the
+    // server reports is the one it actually bound
+    let portConfirmed = false;
+    const detectPort = (output: string) => {
+      if (portConfirmed) return;
+      const port = parseListeningPort(output);
+      if (port) {
+        portConfirmed = true;
+        processData.port = port;
+        this.emit('portDetected', { processId, port });
+      }
+    };
+
+    const readyPattern = processData.readiness.type === 'output' ? new RegExp(processData.readiness.pattern) : null;
+    const matchReadiness = (output: string) => {
+      if (readyPattern && processData.status === 'starting' && readyPattern.test(stripAnsi(output))) {
+        this.setStatus(processData, 'ready');
+      }
+    };
+
+    return {
+      onData: (output, stream) => {
+        const prefixed = `[${stream.toUpperCase()}] ${output}`;
+        processData.output.push(prefixed);
+        this.emit('output', { processId, output: prefixed, stream, text: output });
+        detectPort(output);
+        matchReadiness(output);
+      },
+      onExit: (code, signal) => {
+        const child = getChild();
+        // A restart replaced this child already
+        if (processData.child !== child) return;
+        clearTimeout(processData.healthTimer);
+        // Stopping and restarting finish once the whole tree is gone
+        if (processData.stopping) return;
+
+        // Don't leave what it started behind, holding ports
+        if (child.pid && isTreeAlive(child.pid, child)) {
+          signalTree(child.pid, 'SIGTERM');
+        }
+
+        // An adopted process's exit status is unknown; don't call it a crash
+        const reason: ExitReason = code === 0 || (code === null && signal === null) ? 'exited' : 'crashed';
+        if (this.scheduleRestart(processData, reason, code, signal)) return;
+
+        this.setStatus(processData, reason === 'crashed' ? 'error' : 'stopped');
         this.processes.delete(processId);
-        stoppedCount++;
+        this.emit('processExit', { id: processId, code, signal, reason } as ProcessExit);
+        this.startQueued();
+      },
+      onError: (error) => {
+        const child = getChild();
+        if (processData.child !== child) return;
+        this.setStatus(processData, 'error');
+        this.emit('processError', { processId, error: error.message });
+        // Only a command that never started has no exit to come; one being
+        // stopped is removed by stopProcess
+        if (child.pid || processData.stopping) return;
+
+        clearTimeout(processData.healthTimer);
+        portRegistry.release(reservationKey(processData.projectName, processData.target));
+        this.processes.delete(processId);
+        this.emit('processExit', { id: processId, code: null, signal: null, reason: 'crashed' } as ProcessExit);
+        this.startQueued();
+      },
+    };
+  }
+
+  private setStatus(processData: ProcessData, status: ProcessStatus): void {
+    if (processData.status === status) return;
+    processData.status = status;
+    this.emit('statusChanged', { id: processData.id, status });
+  }
+
+  /**
+   * Probe readiness while the process starts (giving up, as unhealthy, after
+   * the startup timeout), then liveness while it runs. Output patterns only
+   * say when it is ready; its liveness is then just that it keeps running.
+   */
+  private scheduleHealthCheck(processData: ProcessData, child: SpawnedCommand, delayMs: number, failures = 0): void {
+    const { readiness } = processData;
+    if (readiness.type === 'output' && processData.status !== 'starting') return;
+
+    processData.healthTimer = setTimeout(async () => {
+      if (processData.child !== child || processData.stopping || !this.processes.has(processData.id)) return;
+
+      if (processData.status === 'starting') {
+        if (readiness.type !== 'output' && (await checkProbe(readiness, processData.port))) {
+          this.setStatus(processData, 'ready');
+        } else if (Date.now() - processData.startTime.getTime() >= STARTUP_TIMEOUT_MS) {
+          console.warn(`${processData.projectName} did not become ready within ${STARTUP_TIMEOUT_MS / 1000}s`);
+          this.setStatus(processData, 'unhealthy');
+        }
+      } else if (readiness.type !== 'output') {
+        const alive = await checkProbe(readiness, processData.port);
+        if (processData.child !== child || processData.stopping) return;
+        failures = alive ? 0 : failures + 1;
+        if (alive) {
+          this.setStatus(processData, 'ready');
+        } else if (failures >= LIVENESS_FAILURES) {
+          this.setStatus(processData, 'unhealthy');
+        }
       }
+
+      if (processData.child !== child || processData.stopping) return;
+      const next = processData.status === 'starting' ? READINESS_INTERVAL_MS : LIVENESS_INTERVAL_MS;
+      this.scheduleHealthCheck(processData, child, next, failures);
+    }, delayMs);
+  }
+
+  /**
+   * Restart a process that exited on its own, if its policy says so. Gives
+   * up, raising 'crashLoop', once it has been restarted maxRetries times in
+   * a row without staying up.
+   */
+  private scheduleRestart(
+    processData: ProcessData,
+    reason: ExitReason,
+    code: number | null,
+    signal: NodeJS.Signals | null
+  ): boolean {
+    const policy = processData.restartPolicy;
+    if (!policy || policy.mode === 'never' || (policy.mode === 'on-failure' && reason !== 'crashed')) {
+      return false;
+    }
+
+    if (Date.now() - processData.startTime.getTime() >= STABLE_RUN_MS) {
+      processData.restarts = 0;
     }
-    return stoppedCount;
+    if (processData.restarts >= policy.maxRetries) {
+      console.warn(`${processData.projectName} keeps exiting, giving up after ${processData.restarts} restart(s)`);
+      this.emit('crashLoop', {
+        id: processData.id,
+        projectName: processData.projectName,
+        target: processData.target,
+        restarts: processData.restarts,
+        code,
+        signal,
+      } as CrashLoop);
+      return false;
+    }
+
+    const delayMs = Math.min((policy.backoffMs ?? DEFAULT_BACKOFF_MS) * 2 ** processData.restarts, MAX_BACKOFF_MS);
+    processData.restarts++;
+    this.setStatus(processData, 'restarting');
+    this.emit('processRestarting', {
+      id: processData.id,
+      attempt: processData.restarts,
+      delayMs,
+      code,
+      signal,
+    } as ProcessRestarting);
+
+    processData.restartTimer = setTimeout(() => {
+      processData.restartTimer = undefined;
+      this.spawnChild(processData);
+    }, delayMs);
+    return true;
   }
 
   /**
-   * Kill any orphaned system processes (electron, node) running from a specific project path
-   * This handles cases where processes were started outside of ProcessManager or weren't properly tracked
+   * SIGTERM to the tree, then SIGKILL if it is still there after the grace
+   * period. Resolves once the tree is gone.
    */
-  async killOrphanedProcesses(projectPath: string): Promise<number> {
-    const isWindows = process.platform === 'win32';
-    let killedCount = 0;
+  private async terminate(processData: ProcessData, gracePeriodMs?: number): Promise<void> {
+    clearTimeout(processData.healthTimer);
+    // Between restarts there is nothing running
+    if (processData.restartTimer) {
+      clearTimeout(processData.restartTimer);
+      processData.restartTimer = undefined;
+      return;
+    }
 
-    try {
-      if (isWindows) {
-        // Use WMIC to find processes with command lines containing the project path
-        const { execSync } = require('child_process');
-        
-        // Normalize path for comparison
-        const normalizedPath = projectPath.replace(/\\/g, '\\\\');
-        
-        // Find and kill electron processes from this project
-        try {
-          const electronProcs = execSync(
-            `wmic process where "name='electron.exe' and CommandLine like '%${normalizedPath}%'" get ProcessId 2>nul`,
-            { encoding: 'utf-8', timeout: 10000 }
-          );
-          const pids = electronProcs.match(/\d+/g) || [];
-          for (const pid of pids) {
-            try {
-              execSync(`taskkill /F /PID ${pid} 2>nul`, { timeout: 5000 });
-              killedCount++;
-            } catch { /* Process may already be gone */ }
-          }
-        } catch { /* No matching processes */ }
-
-        // Also try to kill any node processes from this project
-        try {
-          const nodeProcs = execSync(
-            `wmic process where "name='node.exe' and CommandLine like '%${normalizedPath}%'" get ProcessId 2>nul`,
-            { encoding: 'utf-8', timeout: 10000 }
-          );
-          const pids = nodeProcs.match(/\d+/g) || [];
-          for (const pid of pids) {
-            try {
-              execSync(`taskkill /F /PID ${pid} 2>nul`, { timeout: 5000 });
-              killedCount++;
-            } catch { /* Process may already be gone */ }
-          }
-        } catch { /* No matching processes */ }
+    const child = processData.child;
+    const pid = child?.pid;
+    if (!child || !pid) return;
+
+    signalTree(pid, 'SIGTERM');
+    const grace = gracePeriodMs ?? processData.gracePeriodMs ?? this.gracePeriodMs;
+    if (!(await waitForTreeExit(pid, child, grace))) {
+      console.warn(`${processData.projectName} did not stop within ${grace}ms, killing it`);
+      processData.killed = true;
+      signalTree(pid, 'SIGKILL');
+      await waitForTreeExit(pid, child, KILL_TIMEOUT_MS);
+    }
+  }
+
+  /**
+   * Stop a process and everything it started, or take a queued one off the
+   * queue. Resolves once the tree is gone.
+   */
+  stopProcess(processId: string, gracePeriodMs?: number): Promise<boolean> {
+    const processData = this.processes.get(processId);
+    if (!processData) return Promise.resolve(false);
+    if (processData.stopping) return processData.stopping;
+    const wasQueued = processData.status === 'queued';
+
+    processData.stopping = this.terminate(processData, gracePeriodMs).then(() => {
+      this.setStatus(processData, 'stopped');
+      this.processes.delete(processId);
+      this.emit('processExit', {
+        id: processId,
+        code: processData.child?.exitCode ?? null,
+        signal: processData.child?.signalCode ?? null,
+        reason: processData.killed ? 'killed' : 'stopped',
+      } as ProcessExit);
+      if (wasQueued) {
+        this.updateQueue();
       } else {
-        // Unix-like systems: use pkill or similar
-        const { execSync } = require('child_process');
-        try {
-          execSync(`pkill -f "${projectPath}"`, { timeout: 5000 });
-          killedCount++;
-        } catch { /* No matching processes or pkill failed */ }
+        this.startQueued();
       }
-    } catch (error) {
-      console.error('Error killing orphaned processes:', error);
-    }
+      return true;
+    });
+    return processData.stopping;
+  }
 
-    // Give processes time to fully terminate
-    if (killedCount > 0) {
-      await new Promise(resolve => setTimeout(resolve, 1000));
-    }
+  /**
+   * Stop a process and run its command again, keeping its id and port.
+   * Emits 'processStarted' again, as the new run is logged on its own.
+   */
+  async restartProcess(processId: string): Promise<RunningProcess | null> {
+    const processData = this.processes.get(processId);
+    // A queued process has nothing to restart yet
+    if (!processData || processData.stopping || processData.status === 'queued') return null;
+
+    processData.stopping = this.terminate(processData).then(() => true);
+    await processData.stopping;
+    processData.restarts = 0;
+    this.spawnChild(processData);
+    // A new run, as far as logs and the running list are concerned
+    this.emit('processStarted', toRunningProcess(processData));
+    return toRunningProcess(processData);
+  }
 
-    return killedCount;
+  /**
+   * Send keystrokes to a process, e.g. to answer a prompt
+   */
+  writeInput(processId: string, data: string): boolean {
+    const child = this.processes.get(processId)?.child;
+    if (!child) return false;
+    child.write(data);
+    return true;
   }
 
-  getProcess(processId: string): RunningProcess | null {
-    const data = this.processes.get(processId);
-    if (!data) return null;
+  /**
+   * Match the process's terminal to the size it is shown at
+   */
+  resizeTerminal(processId: string, size: TerminalSize): boolean {
+    const processData = this.processes.get(processId);
+    if (!processData) return false;
+    processData.terminalSize = size;
+    processData.child?.resize(size);
+    return true;
+  }
 
-    return {
-      id: data.id,
-      projectName: data.projectName,
-      command: data.command,
-      port: data.port,
-      pid: data.pid,
-      status: data.status,
-      output: data.output,
-      startTime: data.startTime,
-      type: data.type,
-    };
+  async stopAllProcesses(): Promise<void> {
+    await Promise.all(Array.from(this.processes.keys()).map((id) => this.stopProcess(id)));
   }
 
-  getAllProcesses(): RunningProcess[] {
-    return Array.from(this.processes.values()).map((p) => ({
-      id: p.id,
-      projectName: p.projectName,
-      command: p.command,
-      port: p.port,
-      pid: p.pid,
-      status: p.status,
-      output: p.output,
-      startTime: p.startTime,
-      type: p.type,
-    }));
+  /**
+   * Stop all processes associated with a specific project
+   */
+  async stopProcessesForProject(projectName: string): Promise<number> {
+    const ids = Array.from(this.processes.values())
+      .filter((p) => p.projectName === projectName)
+      .map((p) => p.id);
+    const stopped = await Promise.all(ids.map((id) => this.stopProcess(id)));
+    return stopped.filter(Boolean).length;
   }
 
-  private async findAvailablePort(startPort: number): Promise<number> {
-    const port = await this.checkPort(startPort);
-    if (port === startPort) {
-      return port;
+  /**
+   * Stop every process of a launch group, most recently started first so
+   * dependents go down before the services they use
+   */
+  async stopGroup(group: string): Promise<number> {
+    const members = Array.from(this.processes.values()).filter((p) => p.group === group).reverse();
+    for (const processData of members) {
+      await this.stopProcess(processData.id);
     }
+    return members.length;
+  }
 
-    // If port is in use, try next 100 ports
-    for (let i = 1; i <= 100; i++) {
-      const candidate = startPort + i;
-      const result = await this.checkPort(candidate);
-      if (result === candidate) {
-        return candidate;
-      }
-    }
+  getProcess(processId: string): RunningProcess | null {
+    const data = this.processes.get(processId);
+    return data ? toRunningProcess(data) : null;
+  }
 
-    return startPort;
+  /**
+   * How a process was started, with the port it ended up on
+   */
+  getLaunchSpec(processId: string): LaunchSpec | null {
+    const data = this.processes.get(processId);
+    return data ? { ...data.launch, port: data.port } : null;
   }
 
-  private checkPort(port: number): Promise<number> {
-    return new Promise((resolve) => {
-      const server = net.createServer();
+  getAllProcesses(): RunningProcess[] {
+    return Array.from(this.processes.values()).map(toRunningProcess);
+  }
 
-      server.once('error', (err: any) => {
-        if (err.code === 'EADDRINUSE') {
-          resolve(-1); // Port in use
-        } else {
-          resolve(port);
-        }
-      });
+  /**
+   * Every process, for callers that poll and don't need the output buffer
+   * getAllProcesses copies
+   */
+  getProcessSummaries(): ProcessSummary[] {
+    return Array.from(this.processes.values()).map(({ id, projectName, target, pid }) => ({ id, projectName, target, pid }));
+  }
 
-      server.once('listening', () => {
-        server.close();
-        resolve(port); // Port available
-      });
+  /**
+   * Who is listening on some ports, naming the project where it is a
+   * process started here
+   */
+  async findPortOwners(ports: number[]): Promise<Map<number, PortOwner>> {
+    const owners = await portRegistry.findOwners(ports);
+    for (const [port, owner] of owners) {
+      owners.set(port, this.identifyOwner(owner));
+    }
+    return owners;
+  }
 
-      server.listen(port, '127.0.0.1');
-    });
+  // Processes lead their group, so anything in a tree has its pid as pgid
+  private identifyOwner(owner: PortOwner): PortOwner {
+    const processData = Array.from(this.processes.values()).find(
+      (p) => p.pid !== null && (p.pid === owner.pid || p.pid === owner.pgid)
+    );
+    if (!processData) return owner;
+    return { ...owner, processId: processData.id, projectName: processData.projectName, target: processData.target };
+  }
+
+  /**
+   * Free a port by stopping whatever listens on it: the project when it is
+   * one started here, otherwise the process itself. False when nothing did.
+   */
+  async killPortOwner(port: number): Promise<boolean> {
+    const owner = (await this.findPortOwners([port])).get(port);
+    if (!owner) return false;
+    if (owner.processId) {
+      return this.stopProcess(owner.processId);
+    }
+    console.log(`Stopping ${owner.command || 'process'} (pid ${owner.pid}) to free port ${port}`);
+    await portRegistry.terminate(owner.pid, this.gracePeriodMs);
+    return true;
   }
 }
 
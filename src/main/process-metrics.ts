@@ -0,0 +1,314 @@
+import { EventEmitter } from 'events';
+import { execFile } from 'child_process';
+import fs from 'fs/promises';
+import { ProcessSummary, RingBuffer, processManager } from './process-manager.js';
+import { listeningSockets } from './port-registry.js';
+
+/**
+ * CPU, memory and listening ports of every running process, counting
+ * everything it started: a dev server is usually a shell running npm running
+ * node. Samples are taken while anything runs and kept for a few minutes.
+ */
+
+export interface ResourceSample {
+  id: string;
+  time: number;
+  // Percent of one core, so a busy tree can go over 100
+  cpu: number;
+  // Resident memory in bytes
+  rss: number;
+  ports: number[];
+}
+
+export interface MemoryAlert {
+  id: string;
+  projectName: string;
+  target?: string;
+  rss: number;
+  limit: number;
+}
+
+/**
+ * What a process tree uses. CPU time is cumulative; the sampler turns it
+ * into a percentage between two samples.
+ */
+export interface TreeUsage {
+  cpuSeconds: number;
+  rss: number;
+  ports: number[];
+}
+
+/**
+ * Reads resource usage from the OS. Each platform has its own; others can
+ * be added with registerMetricsProvider.
+ */
+export interface MetricsProvider {
+  // Usage of each tree by root pid; trees that are gone are left out
+  sampleTrees(pids: number[]): Promise<Map<number, TreeUsage>>;
+}
+
+const SAMPLE_INTERVAL_MS = 2000;
+// Samples kept per process: five minutes at the interval above
+const HISTORY_SIZE = 150;
+// Once over the limit, memory has to drop this far below it to alert again
+const ALERT_REARM_RATIO = 0.9;
+
+// Unit of the CPU times in /proc/<pid>/stat when getconf can't tell
+const DEFAULT_CLOCK_TICKS_PER_SECOND = 100;
+
+interface ProcEntry {
+  pid: number;
+  ppid: number;
+  pgid: number;
+  cpuSeconds: number;
+}
+
+/**
+ * Members of each tree: descendants of its root plus whatever is still in
+ * its process group after its parent exited
+ */
+function groupTrees<T extends ProcEntry>(entries: T[], roots: number[]): Map<number, T[]> {
+  const children = new Map<number, T[]>();
+  for (const entry of entries) {
+    const siblings = children.get(entry.ppid) || [];
+    siblings.push(entry);
+    children.set(entry.ppid, siblings);
+  }
+
+  const trees = new Map<number, T[]>();
+  for (const root of roots) {
+    const members = new Map<number, T>();
+    const rootEntry = entries.find((e) => e.pid === root);
+    const pending = rootEntry ? [rootEntry] : [];
+    pending.push(...entries.filter((e) => e.pgid === root));
+    while (pending.length > 0) {
+      const entry = pending.pop()!;
+      if (members.has(entry.pid)) continue;
+      members.set(entry.pid, entry);
+      pending.push(...(children.get(entry.pid) || []));
+    }
+    if (members.size > 0) trees.set(root, Array.from(members.values()));
+  }
+  return trees;
+}
+
+const run = (file: string, args: string[]) =>
+  new Promise<string>((resolve) => {
+    execFile(file, args, { maxBuffer: 8 * 1024 * 1024 }, (_error, stdout) => resolve(stdout || ''));
+  });
+
+// Read once; it doesn't change while the app runs
+let clockTicks: Promise<number> | null = null;
+const clockTicksPerSecond = () =>
+  (clockTicks ??= run('getconf', ['CLK_TCK']).then((out) => Number(out.trim()) || DEFAULT_CLOCK_TICKS_PER_SECOND));
+
+export const procMetricsProvider: MetricsProvider = {
+  async sampleTrees(roots) {
+    const ticksPerSecond = await clockTicksPerSecond();
+    const entries: (ProcEntry & { rss: number })[] = [];
+    for (const name of await fs.readdir('/proc')) {
+      if (!/^\d+$/.test(name)) continue;
+      try {
+        const stat = await fs.readFile(`/proc/${name}/stat`, 'utf-8');
+        // The command name is in parentheses and may contain spaces
+        const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+        entries.push({
+          pid: Number(name),
+          ppid: Number(fields[1]),
+          pgid: Number(fields[2]),
+          cpuSeconds: (Number(fields[11]) + Number(fields[12])) / ticksPerSecond,
+          rss: 0,
+        });
+      } catch {
+        // Exited while we were listing
+      }
+    }
+
+    const trees = groupTrees(entries, roots);
+    const sockets = trees.size > 0 ? await listeningSockets() : new Map<string, number>();
+    const usage = new Map<number, TreeUsage>();
+    for (const [root, members] of trees) {
+      let rss = 0;
+      const ports = new Set<number>();
+      for (const member of members) {
+        const status = await fs.readFile(`/proc/${member.pid}/status`, 'utf-8').catch(() => '');
+        rss += Number(status.match(/^VmRSS:\s+(\d+) kB/m)?.[1] || 0) * 1024;
+
+        const fds = await fs.readdir(`/proc/${member.pid}/fd`).catch(() => [] as string[]);
+        for (const fd of fds) {
+          const link = await fs.readlink(`/proc/${member.pid}/fd/${fd}`).catch(() => '');
+          const port = sockets.get(link.match(/^socket:\[(\d+)\]$/)?.[1] || '');
+          if (port) ports.add(port);
+        }
+      }
+      usage.set(root, {
+        cpuSeconds: members.reduce((sum, m) => sum + m.cpuSeconds, 0),
+        rss,
+        ports: Array.from(ports).sort((a, b) => a - b),
+      });
+    }
+    return usage;
+  },
+};
+
+// ps TIME, [[dd-]hh:]mm:ss.ss
+function parseCpuTime(time: string): number {
+  const [days, rest] = time.includes('-') ? time.split('-') : ['0', time];
+  return rest.split(':').reduce((total, part) => total * 60 + Number(part), 0) + Number(days) * 86400;
+}
+
+/**
+ * macOS and other BSDs, which have no /proc: ps for the tree, lsof for ports
+ */
+export const psMetricsProvider: MetricsProvider = {
+  async sampleTrees(roots) {
+    const entries: (ProcEntry & { rss: number })[] = [];
+    for (const line of (await run('ps', ['-axo', 'pid=,ppid=,pgid=,rss=,time='])).split('\n')) {
+      const [pid, ppid, pgid, rss, time] = line.trim().split(/\s+/);
+      if (!time) continue;
+      entries.push({
+        pid: Number(pid),
+        ppid: Number(ppid),
+        pgid: Number(pgid),
+        rss: Number(rss) * 1024,
+        cpuSeconds: parseCpuTime(time),
+      });
+    }
+
+    const trees = groupTrees(entries, roots);
+    const allPids = Array.from(trees.values()).flat().map((e) => e.pid);
+    // -F pn prints "p<pid>" then "n<address>" for each listening socket
+    const portsByPid = new Map<number, number[]>();
+    if (allPids.length > 0) {
+      let pid = 0;
+      for (const line of (await run('lsof', ['-nP', '-a', '-iTCP', '-sTCP:LISTEN', '-p', allPids.join(','), '-Fpn'])).split('\n')) {
+        if (line.startsWith('p')) pid = Number(line.slice(1));
+        const port = line.startsWith('n') ? Number(line.slice(line.lastIndexOf(':') + 1)) : 0;
+        if (port) portsByPid.set(pid, [...(portsByPid.get(pid) || []), port]);
+      }
+    }
+
+    const usage = new Map<number, TreeUsage>();
+    for (const [root, members] of trees) {
+      const ports = new Set(members.flatMap((m) => portsByPid.get(m.pid) || []));
+      usage.set(root, {
+        cpuSeconds: members.reduce((sum, m) => sum + m.cpuSeconds, 0),
+        rss: members.reduce((sum, m) => sum + m.rss, 0),
+        ports: Array.from(ports).sort((a, b) => a - b),
+      });
+    }
+    return usage;
+  },
+};
+
+const providers: Partial<Record<NodeJS.Platform, MetricsProvider>> = {
+  linux: procMetricsProvider,
+  darwin: psMetricsProvider,
+  freebsd: psMetricsProvider,
+};
+
+export function registerMetricsProvider(platform: NodeJS.Platform, provider: MetricsProvider): void {
+  providers[platform] = provider;
+}
+
+interface Tracked {
+  history: RingBuffer<ResourceSample>;
+  last?: { time: number; cpuSeconds: number };
+  alerted: boolean;
+}
+
+class ProcessMetrics extends EventEmitter {
+  private tracked: Map<string, Tracked> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private memoryLimit: number | null = null;
+
+  constructor() {
+    super();
+    processManager.on('processStarted', () => this.schedule());
+    processManager.on('processExit', ({ id }) => this.tracked.delete(id));
+  }
+
+  /**
+   * Alert when a project's memory goes over this many bytes; null turns alerts off
+   */
+  setMemoryLimit(bytes: number | null): void {
+    this.memoryLimit = bytes && bytes > 0 ? bytes : null;
+    for (const tracked of this.tracked.values()) tracked.alerted = false;
+  }
+
+  /**
+   * Recent samples of every running process, oldest first
+   */
+  getHistory(): Record<string, ResourceSample[]> {
+    const history: Record<string, ResourceSample[]> = {};
+    for (const [id, tracked] of this.tracked) {
+      history[id] = tracked.history.toArray();
+    }
+    return history;
+  }
+
+  // Sample while anything runs; stop once nothing does
+  private schedule(): void {
+    if (this.timer) return;
+    this.timer = setTimeout(async () => {
+      try {
+        await this.sample();
+      } catch (error) {
+        console.error('Error sampling process metrics:', error);
+      }
+      this.timer = null;
+      if (processManager.getProcessSummaries().length > 0) this.schedule();
+    }, SAMPLE_INTERVAL_MS);
+  }
+
+  private async sample(): Promise<void> {
+    const provider = providers[process.platform];
+    const processes = processManager.getProcessSummaries().filter((p) => p.pid);
+    if (!provider || processes.length === 0) return;
+
+    const usage = await provider.sampleTrees(processes.map((p) => p.pid!));
+    const now = Date.now();
+    const samples: ResourceSample[] = [];
+    for (const process of processes) {
+      const tree = usage.get(process.pid!);
+      if (!tree) continue;
+
+      let tracked = this.tracked.get(process.id);
+      if (!tracked) {
+        tracked = { history: new RingBuffer(HISTORY_SIZE), alerted: false };
+        this.tracked.set(process.id, tracked);
+      }
+      // A restart starts a new tree with its own CPU time
+      const previous = tracked.last;
+      const cpu = previous && tree.cpuSeconds >= previous.cpuSeconds
+        ? ((tree.cpuSeconds - previous.cpuSeconds) / ((now - previous.time) / 1000)) * 100
+        : 0;
+      tracked.last = { time: now, cpuSeconds: tree.cpuSeconds };
+
+      const sample: ResourceSample = { id: process.id, time: now, cpu: Math.round(cpu * 10) / 10, rss: tree.rss, ports: tree.ports };
+      tracked.history.push(sample);
+      samples.push(sample);
+      this.checkMemory(process, tracked, tree.rss);
+    }
+
+    if (samples.length > 0) this.emit('sample', samples);
+  }
+
+  private checkMemory(process: ProcessSummary, tracked: Tracked, rss: number): void {
+    if (!this.memoryLimit) return;
+    if (!tracked.alerted && rss > this.memoryLimit) {
+      tracked.alerted = true;
+      this.emit('memoryAlert', {
+        id: process.id,
+        projectName: process.projectName,
+        target: process.target,
+        rss,
+        limit: this.memoryLimit,
+      } as MemoryAlert);
+    } else if (tracked.alerted && rss < this.memoryLimit * ALERT_REARM_RATIO) {
+      tracked.alerted = false;
+    }
+  }
+}
+
+export const processMetrics = new ProcessMetrics();
@@ -2,17 +2,36 @@ import { spawn } from 'child_process';
 import path from 'path';
 import fs from 'fs/promises';
 import { gitOps } from './git-operations';
+import { LocalFileSource, ProjectKind, WorkspacePackage, detectProject } from './project-rules.js';
+import { manifestStore } from './manifest-store.js';
 
 export interface InstallConfig {
+  type?: ProjectKind;
   packageManager: string;
   installCommand: string;
   buildCommand?: string;
   devCommand?: string;
   startCommand?: string;
+  // Port the dev server is configured to use, when the project sets one
+  port?: number;
+  readinessUrl?: string;
+  env?: Record<string, string>;
+  preRun?: string[];
+  manifest?: 'repository' | 'app';
+  manifestErrors?: string[];
+  workspace?: {
+    tools: string[];
+    packages: LocalWorkspacePackage[];
+  };
+}
+
+export interface LocalWorkspacePackage extends WorkspacePackage {
+  // Absolute folder to run the package's commands in
+  cwd: string;
 }
 
 export interface InstallProgress {
-  stage: 'cloning' | 'detecting' | 'installing' | 'complete' | 'error';
+  stage: 'cloning' | 'detecting' | 'installing' | 'preparing' | 'complete' | 'error';
   progress: number;
   message: string;
 }
@@ -21,280 +40,38 @@ type ProgressCallback = (progress: InstallProgress) => void;
 
 class ProjectInstaller {
   /**
-   * Detect project type by analyzing files in the project directory
-   */
-  async detectProjectConfig(projectPath: string): Promise<InstallConfig> {
-    const files = await this.listProjectFiles(projectPath);
-    
-    // Node.js project detection
-    if (files.includes('package.json')) {
-      return await this.detectNodeConfig(projectPath);
-    }
-    
-    // Python project detection
-    if (files.includes('requirements.txt') || files.includes('pyproject.toml') || files.includes('setup.py')) {
-      return await this.detectPythonConfig(projectPath, files);
-    }
-    
-    // Rust project detection
-    if (files.includes('Cargo.toml')) {
-      return {
-        packageManager: 'cargo',
-        installCommand: 'cargo build',
-        buildCommand: 'cargo build --release',
-        startCommand: 'cargo run',
-      };
-    }
-    
-    // Go project detection
-    if (files.includes('go.mod')) {
-      return {
-        packageManager: 'go',
-        installCommand: 'go mod download',
-        buildCommand: 'go build',
-        startCommand: 'go run .',
-      };
-    }
-    
-    // .NET project detection
-    if (files.some(f => f.endsWith('.csproj') || f.endsWith('.sln'))) {
-      return {
-        packageManager: 'dotnet',
-        installCommand: 'dotnet restore',
-        buildCommand: 'dotnet build',
-        startCommand: 'dotnet run',
-      };
-    }
-    
-    // Java/Maven detection
-    if (files.includes('pom.xml')) {
-      return {
-        packageManager: 'maven',
-        installCommand: 'mvn install -DskipTests',
-        buildCommand: 'mvn package',
-        startCommand: 'mvn exec:java',
-      };
-    }
-    
-    // Java/Gradle detection
-    if (files.includes('build.gradle') || files.includes('build.gradle.kts')) {
-      const isWindows = process.platform === 'win32';
-      const gradle = isWindows ? 'gradlew.bat' : './gradlew';
-      return {
-        packageManager: 'gradle',
-        installCommand: `${gradle} build -x test`,
-        buildCommand: `${gradle} build`,
-        startCommand: `${gradle} run`,
-      };
-    }
-    
-    // Ruby/Bundler detection
-    if (files.includes('Gemfile')) {
-      return {
-        packageManager: 'bundler',
-        installCommand: 'bundle install',
-        startCommand: 'bundle exec ruby main.rb',
-      };
-    }
-    
-    // PHP/Composer detection
-    if (files.includes('composer.json')) {
-      return {
-        packageManager: 'composer',
-        installCommand: 'composer install',
-        startCommand: 'php artisan serve',  // Assuming Laravel, fallback for others
-      };
-    }
-    
-    // Default fallback
-    return {
-      packageManager: 'unknown',
-      installCommand: '',
-    };
-  }
-
-  /**
-   * Detect Node.js specific configuration
-   */
-  private async detectNodeConfig(projectPath: string): Promise<InstallConfig> {
-    const packageJsonPath = path.join(projectPath, 'package.json');
-    const content = await fs.readFile(packageJsonPath, 'utf-8');
-    const packageJson = JSON.parse(content);
-    
-    // Detect package manager from lockfiles or packageManager field
-    let packageManager = 'npm';
-    const files = await this.listProjectFiles(projectPath);
-    
-    if (packageJson.packageManager?.startsWith('pnpm')) {
-      packageManager = 'pnpm';
-    } else if (packageJson.packageManager?.startsWith('yarn')) {
-      packageManager = 'yarn';
-    } else if (files.includes('pnpm-lock.yaml')) {
-      packageManager = 'pnpm';
-    } else if (files.includes('yarn.lock')) {
-      packageManager = 'yarn';
-    } else if (files.includes('bun.lockb')) {
-      packageManager = 'bun';
-    }
-    
-    const scripts = packageJson.scripts || {};
-    
-    return {
-      packageManager,
-      installCommand: `${packageManager} install`,
-      buildCommand: scripts.build ? `${packageManager} run build` : undefined,
-      devCommand: scripts.dev ? `${packageManager} run dev` : undefined,
-      startCommand: scripts.start ? `${packageManager} run start` : 
-                   scripts.dev ? `${packageManager} run dev` : undefined,
-    };
-  }
-
-  /**
-   * Detect Python specific configuration
+   * Detect project type by analyzing files in the project directory.
+   * Uses the same rules as remote detection, so a cloned project is
+   * configured the way it was classified before cloning. A manifest saved
+   * in the app's config for projectKey overrides the repository's own.
    */
-  private async detectPythonConfig(projectPath: string, files: string[]): Promise<InstallConfig> {
-    // Determine package manager and install command
-    let packageManager = 'pip';
-    let installCommand = '';
-    let runPrefix = 'python';
-
-    if (files.includes('pyproject.toml')) {
-      try {
-        const content = await fs.readFile(path.join(projectPath, 'pyproject.toml'), 'utf-8');
-        if (content.includes('[tool.poetry]')) {
-          packageManager = 'poetry';
-          installCommand = 'poetry install';
-          runPrefix = 'poetry run python';
-        } else {
-          installCommand = 'pip install -e .';
-        }
-      } catch {
-        installCommand = 'pip install -e .';
-      }
-    } else if (files.includes('requirements.txt')) {
-      installCommand = 'pip install -r requirements.txt';
-    } else if (files.includes('setup.py')) {
-      installCommand = 'pip install -e .';
-    }
-
-    // Try to find the actual entry point
-    const startCommand = await this.detectPythonEntryPoint(projectPath, files, runPrefix);
-
+  async detectProjectConfig(projectPath: string, projectKey?: string): Promise<InstallConfig> {
+    const detection = await detectProject(new LocalFileSource(projectPath), {
+      manifest: projectKey ? manifestStore.get(projectKey) : null,
+    });
     return {
-      packageManager,
-      installCommand,
-      startCommand,
+      type: detection.type,
+      packageManager: detection.packageManager,
+      installCommand: detection.installCommand,
+      buildCommand: detection.buildCommand,
+      devCommand: detection.devCommand,
+      startCommand: detection.startCommand,
+      port: detection.port,
+      readinessUrl: detection.readinessUrl,
+      env: detection.env,
+      preRun: detection.preRun,
+      manifest: detection.manifest,
+      manifestErrors: detection.manifestErrors,
+      workspace: detection.workspace && {
+        tools: detection.workspace.tools,
+        packages: detection.workspace.packages.map((pkg) => ({
+          ...pkg,
+          cwd: path.join(projectPath, ...pkg.path.split('/')),
+        })),
+      },
     };
   }
 
-  /**
-   * Detect the Python entry point by looking for common patterns
-   */
-  private async detectPythonEntryPoint(projectPath: string, files: string[], runPrefix: string): Promise<string | undefined> {
-    // Common Python entry point file names in order of priority
-    const commonEntryPoints = [
-      'main.py',
-      'app.py', 
-      'run.py',
-      'start.py',
-      'server.py',
-      '__main__.py',
-      'cli.py',
-      'manage.py',  // Django
-    ];
-
-    // Check for common entry point files
-    for (const entryPoint of commonEntryPoints) {
-      if (files.includes(entryPoint)) {
-        // Special case for Django's manage.py
-        if (entryPoint === 'manage.py') {
-          return `${runPrefix} manage.py runserver`;
-        }
-        return `${runPrefix} ${entryPoint}`;
-      }
-    }
-
-    // Check pyproject.toml for scripts/entry points
-    if (files.includes('pyproject.toml')) {
-      try {
-        const content = await fs.readFile(path.join(projectPath, 'pyproject.toml'), 'utf-8');
-        
-        // Look for [project.scripts] or [tool.poetry.scripts]
-        const scriptsMatch = content.match(/\[(?:project\.scripts|tool\.poetry\.scripts)\]([\s\S]*?)(?:\[|$)/);
-        if (scriptsMatch) {
-          const scriptsSection = scriptsMatch[1];
-          const firstScript = scriptsSection.match(/(\w+)\s*=/);
-          if (firstScript) {
-            // If using poetry, the script will be available after install
-            if (runPrefix.includes('poetry')) {
-              return `poetry run ${firstScript[1]}`;
-            }
-            return firstScript[1];
-          }
-        }
-      } catch {
-        // Ignore errors reading pyproject.toml
-      }
-    }
-
-    // Check setup.py for console_scripts
-    if (files.includes('setup.py')) {
-      try {
-        const content = await fs.readFile(path.join(projectPath, 'setup.py'), 'utf-8');
-        const entryPointsMatch = content.match(/entry_points\s*=\s*\{[\s\S]*?['"]console_scripts['"]\s*:\s*\[([\s\S]*?)\]/);
-        if (entryPointsMatch) {
-          const scriptMatch = entryPointsMatch[1].match(/['"](\w+)\s*=/);
-          if (scriptMatch) {
-            return scriptMatch[1];
-          }
-        }
-      } catch {
-        // Ignore errors reading setup.py
-      }
-    }
-
-    // Look for any .py file in the root that might be an entry point
-    const pythonFiles = files.filter(f => f.endsWith('.py') && !f.startsWith('_') && f !== 'setup.py' && f !== 'conftest.py');
-    
-    // Check if any Python file has a if __name__ == "__main__" block
-    for (const pyFile of pythonFiles) {
-      try {
-        const content = await fs.readFile(path.join(projectPath, pyFile), 'utf-8');
-        if (content.includes('if __name__') && content.includes('__main__')) {
-          return `${runPrefix} ${pyFile}`;
-        }
-      } catch {
-        // Ignore errors reading individual files
-      }
-    }
-
-    // Check for a package with __main__.py inside
-    const projectName = path.basename(projectPath).toLowerCase().replace(/-/g, '_');
-    try {
-      const subFiles = await fs.readdir(path.join(projectPath, projectName));
-      if (subFiles.includes('__main__.py')) {
-        return `${runPrefix} -m ${projectName}`;
-      }
-    } catch {
-      // Package directory doesn't exist
-    }
-
-    // No entry point found - return undefined so we don't try to run a non-existent file
-    return undefined;
-  }
-
-  /**
-   * List files in project root directory
-   */
-  private async listProjectFiles(projectPath: string): Promise<string[]> {
-    try {
-      const entries = await fs.readdir(projectPath, { withFileTypes: true });
-      return entries.map(e => e.name);
-    } catch {
-      return [];
-    }
-  }
-
   /**
    * Full installation process: clone + detect + install
    */
@@ -334,12 +111,22 @@ class ProjectInstaller {
         message: 'Detecting project type...',
       });
 
-      const config = await this.detectProjectConfig(projectPath);
+      const config = await this.detectProjectConfig(projectPath, repoName);
+
+      for (const manifestError of config.manifestErrors || []) {
+        onProgress({
+          stage: 'detecting',
+          progress: 48,
+          message: `Ignoring invalid .localgithub.json: ${manifestError}`,
+        });
+      }
 
       onProgress({
         stage: 'detecting',
         progress: 50,
-        message: `Detected ${config.packageManager} project`,
+        message: config.manifest
+          ? `Using .localgithub.json from the ${config.manifest === 'app' ? 'app config' : 'repository'}`
+          : `Detected ${config.packageManager} project`,
       });
 
       if (!config.installCommand) {
@@ -364,7 +151,7 @@ class ProjectInstaller {
           progress: 70,
           message: output,
         });
-      });
+      }, config.env);
 
       onProgress({
         stage: 'complete',
@@ -384,10 +171,30 @@ class ProjectInstaller {
     }
   }
 
+  /**
+   * Run commands one after another, stopping at the first that fails
+   */
+  async runSteps(
+    steps: string[],
+    cwd: string,
+    onOutput: (output: string) => void,
+    env?: Record<string, string>
+  ): Promise<void> {
+    for (const step of steps) {
+      onOutput(`$ ${step}`);
+      await this.runCommand(step, cwd, onOutput, env);
+    }
+  }
+
   /**
    * Run a command in the project directory
    */
-  private runCommand(command: string, cwd: string, onOutput: (output: string) => void): Promise<void> {
+  private runCommand(
+    command: string,
+    cwd: string,
+    onOutput: (output: string) => void,
+    env?: Record<string, string>
+  ): Promise<void> {
     return new Promise((resolve, reject) => {
       const isWindows = process.platform === 'win32';
       const shell = isWindows ? 'cmd.exe' : '/bin/sh';
@@ -395,7 +202,7 @@ class ProjectInstaller {
 
       const proc = spawn(shell, [shellFlag, command], {
         cwd,
-        env: { ...process.env },
+        env: { ...process.env, ...env },
       });
 
       proc.stdout.on('data', (data) => {
@@ -0,0 +1,184 @@
+/**
+ * `.localgithub.json`: a per-project manifest that overrides detection when
+ * the heuristics get a project wrong. It can live in the repository root or
+ * in the app's config (see ManifestStore); the app's copy wins.
+ */
+
+export const MANIFEST_FILE = '.localgithub.json';
+
+export interface ManifestService {
+  name: string;
+  command: string;
+  // Folder relative to the project root
+  cwd?: string;
+  port?: number;
+  env?: Record<string, string>;
+  // Services started, and ready, before this one
+  dependsOn?: string[];
+  // Path that answers once the service is ready; otherwise its port is checked
+  healthCheck?: string;
+}
+
+export interface ProjectManifest {
+  $schema?: string;
+  install?: string;
+  build?: string;
+  dev?: string;
+  start?: string;
+  port?: number;
+  env?: Record<string, string>;
+  // Commands run in order before the dev/start command, e.g. migrations
+  preRun?: string[];
+  services?: ManifestService[];
+}
+
+type JsonSchema = {
+  type?: 'object' | 'array' | 'string' | 'integer';
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  required?: string[];
+  items?: JsonSchema;
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+  description?: string;
+};
+
+const PORT_SCHEMA: JsonSchema = { type: 'integer', minimum: 1, maximum: 65535 };
+const COMMAND_SCHEMA: JsonSchema = { type: 'string', minLength: 1 };
+const ENV_SCHEMA: JsonSchema = { type: 'object', additionalProperties: { type: 'string' } };
+
+export const MANIFEST_SCHEMA: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    $schema: { type: 'string' },
+    install: { ...COMMAND_SCHEMA, description: 'Installs dependencies after cloning' },
+    build: { ...COMMAND_SCHEMA, description: 'Builds the project' },
+    dev: { ...COMMAND_SCHEMA, description: 'Starts the development server; preferred by Run' },
+    start: { ...COMMAND_SCHEMA, description: 'Starts the project when there is no dev command' },
+    port: { ...PORT_SCHEMA, description: 'Port the dev/start command listens on' },
+    env: { ...ENV_SCHEMA, description: 'Environment variables for every command' },
+    preRun: {
+      type: 'array',
+      items: COMMAND_SCHEMA,
+      description: 'Commands run in order before dev/start',
+    },
+    services: {
+      type: 'array',
+      description: 'Processes that can be started separately, e.g. a frontend and an API',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['name', 'command'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          command: COMMAND_SCHEMA,
+          cwd: { type: 'string' },
+          port: PORT_SCHEMA,
+          env: ENV_SCHEMA,
+          dependsOn: {
+            type: 'array',
+            items: { type: 'string', minLength: 1 },
+            description: 'Services that must be ready before this one starts',
+          },
+          healthCheck: {
+            type: 'string',
+            minLength: 1,
+            description: 'Path that answers once the service is ready, e.g. /health',
+          },
+        },
+      },
+    },
+  },
+};
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+// Supports the subset of JSON Schema that MANIFEST_SCHEMA uses
+function validate(value: unknown, schema: JsonSchema, at: string, errors: string[]): void {
+  if (schema.type && typeOf(value) !== schema.type) {
+    errors.push(`${at}: expected ${schema.type}, got ${typeOf(value)}`);
+    return;
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push(`${at}: must not be empty`);
+  }
+
+  if (typeof value === 'number') {
+    if ((schema.minimum !== undefined && value < schema.minimum) ||
+        (schema.maximum !== undefined && value > schema.maximum)) {
+      errors.push(`${at}: must be between ${schema.minimum} and ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => validate(item, schema.items as JsonSchema, `${at}[${index}]`, errors));
+  }
+
+  if (schema.type === 'object' && value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in record)) errors.push(`${at}: missing required property "${key}"`);
+    }
+    for (const [key, child] of Object.entries(record)) {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        validate(child, childSchema, `${at}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${at}: unknown property "${key}"`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        validate(child, schema.additionalProperties, `${at}.${key}`, errors);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a manifest against MANIFEST_SCHEMA. Returns the problems found,
+ * each prefixed with the path of the offending value.
+ */
+export function validateManifest(value: unknown): string[] {
+  const errors: string[] = [];
+  validate(value, MANIFEST_SCHEMA, 'manifest', errors);
+
+  const services = Array.isArray((value as ProjectManifest)?.services) ? (value as ProjectManifest).services! : [];
+  const names = new Set<string>();
+  for (const service of services) {
+    if (typeof service?.name !== 'string') continue;
+    if (names.has(service.name)) errors.push(`manifest.services: duplicate service name "${service.name}"`);
+    names.add(service.name);
+  }
+  services.forEach((service, index) => {
+    if (!Array.isArray(service?.dependsOn)) return;
+    for (const dependency of service.dependsOn) {
+      if (dependency === service.name) {
+        errors.push(`manifest.services[${index}].dependsOn: a service cannot depend on itself`);
+      } else if (typeof dependency === 'string' && !names.has(dependency)) {
+        errors.push(`manifest.services[${index}].dependsOn: unknown service "${dependency}"`);
+      }
+    }
+  });
+  return errors;
+}
+
+/**
+ * Parse and validate manifest file contents.
+ */
+export function parseManifest(content: string): { manifest: ProjectManifest | null; errors: string[] } {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (error) {
+    return { manifest: null, errors: [`${MANIFEST_FILE}: invalid JSON (${(error as Error).message})`] };
+  }
+
+  const errors = validateManifest(value);
+  return { manifest: errors.length === 0 ? (value as ProjectManifest) : null, errors };
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { FRAMEWORK_CATALOG, matchFramework } from './framework-catalog';
+import { ProjectFileSource, detectProject } from './project-rules';
+
+/**
+ * A project held in memory: file paths mapped to their contents.
+ */
+function memorySource(files: Record<string, string>): ProjectFileSource {
+  return {
+    name: 'fixture',
+    listFiles: async () => Object.keys(files),
+    readFile: async (relativePath) => files[relativePath] ?? null,
+  };
+}
+
+const packageJson = (...dependencies: string[]) => ({
+  'package.json': JSON.stringify({
+    name: 'fixture',
+    dependencies: Object.fromEntries(dependencies.map((name) => [name, '*'])),
+  }),
+});
+
+/**
+ * A minimal project for each catalog entry, with the dependencies such a
+ * project really has, so an entry listed too late loses to the library it
+ * builds on (Next.js apps also depend on React, NestJS on Express).
+ */
+const FIXTURES: Record<string, Record<string, string>> = {
+  'Next.js': packageJson('next', 'react', 'react-dom'),
+  Nuxt: packageJson('nuxt', 'vue'),
+  SvelteKit: packageJson('@sveltejs/kit', 'svelte', 'vite'),
+  Remix: packageJson('@remix-run/dev', '@remix-run/react', 'react', 'react-dom', 'vite'),
+  Astro: packageJson('astro', 'vite'),
+  Angular: packageJson('@angular/core', '@angular/common'),
+  NestJS: packageJson('@nestjs/core', '@nestjs/platform-express', 'express'),
+  Vite: packageJson('vite', 'react', 'react-dom'),
+  React: packageJson('react', 'react-dom', 'react-scripts'),
+  Vue: packageJson('vue', '@vue/cli-service'),
+  Express: packageJson('express'),
+  Fastify: packageJson('fastify'),
+  Hapi: packageJson('@hapi/hapi'),
+  Django: { 'requirements.txt': 'Django>=4.2\npsycopg2-binary\n', 'manage.py': '' },
+  FastAPI: { 'pyproject.toml': '[project]\nname = "fixture"\ndependencies = ["fastapi", "uvicorn"]\n' },
+  Flask: {
+    'pyproject.toml': '[tool.poetry]\nname = "fixture"\n\n[tool.poetry.dependencies]\npython = "^3.11"\nflask = "^3.0"\n',
+  },
+  'Spring Boot': {
+    'pom.xml': '<project><parent><artifactId>spring-boot-starter-parent</artifactId></parent></project>',
+  },
+  Rails: { Gemfile: "source 'https://rubygems.org'\ngem 'rails', '~> 7.1'\n" },
+  Laravel: { 'composer.json': JSON.stringify({ require: { 'laravel/framework': '^11.0' } }), artisan: '' },
+};
+
+describe('framework detection', () => {
+  it('has a fixture for every catalog entry', () => {
+    expect(Object.keys(FIXTURES).sort()).toEqual(FRAMEWORK_CATALOG.map((entry) => entry.name).sort());
+  });
+
+  it.each(FRAMEWORK_CATALOG.map((entry) => [entry.name, entry] as const))('detects %s', async (name, entry) => {
+    const detection = await detectProject(memorySource(FIXTURES[name]));
+
+    expect(detection.framework).toBe(name);
+    expect(detection.type).toBe(entry.type);
+    expect(detection.port).toBe(entry.port);
+  });
+
+  it('prefers meta-frameworks over the UI libraries they build on', () => {
+    const match = (...dependencies: string[]) => matchFramework('node', new Set(dependencies), [])?.name;
+
+    expect(match('next', 'react')).toBe('Next.js');
+    expect(match('nuxt', 'vue')).toBe('Nuxt');
+    expect(match('@sveltejs/kit', 'vite')).toBe('SvelteKit');
+    expect(match('@remix-run/dev', 'vite', 'react')).toBe('Remix');
+    expect(match('astro', 'vite')).toBe('Astro');
+    expect(match('vite', 'react')).toBe('Vite');
+    expect(match('vite', 'vue')).toBe('Vite');
+    expect(match('@nestjs/core', 'express')).toBe('NestJS');
+  });
+
+  it('lists Vite after every meta-framework', () => {
+    const index = (name: string) => FRAMEWORK_CATALOG.findIndex((entry) => entry.name === name);
+
+    for (const name of ['Next.js', 'Nuxt', 'SvelteKit', 'Remix', 'Astro']) {
+      expect(index(name)).toBeLessThan(index('Vite'));
+    }
+    expect(index('Vite')).toBeLessThan(index('React'));
+  });
+});
+
+describe('pyproject.toml dependencies', () => {
+  const detectPyproject = async (content: string) =>
+    (await detectProject(memorySource({ 'pyproject.toml': content }))).framework;
+
+  it('reads a multi-line PEP 621 array with extras and comments', async () => {
+    const content = [
+      '[project]',
+      'name = "fixture"',
+      'dependencies = [',
+      '  # The API',
+      '  "fastapi[all]>=0.110",',
+      "  'uvicorn[standard]',",
+      ']',
+    ].join('\n');
+
+    expect(await detectPyproject(content)).toBe('FastAPI');
+  });
+
+  it('ignores keys that are not dependencies', async () => {
+    const content = [
+      '[project]',
+      'name = "fixture"',
+      'dependencies = ["fastapi"]',
+      '',
+      '[project.optional-dependencies]',
+      'django = ["django-extensions"]',
+      '',
+      '[tool.poetry.scripts]',
+      'flask = "fixture.cli:main"',
+    ].join('\n');
+
+    expect(await detectPyproject(content)).toBe('FastAPI');
+  });
+
+  it('finds no framework from settings alone', async () => {
+    const content = '[project]\nname = "django"\nversion = "1.0"\n\n[tool.flask]\nflask = true\n';
+
+    expect(await detectPyproject(content)).toBe('Python');
+  });
+});
@@ -0,0 +1,1004 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { FrameworkEcosystem, frameworkDevCommand, matchFramework } from './framework-catalog.js';
+import { MANIFEST_FILE, ProjectManifest, parseManifest } from './project-manifest.js';
+
+/**
+ * Project classification shared by remote detection (before cloning, from
+ * the repository's git tree) and local detection (after cloning, from the
+ * working copy). Both read files through a ProjectFileSource and run the same
+ * ordered rules, so a repository is classified the same way in both places.
+ */
+
+export type ProjectKind = 'frontend' | 'backend' | 'fullstack' | 'unknown';
+
+export interface DetectedScripts {
+  dev?: string;
+  build?: string;
+  start?: string;
+  test?: string;
+  server?: string;
+  client?: string;
+  [key: string]: string | undefined;
+}
+
+/**
+ * A package of a monorepo that can be run on its own.
+ */
+export interface WorkspacePackage {
+  name: string;
+  // Folder relative to the project root, '/'-separated; '' for the root itself
+  path: string;
+  type: ProjectKind;
+  framework?: string;
+  port?: number;
+  // URL that answers once the dev server is up
+  readinessUrl?: string;
+  scripts: DetectedScripts;
+  buildCommand?: string;
+  devCommand?: string;
+  startCommand?: string;
+  env?: Record<string, string>;
+  // Packages that must be up before this one starts, e.g. the API a client calls
+  dependsOn?: string[];
+  // Path the manifest says answers with a 2xx once the package is ready
+  healthCheck?: string;
+}
+
+export interface WorkspaceInfo {
+  // Tools that declare the workspace, e.g. ['pnpm', 'turbo']
+  tools: string[];
+  packages: WorkspacePackage[];
+}
+
+export interface ProjectDetection {
+  type: ProjectKind;
+  framework?: string;
+  language: string;
+  packageManager: string;
+  port?: number;
+  // URL that answers once the dev server is up
+  readinessUrl?: string;
+  scripts: DetectedScripts;
+  installCommand: string;
+  buildCommand?: string;
+  devCommand?: string;
+  startCommand?: string;
+  workspace?: WorkspaceInfo;
+  env?: Record<string, string>;
+  preRun?: string[];
+  // Where the manifest that overrode detection came from
+  manifest?: 'repository' | 'app';
+  // Problems with the repository's manifest, which was ignored because of them
+  manifestErrors?: string[];
+}
+
+export interface ProjectFileSource {
+  /** Folder or repository name, used to find a package named after the project */
+  readonly name: string;
+  /** Every file, as a '/'-separated path relative to the project root */
+  listFiles(): Promise<string[]>;
+  /** File contents, or null when the file doesn't exist or can't be read */
+  readFile(relativePath: string): Promise<string | null>;
+}
+
+// Dependency, build output and tooling folders never affect classification
+const IGNORED_DIRS = new Set([
+  'node_modules',
+  '.git',
+  'dist',
+  'build',
+  'out',
+  'target',
+  'vendor',
+  'venv',
+  '.venv',
+  '__pycache__',
+  '.next',
+  '.nuxt',
+  'coverage',
+  'bin',
+  'obj',
+]);
+
+// Folders this deep and files past this count are left out, locally and remotely
+const MAX_DEPTH = 6;
+const MAX_FILES = 20000;
+
+export function isIgnoredPath(relativePath: string): boolean {
+  return relativePath.split('/').slice(0, -1).some((segment) => IGNORED_DIRS.has(segment));
+}
+
+/**
+ * The files detection looks at: ignored folders, folders nested deeper than
+ * MAX_DEPTH and files beyond the first MAX_FILES are dropped, so a remote
+ * tree is cut off where a local walk would stop.
+ */
+function projectFiles(files: string[]): string[] {
+  return files
+    .filter((f) => f.split('/').length - 1 <= MAX_DEPTH && !isIgnoredPath(f))
+    .slice(0, MAX_FILES);
+}
+
+/**
+ * Files of a local working copy.
+ */
+export class LocalFileSource implements ProjectFileSource {
+  readonly name: string;
+  private files: string[] | null = null;
+
+  constructor(private projectPath: string) {
+    this.name = path.basename(projectPath);
+  }
+
+  async listFiles(): Promise<string[]> {
+    if (!this.files) {
+      const files: string[] = [];
+      await this.walk('', 0, files);
+      this.files = files;
+    }
+    return this.files;
+  }
+
+  private async walk(relativeDir: string, depth: number, files: string[]): Promise<void> {
+    if (depth > MAX_DEPTH || files.length >= MAX_FILES) return;
+
+    let entries;
+    try {
+      entries = await fs.readdir(path.join(this.projectPath, relativeDir), { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRS.has(entry.name)) {
+          await this.walk(relativePath, depth + 1, files);
+        }
+      } else if (files.length < MAX_FILES) {
+        files.push(relativePath);
+      }
+    }
+  }
+
+  async readFile(relativePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(path.join(this.projectPath, ...relativePath.split('/')), 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+}
+
+interface RuleContext {
+  source: ProjectFileSource;
+  files: string[];
+  // Files directly in the project root
+  rootFiles: string[];
+  readJson(relativePath: string): Promise<any | null>;
+}
+
+interface DetectionRule {
+  id: string;
+  matches(ctx: RuleContext): boolean;
+  detect(ctx: RuleContext): Promise<ProjectDetection>;
+}
+
+// Scripts for ecosystems without a package.json, derived from the commands
+function commandScripts(detection: Omit<ProjectDetection, 'scripts'>): DetectedScripts {
+  return {
+    dev: detection.devCommand,
+    build: detection.buildCommand,
+    start: detection.startCommand,
+  };
+}
+
+function withScripts(detection: Omit<ProjectDetection, 'scripts'>): ProjectDetection {
+  return { ...detection, scripts: commandScripts(detection) };
+}
+
+interface PortSource {
+  // Path relative to the package folder
+  matches(relativePath: string): boolean;
+  parse(content: string): number | undefined;
+}
+
+const VALID_PORT = (port: number) => port > 0 && port < 65536;
+
+function firstPort(content: string, pattern: RegExp): number | undefined {
+  const port = Number(content.match(pattern)?.[1]);
+  return VALID_PORT(port) ? port : undefined;
+}
+
+function angularPort(content: string): number | undefined {
+  try {
+    const projects = JSON.parse(content).projects || {};
+    for (const project of Object.values<any>(projects)) {
+      const serve = project.architect?.serve || project.targets?.serve;
+      const port = Number(serve?.options?.port);
+      if (VALID_PORT(port)) return port;
+    }
+  } catch {
+    // Not valid JSON; fall through to the next source
+  }
+  return undefined;
+}
+
+function launchSettingsPort(content: string): number | undefined {
+  try {
+    const profiles = JSON.parse(content).profiles || {};
+    for (const profile of Object.values<any>(profiles)) {
+      const url = String(profile.applicationUrl || '').split(';').find((u) => u.startsWith('http://'));
+      const port = url ? firstPort(url, /:(\d{2,5})/) : undefined;
+      if (port) return port;
+    }
+  } catch {
+    // Not valid JSON; fall through to the next source
+  }
+  return undefined;
+}
+
+const isFile = (...paths: string[]) => (relativePath: string) => paths.includes(relativePath);
+
+/**
+ * Where frameworks keep their dev server port, most specific first. Ports set
+ * in the run script itself take precedence over all of these.
+ */
+const PORT_SOURCES: PortSource[] = [
+  {
+    matches: (p) => /^vite\.config\.[cm]?[jt]s$/.test(p),
+    parse: (content) => firstPort(content, /server\s*:\s*\{[^}]*?\bport\s*:\s*(\d{2,5})/),
+  },
+  { matches: isFile('angular.json'), parse: angularPort },
+  {
+    matches: (p) => /^next\.config\.[cm]?[jt]s$/.test(p),
+    parse: (content) => firstPort(content, /\bport\s*:\s*(\d{2,5})/),
+  },
+  { matches: (p) => p.endsWith('Properties/launchSettings.json'), parse: launchSettingsPort },
+  {
+    matches: isFile('src/main/resources/application.properties'),
+    parse: (content) => firstPort(content, /^server\.port\s*=\s*(\d{2,5})/m),
+  },
+  {
+    matches: isFile('.flaskenv'),
+    parse: (content) => firstPort(content, /^FLASK_RUN_PORT\s*=\s*['"]?(\d{2,5})/m),
+  },
+  {
+    // Flask's app.run(port=...) and uvicorn.run(..., port=...)
+    matches: isFile('app.py', 'main.py', 'run.py', 'server.py', 'wsgi.py', 'asgi.py'),
+    parse: (content) => firstPort(content, /\.run\([^)]*\bport\s*=\s*(\d{2,5})/),
+  },
+  {
+    matches: isFile('.env.development.local', '.env.local', '.env.development', '.env'),
+    parse: (content) => firstPort(content, /^PORT\s*=\s*['"]?(\d{2,5})/m),
+  },
+];
+
+/**
+ * The port a package's dev server will bind, read from its run command and
+ * config files. Undefined when nothing sets one, so callers can fall back to
+ * the framework default.
+ */
+async function detectPort(ctx: RuleContext, dir: string, runScript?: string): Promise<number | undefined> {
+  const fromScript = runScript && firstPort(runScript, /(?:--port[= ]|-p\s+|\bPORT=|runserver\s+(?:[\w.]+:)?)(\d{2,5})\b/);
+  if (fromScript) return fromScript;
+
+  const prefix = dir ? `${dir}/` : '';
+  const candidates = ctx.files
+    .filter((f) => f.startsWith(prefix))
+    .map((f) => f.slice(prefix.length));
+
+  for (const source of PORT_SOURCES) {
+    for (const file of candidates.filter((f) => source.matches(f)).sort()) {
+      const content = await ctx.source.readFile(prefix + file);
+      const port = content ? source.parse(content) : undefined;
+      if (port) return port;
+    }
+  }
+  return undefined;
+}
+
+function detectNodePackageManager(packageJson: any, rootFiles: string[]): string {
+  if (packageJson.packageManager?.startsWith('pnpm')) return 'pnpm';
+  if (packageJson.packageManager?.startsWith('yarn')) return 'yarn';
+  if (rootFiles.includes('pnpm-lock.yaml') || rootFiles.includes('pnpm-workspace.yaml')) return 'pnpm';
+  if (rootFiles.includes('yarn.lock')) return 'yarn';
+  if (rootFiles.includes('bun.lockb')) return 'bun';
+  return 'npm';
+}
+
+interface FrameworkClassification {
+  type: ProjectKind;
+  framework?: string;
+  // Framework default, used when no config file sets a port
+  port?: number;
+  readinessPath?: string;
+  devCommand?: string;
+}
+
+const readinessUrl = (port: number | undefined, readinessPath: string | undefined) =>
+  port && readinessPath ? `http://localhost:${port}${readinessPath}` : undefined;
+
+function classifyFramework(
+  ecosystem: FrameworkEcosystem,
+  dependencies: Set<string>,
+  rootFiles: string[]
+): FrameworkClassification | undefined {
+  const entry = matchFramework(ecosystem, dependencies, rootFiles);
+  if (!entry) return undefined;
+  return {
+    type: entry.type,
+    framework: entry.name,
+    port: entry.port,
+    readinessPath: entry.readinessPath,
+    devCommand: frameworkDevCommand(entry, rootFiles),
+  };
+}
+
+function classifyNodeProject(packageJson: any): FrameworkClassification {
+  const dependencies = new Set([
+    ...Object.keys(packageJson.dependencies || {}),
+    ...Object.keys(packageJson.devDependencies || {}),
+  ]);
+  return classifyFramework('node', dependencies, []) || { type: 'backend', port: 3000, readinessPath: '/' };
+}
+
+// The lines of a TOML table, up to the next table header
+function tomlTable(content: string, name: string): string {
+  const lines: string[] = [];
+  let inTable = false;
+  for (const line of content.split(/\r?\n/)) {
+    const header = line.match(/^\s*\[\[?\s*([\w.\-"' ]+?)\s*\]\]?\s*(#.*)?$/);
+    if (header) {
+      inTable = header[1] === name;
+    } else if (inTable) {
+      lines.push(line);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Packages a pyproject.toml depends on: the PEP 621 `[project]`
+ * dependencies array and the keys of `[tool.poetry.dependencies]`. Other
+ * keys (name, version, tool settings) are not dependencies.
+ */
+function pyprojectDependencies(content: string): string[] {
+  const names: string[] = [];
+
+  // Strings of the array, which may span lines and carry comments
+  const array = tomlTable(content, 'project').match(
+    /^\s*dependencies\s*=\s*\[((?:"[^"]*"|'[^']*'|#[^\n]*|[\s,])*)\]/m
+  );
+  for (const match of array?.[1].matchAll(/"([^"]*)"|'([^']*)'/g) ?? []) {
+    const name = (match[1] ?? match[2]).match(/^\s*([A-Za-z0-9][A-Za-z0-9_.-]*)/)?.[1];
+    if (name) names.push(name);
+  }
+
+  for (const match of tomlTable(content, 'tool.poetry.dependencies').matchAll(
+    /^\s*["']?([A-Za-z0-9][A-Za-z0-9_.-]*)["']?\s*=/gm
+  )) {
+    // The Python version constraint sits among the packages
+    if (match[1].toLowerCase() !== 'python') names.push(match[1]);
+  }
+  return names;
+}
+
+// Dependency names declared by a project's manifests, per ecosystem
+async function collectDependencies(ctx: RuleContext, ecosystem: FrameworkEcosystem): Promise<Set<string>> {
+  const names = new Set<string>();
+  const read = async (file: string) => (ctx.rootFiles.includes(file) ? (await ctx.source.readFile(file)) || '' : '');
+  const addMatches = (content: string, pattern: RegExp) => {
+    for (const match of content.matchAll(pattern)) names.add(match[1].toLowerCase());
+  };
+
+  switch (ecosystem) {
+    case 'python':
+      // Requirement lines, PEP 621 dependency strings and Poetry table keys
+      addMatches(await read('requirements.txt'), /^\s*([A-Za-z0-9][A-Za-z0-9_.-]*)/gm);
+      for (const name of pyprojectDependencies(await read('pyproject.toml'))) names.add(name.toLowerCase());
+      addMatches(await read('Pipfile'), /^\s*["']?([A-Za-z0-9][A-Za-z0-9_.-]*)\s*=/gm);
+      break;
+    case 'java':
+      addMatches(await read('pom.xml'), /<artifactId>\s*([^<\s]+)\s*<\/artifactId>/g);
+      for (const gradleFile of ['build.gradle', 'build.gradle.kts']) {
+        const content = await read(gradleFile);
+        addMatches(content, /['"][\w.-]+:([\w.-]+)(?::[^'"]*)?['"]/g);
+        addMatches(content, /\bid\s*\(?\s*['"]([\w.-]+)['"]/g);
+      }
+      break;
+    case 'ruby':
+      addMatches(await read('Gemfile'), /^\s*gem\s+['"]([\w-]+)['"]/gm);
+      break;
+    case 'php': {
+      const composer = await ctx.readJson('composer.json');
+      for (const name of Object.keys({ ...composer?.require, ...composer?.['require-dev'] })) {
+        names.add(name.toLowerCase());
+      }
+      break;
+    }
+  }
+  return names;
+}
+
+function nodeCommands(packageManager: string, scripts: Record<string, string>, frameworkDevCommand?: string) {
+  return {
+    buildCommand: scripts.build ? `${packageManager} run build` : undefined,
+    devCommand: scripts.dev ? `${packageManager} run dev` : frameworkDevCommand,
+    startCommand: scripts.start ? `${packageManager} run start` :
+                 scripts.dev ? `${packageManager} run dev` : undefined,
+  };
+}
+
+// Turborepo and Nx don't have to declare package globs; these are their conventions
+const DEFAULT_WORKSPACE_GLOBS = ['apps/*', 'packages/*', 'libs/*'];
+
+// Each package costs a request when detecting remotely
+const MAX_WORKSPACE_PACKAGES = 50;
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .replace(/^\.\//, '')
+    .replace(/\/+$/, '')
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*/g, '\0')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\0/g, '.*');
+  return new RegExp(`^${pattern}$`);
+}
+
+// The `packages:` list of pnpm-workspace.yaml, without pulling in a YAML parser
+function parsePnpmWorkspace(content: string): string[] {
+  const globs: string[] = [];
+  let inPackages = false;
+  for (const line of content.split(/\r?\n/)) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (!inPackages) continue;
+    const item = line.match(/^\s*-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/);
+    if (item) {
+      globs.push(item[1]);
+    } else if (/^\S/.test(line)) {
+      break;
+    }
+  }
+  return globs;
+}
+
+async function detectWorkspaceGlobs(ctx: RuleContext, packageJson: any): Promise<{ tools: string[]; globs: string[] }> {
+  const tools: string[] = [];
+  const globs: string[] = [];
+
+  if (ctx.rootFiles.includes('pnpm-workspace.yaml')) {
+    tools.push('pnpm');
+    globs.push(...parsePnpmWorkspace((await ctx.source.readFile('pnpm-workspace.yaml')) || ''));
+  }
+
+  const workspaces = Array.isArray(packageJson.workspaces) ? packageJson.workspaces : packageJson.workspaces?.packages;
+  if (Array.isArray(workspaces)) {
+    tools.push('workspaces');
+    globs.push(...workspaces);
+  }
+
+  if (ctx.rootFiles.includes('lerna.json')) {
+    tools.push('lerna');
+    const lerna = await ctx.readJson('lerna.json');
+    if (Array.isArray(lerna?.packages)) globs.push(...lerna.packages);
+  }
+
+  if (ctx.rootFiles.includes('turbo.json')) tools.push('turbo');
+  if (ctx.rootFiles.includes('nx.json')) tools.push('nx');
+
+  if (tools.length > 0 && globs.length === 0) {
+    globs.push(...DEFAULT_WORKSPACE_GLOBS);
+  }
+  return { tools, globs };
+}
+
+async function detectWorkspace(
+  ctx: RuleContext,
+  packageJson: any,
+  packageManager: string
+): Promise<WorkspaceInfo | undefined> {
+  const { tools, globs } = await detectWorkspaceGlobs(ctx, packageJson);
+  if (tools.length === 0) return undefined;
+
+  const include = globs.filter((g) => !g.startsWith('!')).map(globToRegExp);
+  const exclude = globs.filter((g) => g.startsWith('!')).map((g) => globToRegExp(g.slice(1)));
+  const matches = (dir: string) => include.some((re) => re.test(dir)) && !exclude.some((re) => re.test(dir));
+
+  // Package folders hold a package.json, or only a project.json for Nx projects
+  const manifests = new Map<string, 'package.json' | 'project.json'>();
+  for (const file of ctx.files) {
+    const slash = file.lastIndexOf('/');
+    if (slash === -1) continue;
+    const dir = file.slice(0, slash);
+    const base = file.slice(slash + 1);
+    if (!matches(dir)) continue;
+    if (base === 'package.json') {
+      manifests.set(dir, 'package.json');
+    } else if (base === 'project.json' && !manifests.has(dir)) {
+      manifests.set(dir, 'project.json');
+    }
+  }
+
+  const packages: WorkspacePackage[] = [];
+  const dirs = Array.from(manifests.keys()).sort().slice(0, MAX_WORKSPACE_PACKAGES);
+  for (const dir of dirs) {
+    const manifest = await ctx.readJson(`${dir}/${manifests.get(dir)}`);
+    if (!manifest) continue;
+    const fallbackName = dir.split('/').pop() || dir;
+
+    if (manifests.get(dir) === 'package.json') {
+      const scripts = manifest.scripts || {};
+      const { type, framework, port, readinessPath, devCommand } = classifyNodeProject(manifest);
+      const packagePort = (await detectPort(ctx, dir, scripts.dev || scripts.start)) ?? port;
+      packages.push({
+        name: manifest.name || fallbackName,
+        path: dir,
+        type,
+        framework,
+        port: packagePort,
+        readinessUrl: readinessUrl(packagePort, readinessPath),
+        scripts,
+        ...nodeCommands(packageManager, scripts, devCommand),
+      });
+    } else {
+      // Nx targets run through the Nx CLI from the workspace root
+      const name = manifest.name || fallbackName;
+      const targets = Object.keys(manifest.targets || {});
+      const nxTarget = (target: string) => (targets.includes(target) ? `npx nx run ${name}:${target}` : undefined);
+      packages.push({
+        name,
+        path: '',
+        type: manifest.projectType === 'application' ? 'frontend' : 'unknown',
+        scripts: Object.fromEntries(targets.map((target) => [target, `nx run ${name}:${target}`])),
+        buildCommand: nxTarget('build'),
+        devCommand: nxTarget('serve') || nxTarget('dev'),
+        startCommand: nxTarget('serve') || nxTarget('start'),
+      });
+    }
+  }
+
+  return { tools, packages };
+}
+
+// A workspace root rarely depends on a framework itself; describe it by its packages
+function classifyWorkspace(packages: WorkspacePackage[]): ProjectKind {
+  const kinds = new Set(packages.map((p) => p.type));
+  if (kinds.has('fullstack') || (kinds.has('frontend') && kinds.has('backend'))) return 'fullstack';
+  if (kinds.has('frontend')) return 'frontend';
+  return 'backend';
+}
+
+const nodeRule: DetectionRule = {
+  id: 'node',
+  matches: (ctx) => ctx.rootFiles.includes('package.json'),
+  async detect(ctx) {
+    const packageJson = (await ctx.readJson('package.json')) || {};
+    const packageManager = detectNodePackageManager(packageJson, ctx.rootFiles);
+    const scripts = packageJson.scripts || {};
+    const workspace = await detectWorkspace(ctx, packageJson, packageManager);
+
+    let classification = classifyNodeProject(packageJson);
+    if (workspace && workspace.packages.length > 0 && !classification.framework) {
+      classification = { type: classifyWorkspace(workspace.packages) };
+    }
+    const port = (await detectPort(ctx, '', scripts.dev || scripts.start)) ?? classification.port;
+
+    return {
+      type: classification.type,
+      framework: classification.framework,
+      port,
+      readinessUrl: readinessUrl(port, classification.readinessPath),
+      language: 'JavaScript/TypeScript',
+      packageManager,
+      scripts: {
+        dev: scripts.dev,
+        build: scripts.build,
+        start: scripts.start,
+        test: scripts.test,
+        ...scripts,
+      },
+      installCommand: `${packageManager} install`,
+      ...nodeCommands(packageManager, scripts, classification.devCommand),
+      workspace,
+    };
+  },
+};
+
+// Common Python entry point file names in order of priority
+const PYTHON_ENTRY_POINTS = ['main.py', 'app.py', 'run.py', 'start.py', 'server.py', '__main__.py', 'cli.py', 'manage.py'];
+
+// Reading every root .py file is cheap locally but costs a request each remotely
+const MAX_PYTHON_FILES_SCANNED = 10;
+
+async function detectPythonEntryPoint(ctx: RuleContext, runPrefix: string): Promise<string | undefined> {
+  for (const entryPoint of PYTHON_ENTRY_POINTS) {
+    if (ctx.rootFiles.includes(entryPoint)) {
+      // Special case for Django's manage.py
+      if (entryPoint === 'manage.py') {
+        return `${runPrefix} manage.py runserver`;
+      }
+      return `${runPrefix} ${entryPoint}`;
+    }
+  }
+
+  // Look for [project.scripts] or [tool.poetry.scripts]
+  if (ctx.rootFiles.includes('pyproject.toml')) {
+    const content = await ctx.source.readFile('pyproject.toml');
+    const scriptsMatch = content?.match(/\[(?:project\.scripts|tool\.poetry\.scripts)\]([\s\S]*?)(?:\[|$)/);
+    const firstScript = scriptsMatch?.[1].match(/(\w+)\s*=/);
+    if (firstScript) {
+      // If using poetry, the script will be available after install
+      return runPrefix.includes('poetry') ? `poetry run ${firstScript[1]}` : firstScript[1];
+    }
+  }
+
+  // Check setup.py for console_scripts
+  if (ctx.rootFiles.includes('setup.py')) {
+    const content = await ctx.source.readFile('setup.py');
+    const entryPointsMatch = content?.match(/entry_points\s*=\s*\{[\s\S]*?['"]console_scripts['"]\s*:\s*\[([\s\S]*?)\]/);
+    const scriptMatch = entryPointsMatch?.[1].match(/['"](\w+)\s*=/);
+    if (scriptMatch) {
+      return scriptMatch[1];
+    }
+  }
+
+  // Any root module with an if __name__ == "__main__" block
+  const pythonFiles = ctx.rootFiles
+    .filter((f) => f.endsWith('.py') && !f.startsWith('_') && f !== 'setup.py' && f !== 'conftest.py')
+    .slice(0, MAX_PYTHON_FILES_SCANNED);
+  for (const pyFile of pythonFiles) {
+    const content = await ctx.source.readFile(pyFile);
+    if (content?.includes('if __name__') && content.includes('__main__')) {
+      return `${runPrefix} ${pyFile}`;
+    }
+  }
+
+  // A package named after the project with __main__.py inside
+  const packageName = ctx.source.name.toLowerCase().replace(/-/g, '_');
+  if (ctx.files.includes(`${packageName}/__main__.py`)) {
+    return `${runPrefix} -m ${packageName}`;
+  }
+
+  // No entry point found - return undefined so we don't try to run a non-existent file
+  return undefined;
+}
+
+const pythonRule: DetectionRule = {
+  id: 'python',
+  matches: (ctx) => ['requirements.txt', 'pyproject.toml', 'setup.py'].some((f) => ctx.rootFiles.includes(f)),
+  async detect(ctx) {
+    let packageManager = 'pip';
+    let installCommand = '';
+    let runPrefix = 'python';
+
+    if (ctx.rootFiles.includes('pyproject.toml')) {
+      const content = await ctx.source.readFile('pyproject.toml');
+      if (content?.includes('[tool.poetry]')) {
+        packageManager = 'poetry';
+        installCommand = 'poetry install';
+        runPrefix = 'poetry run python';
+      } else {
+        installCommand = 'pip install -e .';
+      }
+    } else if (ctx.rootFiles.includes('requirements.txt')) {
+      installCommand = 'pip install -r requirements.txt';
+    } else if (ctx.rootFiles.includes('setup.py')) {
+      installCommand = 'pip install -e .';
+    }
+
+    const startCommand = await detectPythonEntryPoint(ctx, runPrefix);
+    const classification = classifyFramework('python', await collectDependencies(ctx, 'python'), ctx.rootFiles);
+    const devCommand = classification?.devCommand &&
+      (packageManager === 'poetry' ? `poetry run ${classification.devCommand}` : classification.devCommand);
+    const port = (await detectPort(ctx, '', devCommand || startCommand)) ?? classification?.port ?? 5000;
+
+    return withScripts({
+      type: 'backend',
+      framework: classification?.framework || 'Python',
+      language: 'Python',
+      packageManager,
+      port,
+      readinessUrl: readinessUrl(port, classification?.readinessPath || '/'),
+      installCommand,
+      devCommand,
+      startCommand,
+    });
+  },
+};
+
+// Ecosystems detected from a single marker file with fixed commands, refined
+// by the framework catalog for ecosystems that have entries there
+function markerRule(
+  id: string,
+  matches: (rootFiles: string[]) => boolean,
+  detection: () => Omit<ProjectDetection, 'scripts' | 'type'> & { type?: ProjectKind },
+  ecosystem?: FrameworkEcosystem
+): DetectionRule {
+  return {
+    id,
+    matches: (ctx) => matches(ctx.rootFiles),
+    detect: async (ctx) => {
+      const result = detection();
+      const classification = ecosystem &&
+        classifyFramework(ecosystem, await collectDependencies(ctx, ecosystem), ctx.rootFiles);
+      const devCommand = classification?.devCommand ?? result.devCommand;
+      const port = (await detectPort(ctx, '', devCommand || result.startCommand)) ?? classification?.port ?? result.port;
+
+      return withScripts({
+        type: classification?.type || 'backend',
+        ...result,
+        framework: classification?.framework ?? result.framework,
+        port,
+        readinessUrl: readinessUrl(port, classification?.readinessPath || '/'),
+        devCommand,
+      });
+    },
+  };
+}
+
+/**
+ * Ordered rules; the first one that matches classifies the project.
+ */
+const RULES: DetectionRule[] = [
+  nodeRule,
+  pythonRule,
+  markerRule('rust', (files) => files.includes('Cargo.toml'), () => ({
+    language: 'Rust',
+    packageManager: 'cargo',
+    installCommand: 'cargo build',
+    buildCommand: 'cargo build --release',
+    startCommand: 'cargo run',
+  })),
+  markerRule('go', (files) => files.includes('go.mod'), () => ({
+    language: 'Go',
+    packageManager: 'go',
+    installCommand: 'go mod download',
+    buildCommand: 'go build',
+    startCommand: 'go run .',
+  })),
+  markerRule('dotnet', (files) => files.some((f) => f.endsWith('.csproj') || f.endsWith('.sln')), () => ({
+    language: 'C#',
+    packageManager: 'dotnet',
+    installCommand: 'dotnet restore',
+    buildCommand: 'dotnet build',
+    startCommand: 'dotnet run',
+  })),
+  markerRule('maven', (files) => files.includes('pom.xml'), () => ({
+    language: 'Java',
+    packageManager: 'maven',
+    installCommand: 'mvn install -DskipTests',
+    buildCommand: 'mvn package',
+    startCommand: 'mvn exec:java',
+  }), 'java'),
+  markerRule('gradle', (files) => files.includes('build.gradle') || files.includes('build.gradle.kts'), () => {
+    const gradle = process.platform === 'win32' ? 'gradlew.bat' : './gradlew';
+    return {
+      language: 'Java',
+      packageManager: 'gradle',
+      installCommand: `${gradle} build -x test`,
+      buildCommand: `${gradle} build`,
+      startCommand: `${gradle} run`,
+    };
+  }, 'java'),
+  markerRule('ruby', (files) => files.includes('Gemfile'), () => ({
+    language: 'Ruby',
+    packageManager: 'bundler',
+    installCommand: 'bundle install',
+    startCommand: 'bundle exec ruby main.rb',
+  }), 'ruby'),
+  markerRule('php', (files) => files.includes('composer.json'), () => ({
+    language: 'PHP',
+    packageManager: 'composer',
+    installCommand: 'composer install',
+    port: 8000,
+    startCommand: 'php -S localhost:8000', // Laravel projects run artisan serve instead
+  }), 'php'),
+];
+
+/**
+ * Classify a project and work out how to install, build and run it.
+ */
+async function detectWithRules(ctx: RuleContext): Promise<ProjectDetection> {
+  for (const rule of RULES) {
+    if (rule.matches(ctx)) {
+      return rule.detect(ctx);
+    }
+  }
+
+  return {
+    type: 'unknown',
+    language: 'unknown',
+    packageManager: 'unknown',
+    scripts: {},
+    installCommand: '',
+  };
+}
+
+function createContext(source: ProjectFileSource, files: string[]): RuleContext {
+  return {
+    source,
+    files,
+    rootFiles: files.filter((f) => !f.includes('/')),
+    readJson: async (relativePath) => {
+      const content = await source.readFile(relativePath);
+      if (!content) return null;
+      try {
+        return JSON.parse(content);
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+// Conventional folders of a project split into a client and a server
+const SERVICE_FOLDERS: Record<string, 'frontend' | 'backend'> = {
+  client: 'frontend',
+  frontend: 'frontend',
+  web: 'frontend',
+  server: 'backend',
+  backend: 'backend',
+  api: 'backend',
+};
+
+// Root scripts that run one side, e.g. "server", "dev:client" or "start:api"
+const SERVICE_SCRIPT = /^(?:(?:dev|start)[:-])?(client|frontend|web|server|backend|api)$/;
+
+/**
+ * Find the frontend and backend of a project that isn't a declared
+ * workspace: conventional folders (client/ and server/, frontend/ and
+ * backend/, ...) detected on their own, or else root scripts that start each
+ * side. Frontends depend on the backends so they start once an API is up.
+ */
+async function detectServices(ctx: RuleContext, root: ProjectDetection): Promise<WorkspaceInfo | undefined> {
+  let tools: string[] = [];
+  let packages: WorkspacePackage[] = [];
+
+  for (const [folder, role] of Object.entries(SERVICE_FOLDERS)) {
+    const prefix = `${folder}/`;
+    const files = ctx.files.filter((f) => f.startsWith(prefix)).map((f) => f.slice(prefix.length));
+    if (files.length === 0) continue;
+
+    const subSource: ProjectFileSource = {
+      name: folder,
+      listFiles: async () => files,
+      readFile: (relativePath) => ctx.source.readFile(`${prefix}${relativePath}`),
+    };
+    const detection = await detectWithRules(createContext(subSource, files));
+    const runCommand = detection.devCommand || detection.startCommand;
+    if (!runCommand) continue;
+
+    packages.push({
+      name: folder,
+      path: folder,
+      type: role,
+      framework: detection.framework,
+      port: detection.port,
+      readinessUrl: detection.readinessUrl,
+      scripts: detection.scripts,
+      buildCommand: detection.buildCommand,
+      devCommand: detection.devCommand,
+      startCommand: detection.startCommand,
+    });
+  }
+  if (packages.length > 0) tools = ['folders'];
+
+  if (!packages.some((p) => p.type === 'frontend') || !packages.some((p) => p.type === 'backend')) {
+    tools = ['scripts'];
+    packages = [];
+    for (const [script, command] of Object.entries(root.scripts)) {
+      const side = command && script.match(SERVICE_SCRIPT)?.[1];
+      if (!side || packages.some((p) => p.name === side)) continue;
+      packages.push({
+        name: side,
+        path: '',
+        type: SERVICE_FOLDERS[side],
+        scripts: { dev: command },
+        devCommand: `${root.packageManager} run ${script}`,
+      });
+    }
+  }
+
+  const backends = packages.filter((p) => p.type === 'backend').map((p) => p.name);
+  if (backends.length === 0 || backends.length === packages.length) return undefined;
+
+  return {
+    tools,
+    packages: packages.map((p) => (p.type === 'frontend' ? { ...p, dependsOn: backends } : p)),
+  };
+}
+
+const normalizeFolder = (folder: string | undefined) =>
+  (folder || '').replace(/\\/g, '/').replace(/^\.(\/|$)/, '').replace(/\/+$/, '');
+
+/**
+ * Overlay a manifest on detected settings; anything it declares wins.
+ */
+function applyManifest(detection: ProjectDetection, manifest: ProjectManifest): ProjectDetection {
+  const port = manifest.port ?? detection.port;
+  const readinessPath = detection.readinessUrl ? new URL(detection.readinessUrl).pathname : '/';
+
+  const result: ProjectDetection = {
+    ...detection,
+    port,
+    readinessUrl: readinessUrl(port, readinessPath),
+    installCommand: manifest.install ?? detection.installCommand,
+    buildCommand: manifest.build ?? detection.buildCommand,
+    devCommand: manifest.dev ?? detection.devCommand,
+    startCommand: manifest.start ?? detection.startCommand,
+    env: manifest.env,
+    preRun: manifest.preRun,
+  };
+  result.scripts = {
+    ...detection.scripts,
+    ...(manifest.dev && { dev: manifest.dev }),
+    ...(manifest.build && { build: manifest.build }),
+    ...(manifest.start && { start: manifest.start }),
+  };
+
+  if (manifest.services?.length) {
+    result.workspace = {
+      tools: [MANIFEST_FILE],
+      packages: manifest.services.map((service) => ({
+        name: service.name,
+        path: normalizeFolder(service.cwd),
+        type: 'unknown',
+        port: service.port,
+        readinessUrl: readinessUrl(service.port, service.healthCheck || '/'),
+        scripts: { dev: service.command },
+        devCommand: service.command,
+        env: { ...manifest.env, ...service.env },
+        dependsOn: service.dependsOn,
+        healthCheck: service.healthCheck,
+      })),
+    };
+  }
+  return result;
+}
+
+export interface DetectOptions {
+  // Manifest from the app's config; takes the place of the repository's own
+  manifest?: ProjectManifest | null;
+}
+
+/**
+ * Classify a project and work out how to install, build and run it. A
+ * `.localgithub.json` manifest, from the app's config or the repository,
+ * overrides what the rules detect.
+ */
+export async function detectProject(source: ProjectFileSource, options: DetectOptions = {}): Promise<ProjectDetection> {
+  const files = projectFiles(await source.listFiles());
+  const ctx = createContext(source, files);
+
+  let detection = await detectWithRules(ctx);
+  if (!detection.workspace) {
+    const services = await detectServices(ctx, detection);
+    if (services) {
+      detection = {
+        ...detection,
+        type: detection.type === 'unknown' ? classifyWorkspace(services.packages) : detection.type,
+        workspace: services,
+      };
+    }
+  }
+
+  if (options.manifest) {
+    return { ...applyManifest(detection, options.manifest), manifest: 'app' };
+  }
+
+  if (ctx.rootFiles.includes(MANIFEST_FILE)) {
+    const { manifest, errors } = parseManifest((await source.readFile(MANIFEST_FILE)) || '');
+    if (!manifest) {
+      return { ...detection, manifestErrors: errors };
+    }
+    return { ...applyManifest(detection, manifest), manifest: 'repository' };
+  }
+
+  return detection;
+}
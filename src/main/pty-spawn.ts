@@ -0,0 +1,160 @@
+import { ChildProcess, spawn } from 'child_process';
+import os from 'os';
+import type { IPty } from 'node-pty';
+
+/**
+ * Run a command under a pseudo-terminal, so it behaves as it does in a
+ * shell: colors, progress output and prompts that wait for an answer. Falls
+ * back to plain pipes when node-pty isn't built for this platform.
+ */
+
+export interface TerminalSize {
+  cols: number;
+  rows: number;
+}
+
+export interface SpawnedCommand {
+  readonly pid: number | undefined;
+  // Both null until the command exits, as on a ChildProcess
+  readonly exitCode: number | null;
+  readonly signalCode: NodeJS.Signals | null;
+  // Whether it runs under a pseudo-terminal
+  readonly tty: boolean;
+  write(data: string): void;
+  resize(size: TerminalSize): void;
+}
+
+export interface SpawnHandlers {
+  // A pseudo-terminal has one stream; everything arrives as stdout
+  onData: (text: string, stream: 'stdout' | 'stderr') => void;
+  onExit: (code: number | null, signal: NodeJS.Signals | null) => void;
+  onError: (error: Error) => void;
+}
+
+export interface SpawnOptions {
+  cwd: string;
+  env?: Record<string, string>;
+  size: TerminalSize;
+}
+
+const isWindows = process.platform === 'win32';
+
+// CSI sequences (colors, cursor movement, erasing) and OSC ones (window titles, links)
+const ANSI_SEQUENCE = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[()][0-9A-Za-z]|\x1b[=>78]/g;
+
+/**
+ * Terminal output as plain text, for matching and for logs
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_SEQUENCE, '');
+}
+
+let ptyModule: typeof import('node-pty') | null | undefined;
+
+function loadPty(): typeof import('node-pty') | null {
+  if (ptyModule === undefined) {
+    try {
+      ptyModule = require('node-pty');
+    } catch (error) {
+      console.warn(`Pseudo-terminals are unavailable, running commands with pipes: ${(error as Error).message}`);
+      ptyModule = null;
+    }
+  }
+  return ptyModule ?? null;
+}
+
+// node-pty reports signals by number
+const signalName = (signal: number): NodeJS.Signals | null =>
+  (Object.entries(os.constants.signals).find(([, number]) => number === signal)?.[0] as NodeJS.Signals) || null;
+
+export function spawnCommand(command: string, options: SpawnOptions, handlers: SpawnHandlers): SpawnedCommand {
+  const pty = loadPty();
+  return pty ? spawnPty(pty, command, options, handlers) : spawnPiped(command, options, handlers);
+}
+
+function spawnPty(
+  pty: typeof import('node-pty'),
+  command: string,
+  { cwd, env, size }: SpawnOptions,
+  handlers: SpawnHandlers
+): SpawnedCommand {
+  const shell = isWindows ? process.env.ComSpec || 'cmd.exe' : '/bin/sh';
+  const args = isWindows ? ['/d', '/s', '/c', command] : ['-c', command];
+
+  let exitCode: number | null = null;
+  let signalCode: NodeJS.Signals | null = null;
+  let term: IPty;
+  try {
+    // Unix ptys start a new session, so the command leads its own process group
+    term = pty.spawn(shell, args, {
+      name: 'xterm-256color',
+      cols: size.cols,
+      rows: size.rows,
+      cwd,
+      env: { ...process.env, ...env },
+    });
+  } catch (error) {
+    // Report it the way a failed spawn() does, after the caller has set up
+    setImmediate(() => handlers.onError(error as Error));
+    return { pid: undefined, exitCode: null, signalCode: null, tty: true, write: () => {}, resize: () => {} };
+  }
+
+  term.onData((data) => handlers.onData(data, 'stdout'));
+  term.onExit(({ exitCode: code, signal }) => {
+    signalCode = signal ? signalName(signal) : null;
+    exitCode = signalCode ? null : code;
+    handlers.onExit(exitCode, signalCode);
+  });
+
+  return {
+    pid: term.pid,
+    get exitCode() {
+      return exitCode;
+    },
+    get signalCode() {
+      return signalCode;
+    },
+    tty: true,
+    write: (data) => {
+      if (exitCode === null && signalCode === null) term.write(data);
+    },
+    resize: ({ cols, rows }) => {
+      if (exitCode === null && signalCode === null) term.resize(cols, rows);
+    },
+  };
+}
+
+function spawnPiped(command: string, { cwd, env }: SpawnOptions, handlers: SpawnHandlers): SpawnedCommand {
+  const [executable, ...args] = command.split(' ');
+  const child: ChildProcess = spawn(executable, args, {
+    cwd,
+    env: { ...process.env, ...env },
+    stdio: ['pipe', 'pipe', 'pipe'],
+    shell: true,
+    // Lead a new process group, so stopping reaches what the shell starts
+    detached: !isWindows,
+  });
+
+  child.stdout?.on('data', (data) => handlers.onData(data.toString(), 'stdout'));
+  child.stderr?.on('data', (data) => handlers.onData(data.toString(), 'stderr'));
+  child.on('exit', (code, signal) => handlers.onExit(code, signal));
+  child.on('error', (error) => handlers.onError(error));
+  // Writing after it exited isn't worth crashing over
+  child.stdin?.on('error', () => {});
+
+  return {
+    pid: child.pid,
+    get exitCode() {
+      return child.exitCode;
+    },
+    get signalCode() {
+      return child.signalCode;
+    },
+    tty: false,
+    write: (data) => {
+      child.stdin?.write(data);
+    },
+    // Pipes have no size
+    resize: () => {},
+  };
+}
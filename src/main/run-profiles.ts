@@ -0,0 +1,180 @@
+import { app } from 'electron';
+import path from 'path';
+import fs from 'fs';
+import { InstallConfig } from './project-installer.js';
+import { RestartPolicy } from './process-manager.js';
+import { ReadinessProbe } from './health-probes.js';
+
+export interface RunProfile {
+  id: string;
+  name: string;
+  command: string;
+  // Appended to the command
+  args?: string;
+  // Folder relative to the project root
+  cwd?: string;
+  env?: Record<string, string>;
+  port?: number;
+  // What to do when the process exits on its own
+  restart?: RestartPolicy;
+  // When the process counts as ready; its port accepting connections by default
+  readiness?: ReadinessProbe;
+}
+
+interface ProjectProfiles {
+  // Unset until the user saves their own; detected profiles are offered instead
+  profiles?: RunProfile[];
+  selectedId?: string;
+}
+
+export interface ProfileList {
+  profiles: RunProfile[];
+  selectedId: string | null;
+  // False when the profiles are the detected defaults, not saved ones
+  saved: boolean;
+}
+
+/**
+ * Profiles offered for a project nobody has configured yet, derived from
+ * detection (and its manifest).
+ */
+export function detectedProfiles(config: InstallConfig): RunProfile[] {
+  const readiness = detectedReadiness(config);
+  const profiles: RunProfile[] = [];
+  if (config.devCommand) {
+    profiles.push({ id: 'detected-dev', name: 'dev', command: config.devCommand, port: config.port, readiness });
+  }
+  if (config.startCommand && config.startCommand !== config.devCommand) {
+    profiles.push({ id: 'detected-start', name: 'start', command: config.startCommand, port: config.port, readiness });
+  }
+  if (config.buildCommand && config.startCommand) {
+    profiles.push({
+      id: 'detected-build-start',
+      name: 'build + start',
+      command: `${config.buildCommand} && ${config.startCommand}`,
+      port: config.port,
+      readiness,
+    });
+  }
+  return profiles;
+}
+
+/**
+ * Probe the framework's readiness path when it is one that answers with a
+ * page; an API's root often doesn't, so backends are only checked for their
+ * port.
+ */
+function detectedReadiness(config: InstallConfig): ReadinessProbe {
+  if (!config.readinessUrl) return { type: 'tcp' };
+  const { pathname } = new URL(config.readinessUrl);
+  if (config.type === 'backend' && pathname === '/') return { type: 'tcp' };
+  return { type: 'http', path: pathname };
+}
+
+function validateProfile(profile: RunProfile): void {
+  if (!profile.name?.trim()) {
+    throw new Error('Every run profile needs a name');
+  }
+  if (!profile.command?.trim()) {
+    throw new Error(`Run profile "${profile.name}" has no command`);
+  }
+  if (profile.port !== undefined && (!Number.isInteger(profile.port) || profile.port < 1 || profile.port > 65535)) {
+    throw new Error(`Run profile "${profile.name}" has an invalid port`);
+  }
+  if (profile.cwd && path.isAbsolute(profile.cwd)) {
+    throw new Error(`Run profile "${profile.name}" must use a folder inside the project`);
+  }
+  if (profile.readiness?.type === 'output') {
+    try {
+      new RegExp(profile.readiness.pattern);
+    } catch {
+      throw new Error(`Run profile "${profile.name}" has an invalid output pattern`);
+    }
+  }
+  if (profile.restart) {
+    const { mode, maxRetries } = profile.restart;
+    if (!['never', 'on-failure', 'always'].includes(mode)) {
+      throw new Error(`Run profile "${profile.name}" has an unknown restart policy "${mode}"`);
+    }
+    if (!Number.isInteger(maxRetries) || maxRetries < 0 || maxRetries > 100) {
+      throw new Error(`Run profile "${profile.name}" must retry between 0 and 100 times`);
+    }
+  }
+}
+
+/**
+ * Named run configurations per project, keyed by project key (see
+ * AccountManager.getProjectKey).
+ */
+class RunProfileStore {
+  private storePath: string;
+  private projects: Record<string, ProjectProfiles>;
+
+  constructor() {
+    this.storePath = path.join(app.getPath('userData'), 'run-profiles.json');
+    this.projects = this.load();
+  }
+
+  private load(): Record<string, ProjectProfiles> {
+    try {
+      if (fs.existsSync(this.storePath)) {
+        return JSON.parse(fs.readFileSync(this.storePath, 'utf-8'));
+      }
+    } catch (error) {
+      console.warn('Invalid run profiles file, ignoring it:', error);
+    }
+    return {};
+  }
+
+  private save(): void {
+    try {
+      fs.writeFileSync(this.storePath, JSON.stringify(this.projects, null, 2), 'utf-8');
+    } catch (error) {
+      console.error('Failed to save run profiles:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The project's profiles, or the detected ones when none are saved
+   */
+  list(projectKey: string, detected: RunProfile[]): ProfileList {
+    const entry = this.projects[projectKey] || {};
+    const profiles = entry.profiles || detected;
+    const selected = profiles.find((p) => p.id === entry.selectedId) || profiles[0];
+    return { profiles, selectedId: selected?.id || null, saved: Boolean(entry.profiles) };
+  }
+
+  /**
+   * Replace the project's profiles. Saving an empty list goes back to the
+   * detected ones.
+   */
+  setProfiles(projectKey: string, profiles: RunProfile[]): RunProfile[] {
+    profiles.forEach(validateProfile);
+    const names = new Set<string>();
+    for (const profile of profiles) {
+      if (names.has(profile.name)) {
+        throw new Error(`There is already a run profile named "${profile.name}"`);
+      }
+      names.add(profile.name);
+    }
+
+    const entry = this.projects[projectKey] || {};
+    this.projects[projectKey] = {
+      ...entry,
+      // New profiles arrive without an id
+      profiles: profiles.length > 0
+        ? profiles.map((p, index) => ({ ...p, id: p.id || `profile-${Date.now()}-${index}` }))
+        : undefined,
+    };
+    this.save();
+    return this.projects[projectKey].profiles || [];
+  }
+
+  select(projectKey: string, profileId: string): void {
+    this.projects[projectKey] = { ...this.projects[projectKey], selectedId: profileId };
+    this.save();
+  }
+}
+
+export const runProfileStore = new RunProfileStore();
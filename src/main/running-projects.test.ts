@@ -0,0 +1,172 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { EventEmitter } from 'events';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LaunchSpec } from './process-manager';
+
+let userData = '';
+
+// What the fake process manager and probes report
+const state = vi.hoisted(() => ({
+  running: [] as { id: string; pid: number; spec: LaunchSpec }[],
+  // Process groups that exist, by leader pid
+  groups: new Set<number>(),
+  // Ports that accept connections, and ones whose HTTP probe passes
+  served: new Set<number>(),
+  healthy: new Set<number>(),
+  autoStartProjects: false,
+}));
+
+vi.mock('electron', () => ({ app: { getPath: () => userData } }));
+
+vi.mock('./process-manager', async () => {
+  const { EventEmitter } = await import('events');
+  return {
+    processManager: Object.assign(new EventEmitter(), {
+      getAllProcesses: () => state.running.map(({ id, pid }) => ({ id, pid, startTime: new Date(0) })),
+      getLaunchSpec: (id: string) => state.running.find((p) => p.id === id)?.spec ?? null,
+      adoptProcess: vi.fn(),
+      startProcess: vi.fn(async () => ({})),
+    }),
+  };
+});
+
+vi.mock('./health-probes', () => ({
+  probePort: async (port: number) => state.served.has(port),
+  checkProbe: async (_probe: unknown, port: number) => state.healthy.has(port),
+}));
+
+vi.mock('./settings-store', () => ({
+  settingsStore: { get: () => ({ autoStartProjects: state.autoStartProjects }) },
+}));
+
+const storeFile = () => path.join(userData, 'running-projects.json');
+
+const spec = (projectName: string, port: number, options: LaunchSpec['options'] = {}): LaunchSpec => ({
+  projectName,
+  command: 'npm run dev',
+  cwd: `/projects/${projectName}`,
+  port,
+  type: 'frontend',
+  options,
+});
+
+// Saved by the last session, as it was when the app went away
+function lastSession(...processes: { spec: LaunchSpec; pid: number }[]) {
+  const saved = processes.map(({ spec, pid }) => ({ ...spec, pid, startedAt: new Date(0).toISOString() }));
+  fs.writeFileSync(storeFile(), JSON.stringify({ processes: saved }));
+}
+
+async function load() {
+  vi.resetModules();
+  const { runningProjects } = await import('./running-projects');
+  const { processManager } = await import('./process-manager');
+  return { runningProjects, processManager: processManager as typeof processManager & EventEmitter };
+}
+
+// Restore, letting the processes found running settle first
+async function restore(runningProjects: Awaited<ReturnType<typeof load>>['runningProjects'], settle = () => {}) {
+  const restoring = runningProjects.restore();
+  await vi.advanceTimersByTimeAsync(500);
+  settle();
+  await vi.advanceTimersByTimeAsync(500);
+  await restoring;
+}
+
+describe('RunningProjects', () => {
+  beforeEach(() => {
+    userData = fs.mkdtempSync(path.join(os.tmpdir(), 'running-projects-'));
+    Object.assign(state, { running: [], autoStartProjects: false });
+    state.groups.clear();
+    state.served.clear();
+    state.healthy.clear();
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    vi.spyOn(process, 'kill').mockImplementation((pid) => {
+      if (state.groups.has(-pid)) return true;
+      throw Object.assign(new Error('kill ESRCH'), { code: 'ESRCH' });
+    });
+  });
+
+  afterEach(async () => {
+    // The mocked manager outlives each store loaded from it
+    (await import('./process-manager')).processManager.removeAllListeners();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+    fs.rmSync(userData, { recursive: true, force: true });
+  });
+
+  it('adopts a process that is still running and serving its port', async () => {
+    lastSession({ spec: spec('owner/web', 3000, { group: 'all', portConflict: 'error' }), pid: 4242 });
+    state.groups.add(4242);
+    state.served.add(3000);
+    const { runningProjects, processManager } = await load();
+
+    await restore(runningProjects);
+
+    expect(processManager.adoptProcess).toHaveBeenCalledWith(
+      spec('owner/web', 3000, { group: undefined, portConflict: undefined }),
+      4242
+    );
+    expect(processManager.startProcess).not.toHaveBeenCalled();
+  });
+
+  it('starts a process again when it went away while settling, as after SIGHUP', async () => {
+    lastSession({ spec: spec('owner/web', 3000), pid: 4242 });
+    state.groups.add(4242);
+    state.served.add(3000);
+    state.autoStartProjects = true;
+    const { runningProjects, processManager } = await load();
+
+    await restore(runningProjects, () => state.groups.delete(4242));
+
+    expect(processManager.adoptProcess).not.toHaveBeenCalled();
+    expect(processManager.startProcess).toHaveBeenCalledWith('owner/web', 'npm run dev', '/projects/owner/web', 3000, 'frontend', {
+      group: undefined,
+      portConflict: undefined,
+    });
+  });
+
+  it('checks the HTTP probe of a process that has one', async () => {
+    const readiness = { type: 'http' as const, path: '/health' };
+    lastSession({ spec: spec('owner/api', 4000, { readiness }), pid: 4242 }, { spec: spec('owner/web', 3000, { readiness }), pid: 4343 });
+    state.groups.add(4242).add(4343);
+    state.served.add(4000).add(3000);
+    state.healthy.add(4000);
+    state.autoStartProjects = true;
+    const { runningProjects, processManager } = await load();
+
+    await restore(runningProjects);
+
+    expect(vi.mocked(processManager.adoptProcess).mock.calls.map(([launch]) => launch.projectName)).toEqual(['owner/api']);
+    expect(vi.mocked(processManager.startProcess).mock.calls.map(([projectName]) => projectName)).toEqual(['owner/web']);
+  });
+
+  it("doesn't adopt a reused pid that serves nothing, nor start it without auto-start", async () => {
+    lastSession({ spec: spec('owner/web', 3000), pid: 4242 });
+    state.groups.add(4242);
+    const { runningProjects, processManager } = await load();
+
+    await restore(runningProjects);
+
+    expect(processManager.adoptProcess).not.toHaveBeenCalled();
+    expect(processManager.startProcess).not.toHaveBeenCalled();
+    expect(JSON.parse(fs.readFileSync(storeFile(), 'utf-8'))).toEqual({ processes: [] });
+  });
+
+  it('saves what is running, and stops saving once frozen for quitting', async () => {
+    const { runningProjects, processManager } = await load();
+    state.running = [{ id: 'a', pid: 4242, spec: spec('owner/web', 3000) }];
+    processManager.emit('processStarted');
+
+    const saved = () => JSON.parse(fs.readFileSync(storeFile(), 'utf-8')).processes;
+    expect(saved()).toEqual([{ ...spec('owner/web', 3000), pid: 4242, startedAt: new Date(0).toISOString() }]);
+
+    runningProjects.freeze();
+    state.running = [];
+    processManager.emit('processExit');
+
+    expect(saved()).toHaveLength(1);
+  });
+});
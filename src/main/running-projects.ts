@@ -0,0 +1,135 @@
+import { app } from 'electron';
+import path from 'path';
+import fs from 'fs';
+import { LaunchSpec, processManager } from './process-manager.js';
+import { checkProbe, probePort } from './health-probes.js';
+import { settingsStore } from './settings-store.js';
+
+/**
+ * The projects running right now, kept in userData so the next session can
+ * bring them back: started again when auto-start is on, or taken over when a
+ * previous session left them running (e.g. because it crashed).
+ */
+
+interface SavedProcess extends LaunchSpec {
+  pid: number | null;
+  startedAt: string;
+}
+
+interface StoreData {
+  processes: SavedProcess[];
+}
+
+// How long a process found running is given to go away before it is adopted
+const ADOPT_SETTLE_MS = 1000;
+
+class RunningProjects {
+  private storePath: string;
+  private data: StoreData;
+  // Set while quitting, so the projects stopped on the way out are remembered
+  private frozen = false;
+
+  constructor() {
+    this.storePath = path.join(app.getPath('userData'), 'running-projects.json');
+    this.data = this.load();
+
+    const save = () => this.save();
+    processManager.on('processStarted', save);
+    processManager.on('processQueued', save);
+    processManager.on('portDetected', save);
+    // A restart runs under a new pid
+    processManager.on('statusChanged', ({ status }) => status === 'starting' && save());
+    processManager.on('processExit', save);
+  }
+
+  private load(): StoreData {
+    try {
+      if (fs.existsSync(this.storePath)) {
+        const saved = JSON.parse(fs.readFileSync(this.storePath, 'utf-8'));
+        return { processes: Array.isArray(saved.processes) ? saved.processes : [] };
+      }
+    } catch (error) {
+      console.error('Failed to load running projects:', error);
+    }
+    return { processes: [] };
+  }
+
+  private save(): void {
+    if (this.frozen) return;
+    this.data.processes = processManager.getAllProcesses().flatMap((process) => {
+      const spec = processManager.getLaunchSpec(process.id);
+      return spec ? [{ ...spec, pid: process.pid, startedAt: process.startTime.toISOString() }] : [];
+    });
+    try {
+      fs.writeFileSync(this.storePath, JSON.stringify(this.data, null, 2), 'utf-8');
+    } catch (error) {
+      console.error('Failed to save running projects:', error);
+    }
+  }
+
+  /**
+   * Keep the current list as it is while the app stops everything to quit
+   */
+  freeze(): void {
+    this.frozen = true;
+  }
+
+  /**
+   * Bring back what the last session was running. Processes still alive
+   * are adopted; the others are started again if auto-start is on.
+   *
+   * Adopting mostly applies to commands run with plain pipes: one run under a
+   * pty gets SIGHUP when the session that ran it ends, so it is usually gone
+   * or on its way out. Whatever is found is checked again after a moment,
+   * with its health probe, and started anew if it didn't hold up.
+   */
+  async restore(): Promise<void> {
+    const previous = this.data.processes;
+    const { autoStartProjects } = settingsStore.get();
+    // All at once, so they settle together
+    const alive = await Promise.all(previous.map((saved) => isStillRunning(saved)));
+    for (const [index, saved] of previous.entries()) {
+      const { pid, startedAt: _startedAt, ...spec } = saved;
+      // Launch groups don't outlive the session that started them, and nobody
+      // is there to settle a port conflict
+      const launch: LaunchSpec = { ...spec, options: { ...spec.options, group: undefined, portConflict: undefined } };
+      try {
+        if (pid && alive[index]) {
+          processManager.adoptProcess(launch, pid);
+        } else if (autoStartProjects) {
+          console.log(`Restoring ${saved.projectName} from the last session`);
+          await processManager.startProcess(spec.projectName, spec.command, spec.cwd, spec.port, spec.type, launch.options);
+        }
+      } catch (error) {
+        console.error(`Failed to restore ${saved.projectName}:`, error);
+      }
+    }
+    this.save();
+  }
+}
+
+const groupExists = (pid: number) => {
+  try {
+    process.kill(-pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Whether a saved process is still running: its process group is still there
+ * after ADOPT_SETTLE_MS, and still serves its port (or passes its HTTP probe).
+ * The port guards against the pid having been reused by something unrelated
+ * since.
+ */
+async function isStillRunning(saved: SavedProcess): Promise<boolean> {
+  if (!saved.pid || process.platform === 'win32' || !groupExists(saved.pid)) return false;
+  await new Promise((resolve) => setTimeout(resolve, ADOPT_SETTLE_MS));
+  if (!groupExists(saved.pid)) return false;
+
+  const { readiness } = saved.options;
+  return readiness?.type === 'http' ? checkProbe(readiness, saved.port) : probePort(saved.port);
+}
+
+export const runningProjects = new RunningProjects();
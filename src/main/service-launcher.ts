@@ -0,0 +1,283 @@
+import { EventEmitter } from 'events';
+import { ProcessExit, processManager } from './process-manager.js';
+import { ReadinessProbe } from './health-probes.js';
+import { LocalWorkspacePackage } from './project-installer.js';
+
+/**
+ * Starts the services of one project as a group, compose-style: in
+ * dependency order, each once the services it depends on answer, with their
+ * addresses injected into its environment. The group is stopped as a whole.
+ */
+
+export interface ServiceSpec {
+  name: string;
+  command: string;
+  cwd: string;
+  port?: number;
+  type: 'frontend' | 'backend' | 'other';
+  env?: Record<string, string>;
+  dependsOn?: string[];
+  readiness?: ReadinessProbe;
+}
+
+export type ServiceState = 'waiting' | 'starting' | 'ready' | 'failed' | 'stopped';
+
+export interface LaunchedService {
+  name: string;
+  state: ServiceState;
+  processId?: string;
+  port?: number;
+  error?: string;
+}
+
+export interface LaunchGroup {
+  id: string;
+  projectName: string;
+  services: LaunchedService[];
+}
+
+interface GroupData extends LaunchGroup {
+  cancelled: boolean;
+}
+
+const POLL_INTERVAL_MS = 500;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// "web-api" -> "WEB_API", for WEB_API_URL and WEB_API_PORT
+const envName = (name: string) =>
+  name.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+/**
+ * Services in the order to start them, dependencies first
+ */
+export function orderServices(services: ServiceSpec[]): ServiceSpec[] {
+  const byName = new Map(services.map((s) => [s.name, s]));
+  const ordered: ServiceSpec[] = [];
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+
+  const visit = (service: ServiceSpec, chain: string[]) => {
+    if (visited.has(service.name)) return;
+    if (visiting.has(service.name)) {
+      throw new Error(`Services depend on each other: ${[...chain, service.name].join(' -> ')}`);
+    }
+    visiting.add(service.name);
+    for (const dependency of service.dependsOn || []) {
+      const required = byName.get(dependency);
+      if (!required) {
+        throw new Error(`Service "${service.name}" depends on unknown service "${dependency}"`);
+      }
+      visit(required, [...chain, service.name]);
+    }
+    visiting.delete(service.name);
+    visited.add(service.name);
+    ordered.push(service);
+  };
+
+  services.forEach((service) => visit(service, []));
+  return ordered;
+}
+
+/**
+ * The workspace packages to launch: the named ones (every runnable one when
+ * no names are given) plus whatever they depend on.
+ */
+export function workspaceServices(packages: LocalWorkspacePackage[], names?: string[]): ServiceSpec[] {
+  const byName = new Map(packages.map((p) => [p.name, p]));
+  const wanted = new Set<string>();
+  const add = (name: string) => {
+    const pkg = byName.get(name);
+    if (!pkg || wanted.has(name)) return;
+    wanted.add(name);
+    pkg.dependsOn?.forEach(add);
+  };
+  (names || packages.map((p) => p.name)).forEach(add);
+
+  const services: ServiceSpec[] = [];
+  for (const pkg of packages) {
+    const command = pkg.devCommand || pkg.startCommand;
+    if (!wanted.has(pkg.name) || !command) continue;
+    services.push({
+      name: pkg.name,
+      command,
+      cwd: pkg.cwd,
+      port: pkg.port,
+      type: pkg.type === 'frontend' || pkg.type === 'backend' ? pkg.type : 'other',
+      env: pkg.env,
+      dependsOn: pkg.dependsOn?.filter((dependency) => byName.get(dependency)?.devCommand || byName.get(dependency)?.startCommand),
+      readiness: pkg.healthCheck ? { type: 'http', path: pkg.healthCheck } : { type: 'tcp' },
+    });
+  }
+  return services;
+}
+
+class ServiceLauncher extends EventEmitter {
+  private groups: Map<string, GroupData> = new Map();
+  private nextGroupId = 1;
+
+  constructor() {
+    super();
+    processManager.on('processExit', ({ id, code, signal, reason }: ProcessExit) => {
+      for (const group of this.groups.values()) {
+        const service = group.services.find((s) => s.processId === id);
+        if (!service || service.state === 'stopped' || service.state === 'failed') continue;
+        service.state = reason === 'crashed' ? 'failed' : 'stopped';
+        if (reason === 'crashed') service.error = signal ? `Killed by ${signal}` : `Exited with code ${code}`;
+        this.emitUpdate(group);
+        if (group.services.every((s) => s.state === 'stopped' || s.state === 'failed')) {
+          this.groups.delete(group.id);
+        }
+      }
+    });
+  }
+
+  /**
+   * Start a group of services. Returns as soon as the launch is planned; the
+   * services' progress is reported through 'update' events.
+   */
+  launch(projectName: string, services: ServiceSpec[]): LaunchGroup {
+    if (services.length === 0) {
+      throw new Error('There are no services to start');
+    }
+    const ordered = orderServices(services);
+
+    const group: GroupData = {
+      id: `group-${this.nextGroupId++}`,
+      projectName,
+      services: ordered.map((s) => ({ name: s.name, state: 'waiting' })),
+      cancelled: false,
+    };
+    this.groups.set(group.id, group);
+
+    this.run(group, ordered).catch((error) => {
+      console.error(`Error launching ${projectName}:`, error);
+    });
+    return this.snapshot(group);
+  }
+
+  private async run(group: GroupData, ordered: ServiceSpec[]): Promise<void> {
+    // Addresses of the services started so far, given to the ones after them
+    const shared: Record<string, string> = {};
+    const addresses: Record<string, { port: number; url: string }> = {};
+
+    for (const spec of ordered) {
+      if (group.cancelled) return;
+      const service = group.services.find((s) => s.name === spec.name)!;
+      service.state = 'starting';
+      this.emitUpdate(group);
+
+      // Values can refer to other services, e.g. "VITE_API_URL": "${server.url}/api"
+      const env: Record<string, string> = { ...shared };
+      for (const [key, value] of Object.entries(spec.env || {})) {
+        env[key] = value.replace(/\$\{([\w.-]+)\.(port|url)\}/g, (match, name, field: 'port' | 'url') =>
+          addresses[name] ? String(addresses[name][field]) : match
+        );
+      }
+
+      try {
+        const started = await processManager.startProcess(
+          group.projectName,
+          spec.command,
+          spec.cwd,
+          spec.port || 3000,
+          spec.type,
+          { target: spec.name, env, group: group.id, readiness: spec.readiness }
+        );
+        service.processId = started.id;
+        service.port = started.port;
+        this.emitUpdate(group);
+
+        // Only services something depends on hold up the rest of the launch
+        const ready = this.waitUntilReady(group, service).then(() => {
+          service.state = 'ready';
+          this.emitUpdate(group);
+        });
+        if (ordered.some((s) => s.dependsOn?.includes(spec.name))) {
+          await ready;
+        } else {
+          ready.catch((error) => this.fail(group, service, error));
+        }
+      } catch (error) {
+        this.fail(group, service, error);
+        // Whatever is left may depend on it, so the launch stops here
+        for (const rest of group.services) {
+          if (rest.state === 'waiting') {
+            rest.state = 'failed';
+            rest.error = `Not started because ${spec.name} failed`;
+          }
+        }
+        this.emitUpdate(group);
+        return;
+      }
+
+      const url = `http://localhost:${service.port}`;
+      addresses[spec.name] = { port: service.port!, url };
+      shared[`${envName(spec.name)}_PORT`] = String(service.port);
+      shared[`${envName(spec.name)}_URL`] = url;
+      if (spec.type === 'backend' && !shared.API_URL) {
+        shared.API_URL = url;
+      }
+    }
+  }
+
+  // The process manager probes readiness; wait for it to report the outcome
+  private async waitUntilReady(group: GroupData, service: LaunchedService): Promise<void> {
+    for (;;) {
+      if (group.cancelled) throw new Error('Launch cancelled');
+      const running = service.processId ? processManager.getProcess(service.processId) : null;
+      if (!running || service.state === 'failed') {
+        throw new Error('Exited before it was ready');
+      }
+
+      // Follow the port the service reports binding
+      service.port = running.port;
+      if (running.status === 'ready') return;
+      if (running.status === 'unhealthy') throw new Error('Never became ready');
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+
+  private fail(group: GroupData, service: LaunchedService, error: unknown): void {
+    // An exit code already explains the failure better
+    if (group.cancelled || service.state === 'failed') return;
+    service.state = 'failed';
+    service.error = (error as Error).message;
+    this.emitUpdate(group);
+  }
+
+  /**
+   * Stop every service of a group, cancelling the ones not started yet
+   */
+  async stop(groupId: string): Promise<boolean> {
+    const group = this.groups.get(groupId);
+    if (!group) return false;
+
+    group.cancelled = true;
+    await processManager.stopGroup(groupId);
+    for (const service of group.services) {
+      if (service.state !== 'failed') service.state = 'stopped';
+    }
+    this.emitUpdate(group);
+    this.groups.delete(groupId);
+    return true;
+  }
+
+  getGroups(): LaunchGroup[] {
+    return Array.from(this.groups.values()).map((g) => this.snapshot(g));
+  }
+
+  private snapshot(group: GroupData): LaunchGroup {
+    return {
+      id: group.id,
+      projectName: group.projectName,
+      services: group.services.map((s) => ({ ...s })),
+    };
+  }
+
+  private emitUpdate(group: GroupData): void {
+    this.emit('update', this.snapshot(group));
+  }
+}
+
+export const serviceLauncher = new ServiceLauncher();
@@ -0,0 +1,99 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AppSettings } from './settings-store';
+
+let userData = '';
+let DEFAULT_SETTINGS: AppSettings;
+
+vi.mock('electron', () => ({ app: { getPath: () => userData } }));
+
+const storeFile = () => path.join(userData, 'settings.json');
+
+// A fresh store that loads whatever is on disk now
+async function loadStore() {
+  vi.resetModules();
+  const module = await import('./settings-store');
+  DEFAULT_SETTINGS = module.DEFAULT_SETTINGS;
+  return module.settingsStore;
+}
+
+describe('SettingsStore', () => {
+  beforeEach(() => {
+    userData = fs.mkdtempSync(path.join(os.tmpdir(), 'settings-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(userData, { recursive: true, force: true });
+  });
+
+  it('starts from the defaults', async () => {
+    expect((await loadStore()).get()).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('converts numbers and booleans given as strings', async () => {
+    const store = await loadStore();
+
+    const settings = store.update({
+      maxConcurrentProcesses: '3',
+      stopGracePeriod: ' 2.5 ',
+      autoStartProjects: 'true',
+      showNotifications: 'false',
+    } as any);
+
+    expect(settings).toMatchObject({
+      maxConcurrentProcesses: 3,
+      stopGracePeriod: 2.5,
+      autoStartProjects: true,
+      showNotifications: false,
+    });
+    expect((await loadStore()).get()).toEqual(settings);
+  });
+
+  it('keeps the current value for one that is the wrong type', async () => {
+    const store = await loadStore();
+    store.update({ maxConcurrentProcesses: 2, defaultCloneDirectory: '/projects' });
+
+    const settings = store.update({
+      maxConcurrentProcesses: '',
+      autoRefreshInterval: 'often',
+      memoryAlertLimit: Infinity,
+      autoRefresh: 'yes',
+      showNotifications: 1,
+      defaultCloneDirectory: 42,
+    } as any);
+
+    expect(settings).toEqual({ ...DEFAULT_SETTINGS, maxConcurrentProcesses: 2, defaultCloneDirectory: '/projects' });
+  });
+
+  it('drops unknown settings', async () => {
+    const store = await loadStore();
+
+    const settings = store.update({ theme: 'dark', autoRefresh: false } as any);
+
+    expect(settings).toEqual({ ...DEFAULT_SETTINGS, autoRefresh: false });
+    expect(JSON.parse(fs.readFileSync(storeFile(), 'utf-8'))).not.toHaveProperty('theme');
+  });
+
+  it('emits the settings after a change', async () => {
+    const store = await loadStore();
+    const changed = vi.fn();
+    store.on('changed', changed);
+
+    store.update({ autoRefreshInterval: 10 });
+
+    expect(changed).toHaveBeenCalledWith({ ...DEFAULT_SETTINGS, autoRefreshInterval: 10 });
+  });
+
+  it('falls back to the defaults for what is missing or invalid on disk', async () => {
+    fs.writeFileSync(storeFile(), JSON.stringify({ autoRefresh: false, maxConcurrentProcesses: 'many', removed: 1 }));
+
+    expect((await loadStore()).get()).toEqual({ ...DEFAULT_SETTINGS, autoRefresh: false });
+
+    fs.writeFileSync(storeFile(), '{ not json');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect((await loadStore()).get()).toEqual(DEFAULT_SETTINGS);
+    vi.restoreAllMocks();
+  });
+});
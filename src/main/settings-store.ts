@@ -0,0 +1,104 @@
+import { app } from 'electron';
+import { EventEmitter } from 'events';
+import path from 'path';
+import fs from 'fs';
+
+/**
+ * App settings, kept in userData so the main process can act on them
+ * without a window open: limits for the process manager, auto-start on
+ * launch, notifications.
+ */
+
+export interface AppSettings {
+  autoRefresh: boolean;
+  // Minutes
+  autoRefreshInterval: number;
+  // Start the projects running at quit again on the next launch
+  autoStartProjects: boolean;
+  // Further starts wait in a queue; 0 is no limit
+  maxConcurrentProcesses: number;
+  // Seconds a stopped process gets to exit before it is killed
+  stopGracePeriod: number;
+  // Megabytes; 0 is off
+  memoryAlertLimit: number;
+  defaultCloneDirectory: string;
+  showNotifications: boolean;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  autoRefresh: true,
+  autoRefreshInterval: 5,
+  autoStartProjects: false,
+  maxConcurrentProcesses: 5,
+  stopGracePeriod: 5,
+  memoryAlertLimit: 0,
+  defaultCloneDirectory: '',
+  showNotifications: true,
+};
+
+// The value as the type of the setting's default ("3" for a number is 3), or
+// undefined when it can't be one, so the setting keeps its current value
+function coerceSetting(key: keyof AppSettings, value: unknown): AppSettings[keyof AppSettings] | undefined {
+  const expected = typeof DEFAULT_SETTINGS[key];
+  if (expected === 'number') {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+  }
+  if (expected === 'boolean') {
+    if (value === 'true' || value === 'false') return value === 'true';
+    return typeof value === 'boolean' ? value : undefined;
+  }
+  return typeof value === expected ? (value as string) : undefined;
+}
+
+// Known settings from untrusted input, coerced; others are dropped
+function validSettings(changes: Record<string, unknown>): Partial<AppSettings> {
+  const valid: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(changes)) {
+    if (!(key in DEFAULT_SETTINGS)) continue;
+    const coerced = coerceSetting(key as keyof AppSettings, value);
+    if (coerced !== undefined) valid[key] = coerced;
+  }
+  return valid as Partial<AppSettings>;
+}
+
+class SettingsStore extends EventEmitter {
+  private storePath: string;
+  private settings: AppSettings;
+
+  constructor() {
+    super();
+    this.storePath = path.join(app.getPath('userData'), 'settings.json');
+    this.settings = this.load();
+  }
+
+  private load(): AppSettings {
+    try {
+      if (fs.existsSync(this.storePath)) {
+        // Keep defaults for settings added since they were saved
+        return { ...DEFAULT_SETTINGS, ...validSettings(JSON.parse(fs.readFileSync(this.storePath, 'utf-8'))) };
+      }
+    } catch (error) {
+      console.error('Failed to load settings:', error);
+    }
+    return { ...DEFAULT_SETTINGS };
+  }
+
+  get(): AppSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Change some settings and save them. Emits 'changed' with the result.
+   * Values of the wrong type are converted where they can be and ignored
+   * otherwise.
+   */
+  update(changes: Partial<AppSettings>): AppSettings {
+    this.settings = { ...this.settings, ...validSettings(changes) };
+    fs.writeFileSync(this.storePath, JSON.stringify(this.settings, null, 2), 'utf-8');
+    this.emit('changed', this.get());
+    return this.get();
+  }
+}
+
+export const settingsStore = new SettingsStore();
@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { app, safeStorage } from 'electron';
+import { DEFAULT_ACCOUNT_ID } from './accounts.js';
+
+interface StoredCredentials {
+  // Account id -> base64 of the safeStorage-encrypted token
+  tokens?: Record<string, string>;
+  // Single token saved before multiple accounts existed; belongs to the default account
+  token?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Persists GitHub tokens, one per account, encrypted with Electron's
+ * safeStorage, which is backed by the OS keychain (Keychain on macOS, DPAPI on
+ * Windows, libsecret / kwallet on Linux). Tokens are never written in plain text.
+ */
+class TokenStore {
+  private credentialsPath: string;
+
+  constructor() {
+    this.credentialsPath = path.join(app.getPath('userData'), 'credentials.json');
+  }
+
+  isAvailable(): boolean {
+    return safeStorage.isEncryptionAvailable();
+  }
+
+  private read(): StoredCredentials {
+    if (!fs.existsSync(this.credentialsPath)) return {};
+    const stored: StoredCredentials = JSON.parse(fs.readFileSync(this.credentialsPath, 'utf-8'));
+    if (stored.token) {
+      stored.tokens = { [DEFAULT_ACCOUNT_ID]: stored.token, ...stored.tokens };
+      delete stored.token;
+    }
+    return stored;
+  }
+
+  private write(stored: StoredCredentials): void {
+    stored.updatedAt = new Date().toISOString();
+    fs.writeFileSync(this.credentialsPath, JSON.stringify(stored, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  }
+
+  getToken(accountId: string = DEFAULT_ACCOUNT_ID): string | null {
+    try {
+      const encrypted = this.read().tokens?.[accountId];
+      if (!encrypted || !this.isAvailable()) return null;
+      return safeStorage.decryptString(Buffer.from(encrypted, 'base64'));
+    } catch (error) {
+      console.error('Failed to read stored GitHub token:', error);
+      return null;
+    }
+  }
+
+  setToken(accountId: string, token: string): void {
+    if (!this.isAvailable()) {
+      throw new Error('Secure storage is not available on this system; the token cannot be saved');
+    }
+
+    const stored = this.read();
+    stored.tokens = {
+      ...stored.tokens,
+      [accountId]: safeStorage.encryptString(token).toString('base64'),
+    };
+    this.write(stored);
+  }
+
+  clearToken(accountId: string = DEFAULT_ACCOUNT_ID): void {
+    const stored = this.read();
+    if (!stored.tokens?.[accountId]) return;
+    delete stored.tokens[accountId];
+    this.write(stored);
+  }
+}
+
+export const tokenStore = new TokenStore();
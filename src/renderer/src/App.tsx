@@ -6,12 +6,18 @@ import DashboardPage from './pages/DashboardPage';
 import ProjectsPage from './pages/ProjectsPage';
 import SettingsPage from './pages/SettingsPage';
 import Spinner from './components/Spinner';
-import { AlertCircle, KeyRound } from 'lucide-react';
+import { AlertCircle, KeyRound, Github } from 'lucide-react';
 import './App.css';
 
 function App() {
   const [isLoading, setIsLoading] = useState(true);
   const [tokenValid, setTokenValid] = useState(false);
+  const [rateLimitedUntil, setRateLimitedUntil] = useState<string | null>(null);
+  const [tokenInput, setTokenInput] = useState('');
+  const [tokenSaving, setTokenSaving] = useState(false);
+  const [tokenError, setTokenError] = useState<string | null>(null);
+  const [deviceCode, setDeviceCode] = useState<{ userCode: string; verificationUri: string } | null>(null);
+  const [deviceFlowStarting, setDeviceFlowStarting] = useState(false);
   const [darkMode, setDarkMode] = useState(() => {
     const saved = localStorage.getItem('darkMode');
     return saved ? JSON.parse(saved) : false;
@@ -26,11 +32,24 @@ function App() {
     validateToken();
   }, []);
 
+  useEffect(() => {
+    const unsubscribe = (window as any).electronAPI.github.onDeviceFlowCompleted(async (result: any) => {
+      setDeviceCode(null);
+      if (result.success) {
+        await validateToken();
+      } else {
+        setTokenError(result.error);
+      }
+    });
+    return unsubscribe;
+  }, []);
+
   const validateToken = async () => {
     try {
       const result = await (window as any).electronAPI.github.validateToken();
       setTokenValid(result.success);
-      if (!result.success) {
+      setRateLimitedUntil(result.code === 'RATE_LIMITED' ? result.resetAt : null);
+      if (!result.success && result.code !== 'RATE_LIMITED') {
         console.error('GitHub token is invalid. Please set GITHUB_TOKEN environment variable.');
       }
     } catch (error) {
@@ -41,6 +60,48 @@ function App() {
     }
   };
 
+  const handleSaveToken = async () => {
+    if (!tokenInput.trim()) return;
+
+    setTokenSaving(true);
+    setTokenError(null);
+    try {
+      const result = await (window as any).electronAPI.github.setToken(tokenInput.trim());
+      if (result.success) {
+        setTokenInput('');
+        await validateToken();
+      } else {
+        setTokenError(result.error);
+      }
+    } catch (error) {
+      setTokenError('Failed to save token');
+    } finally {
+      setTokenSaving(false);
+    }
+  };
+
+  const handleStartDeviceFlow = async () => {
+    setDeviceFlowStarting(true);
+    setTokenError(null);
+    try {
+      const result = await (window as any).electronAPI.github.startDeviceFlow();
+      if (result.success) {
+        setDeviceCode(result.data);
+      } else {
+        setTokenError(result.error);
+      }
+    } catch (error) {
+      setTokenError('Failed to start sign-in');
+    } finally {
+      setDeviceFlowStarting(false);
+    }
+  };
+
+  const handleCancelDeviceFlow = async () => {
+    await (window as any).electronAPI.github.cancelDeviceFlow();
+    setDeviceCode(null);
+  };
+
   const toggleDarkMode = () => {
     setDarkMode(!darkMode);
   };
@@ -57,6 +118,26 @@ function App() {
     );
   }
 
+  if (!tokenValid && rateLimitedUntil) {
+    return (
+      <div className="fullpage-container">
+        <div className="error-screen">
+          <div className="error-icon">
+            <AlertCircle size={64} />
+          </div>
+          <h1>GitHub Rate Limit Reached</h1>
+          <p className="error-description">
+            The GitHub API quota for this token is exhausted. It resets at{' '}
+            {new Date(rateLimitedUntil).toLocaleTimeString()}.
+          </p>
+          <button className="btn btn-primary btn-lg" onClick={() => window.location.reload()}>
+            Try Again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (!tokenValid) {
     return (
       <div className="fullpage-container">
@@ -68,14 +149,49 @@ function App() {
           <p className="error-description">
             GitHub token is not configured or invalid.
           </p>
+          {deviceCode ? (
+            <div className="error-steps device-code">
+              <span className="step">Enter this code at <code>{deviceCode.verificationUri}</code></span>
+              <span className="device-code-value">{deviceCode.userCode}</span>
+              <span className="step">
+                <Spinner size="sm" />
+                Waiting for you to authorize LocalGitHub...
+              </span>
+              <button className="btn btn-ghost" onClick={handleCancelDeviceFlow}>
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <button
+              className="btn btn-secondary btn-lg"
+              onClick={handleStartDeviceFlow}
+              disabled={deviceFlowStarting}
+            >
+              <Github size={18} />
+              {deviceFlowStarting ? 'Starting...' : 'Sign in with GitHub'}
+            </button>
+          )}
           <div className="error-steps">
             <div className="step">
               <KeyRound size={20} />
-              <span>Set the <code>GITHUB_TOKEN</code> environment variable</span>
+              <span>Paste a personal access token with the <code>repo</code> and <code>read:org</code> scopes</span>
             </div>
+            <input
+              type="password"
+              className="input"
+              placeholder="ghp_xxxxxxxxxxxxxxxxxxxx"
+              value={tokenInput}
+              onChange={(e) => setTokenInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSaveToken()}
+            />
+            {tokenError && <span className="auth-error">{tokenError}</span>}
           </div>
-          <button className="btn btn-primary btn-lg" onClick={() => window.location.reload()}>
-            Try Again
+          <button
+            className="btn btn-primary btn-lg"
+            onClick={handleSaveToken}
+            disabled={tokenSaving || !tokenInput.trim()}
+          >
+            {tokenSaving ? 'Connecting...' : 'Save Token'}
           </button>
         </div>
       </div>
@@ -0,0 +1,128 @@
+import { useState, useEffect } from 'react';
+import { X, Save, Trash2 } from 'lucide-react';
+import { useToast } from './Toast';
+import '../styles/NewRepositoryDialog.css';
+import '../styles/ManifestEditor.css';
+
+interface ManifestEditorProps {
+  /** Repository full_name ("owner/repo") */
+  repoName: string;
+  onClose: () => void;
+  /** Called after the manifest is saved or removed */
+  onSaved: () => void;
+}
+
+const EXAMPLE_MANIFEST = {
+  install: 'npm install',
+  dev: 'npm run dev',
+  port: 3000,
+  env: { NODE_ENV: 'development' },
+  preRun: [],
+  services: [],
+};
+
+/**
+ * Edits the `.localgithub.json` manifest kept in the app's config for a
+ * project. It takes precedence over one committed to the repository.
+ */
+function ManifestEditor({ repoName, onClose, onSaved }: ManifestEditorProps) {
+  const { addToast } = useToast();
+  const [text, setText] = useState('');
+  const [hasSaved, setHasSaved] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    (window as any).electronAPI.project.getManifest(repoName)
+      .then((result: any) => {
+        if (!result.success) return;
+        setHasSaved(Boolean(result.data.manifest));
+        setText(JSON.stringify(result.data.manifest || EXAMPLE_MANIFEST, null, 2));
+        // A saved manifest that is no longer valid is ignored until fixed
+        setErrors(result.data.errors || []);
+      })
+      .catch((error: any) => console.error('Failed to load manifest:', error));
+  }, [repoName]);
+
+  const saveManifest = async (manifest: any) => {
+    setSaving(true);
+    try {
+      const result = await (window as any).electronAPI.project.saveManifest(repoName, manifest);
+      if (result.success) {
+        addToast({
+          type: 'success',
+          title: manifest ? 'Manifest Saved' : 'Manifest Removed',
+          message: manifest ? 'Run and install now use this configuration' : 'Detection is used again',
+        });
+        onSaved();
+      } else {
+        setErrors(result.errors || [String(result.error)]);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    let manifest;
+    try {
+      manifest = JSON.parse(text);
+    } catch (error) {
+      setErrors([`Invalid JSON: ${(error as Error).message}`]);
+      return;
+    }
+    setErrors([]);
+    saveManifest(manifest);
+  };
+
+  return (
+    <div className="dialog-overlay" onClick={() => !saving && onClose()}>
+      <div className="dialog manifest-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="dialog-header">
+          <h2>Run Configuration</h2>
+          <button className="btn btn-ghost btn-sm" onClick={onClose} disabled={saving}>
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="dialog-body">
+          <p className="manifest-hint">
+            Overrides detected commands for this project, like a <code>.localgithub.json</code> in the
+            repository. Keys: install, build, dev, start, port, env, preRun, services.
+          </p>
+          <textarea
+            className="input manifest-textarea"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            spellCheck={false}
+          />
+          {errors.length > 0 && (
+            <ul className="manifest-errors">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="dialog-footer">
+          {hasSaved && (
+            <button className="btn btn-danger-outline" onClick={() => saveManifest(null)} disabled={saving}>
+              <Trash2 size={16} />
+              Remove
+            </button>
+          )}
+          <button className="btn btn-ghost" onClick={onClose} disabled={saving}>
+            Cancel
+          </button>
+          <button className="btn btn-primary" onClick={handleSave} disabled={saving}>
+            <Save size={16} />
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ManifestEditor;
@@ -0,0 +1,192 @@
+import { useState, useEffect } from 'react';
+import { X, Plus, RefreshCw, Lock, Globe } from 'lucide-react';
+import ProgressBar from './ProgressBar';
+import { useToast } from './Toast';
+import '../styles/NewRepositoryDialog.css';
+
+interface Organization {
+  id: number;
+  login: string;
+}
+
+interface Templates {
+  gitignore: string[];
+  licenses: Array<{ key: string; name: string }>;
+}
+
+interface NewRepositoryDialogProps {
+  organizations: Organization[];
+  onClose: () => void;
+  /** Called with the new repository's full_name once it is created and installed */
+  onCreated: (fullName: string) => void;
+}
+
+function NewRepositoryDialog({ organizations, onClose, onCreated }: NewRepositoryDialogProps) {
+  const { addToast } = useToast();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [owner, setOwner] = useState('');
+  const [isPrivate, setIsPrivate] = useState(true);
+  const [gitignore, setGitignore] = useState('');
+  const [license, setLicense] = useState('');
+  const [templates, setTemplates] = useState<Templates>({ gitignore: [], licenses: [] });
+  const [creating, setCreating] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [progressMessage, setProgressMessage] = useState('');
+
+  useEffect(() => {
+    (window as any).electronAPI.github.getRepositoryTemplates()
+      .then((result: any) => {
+        if (result.success) setTemplates(result.data);
+      })
+      .catch((error: any) => console.error('Failed to load templates:', error));
+  }, []);
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+
+    setCreating(true);
+    setProgress(5);
+    setProgressMessage('Creating repository on GitHub...');
+    const unsubscribe = (window as any).electronAPI.project.onInstallProgress((update: any) => {
+      setProgressMessage(update.message);
+      if (update.progress) setProgress(update.progress);
+    });
+
+    try {
+      const result = await (window as any).electronAPI.github.createRepository({
+        name: name.trim(),
+        description: description.trim(),
+        private: isPrivate,
+        org: owner || undefined,
+        gitignore_template: gitignore || undefined,
+        license_template: license || undefined,
+      });
+
+      if (!result.success) {
+        addToast({ type: 'error', title: 'Repository Not Created', message: result.error });
+        return;
+      }
+
+      const { repo, install } = result.data;
+      if (install.success) {
+        addToast({ type: 'success', title: 'Repository Created', message: `${repo.full_name} is installed and ready` });
+      } else {
+        addToast({ type: 'warning', title: 'Created But Not Installed', message: install.error });
+      }
+      onCreated(repo.full_name);
+    } catch (error) {
+      addToast({ type: 'error', title: 'Error', message: 'Failed to create repository' });
+    } finally {
+      unsubscribe();
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="dialog-overlay" onClick={() => !creating && onClose()}>
+      <div className="dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="dialog-header">
+          <h2>New Repository</h2>
+          <button className="btn btn-ghost btn-sm" onClick={onClose} disabled={creating}>
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="dialog-body">
+          <div className="dialog-row">
+            <div className="dialog-field">
+              <label className="dialog-label">Owner</label>
+              <select className="input" value={owner} onChange={(e) => setOwner(e.target.value)}>
+                <option value="">Personal account</option>
+                {organizations.map((org) => (
+                  <option key={org.id} value={org.login}>{org.login}</option>
+                ))}
+              </select>
+            </div>
+            <div className="dialog-field">
+              <label className="dialog-label">Repository name</label>
+              <input
+                type="text"
+                className="input"
+                placeholder="my-new-project"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                autoFocus
+              />
+            </div>
+          </div>
+
+          <div className="dialog-field">
+            <label className="dialog-label">Description (optional)</label>
+            <input
+              type="text"
+              className="input"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="visibility-options">
+            <label className={`visibility-option ${isPrivate ? 'selected' : ''}`}>
+              <input type="radio" checked={isPrivate} onChange={() => setIsPrivate(true)} />
+              <Lock size={16} />
+              Private
+            </label>
+            <label className={`visibility-option ${!isPrivate ? 'selected' : ''}`}>
+              <input type="radio" checked={!isPrivate} onChange={() => setIsPrivate(false)} />
+              <Globe size={16} />
+              Public
+            </label>
+          </div>
+
+          <div className="dialog-row">
+            <div className="dialog-field">
+              <label className="dialog-label">.gitignore template</label>
+              <select className="input" value={gitignore} onChange={(e) => setGitignore(e.target.value)}>
+                <option value="">None</option>
+                {templates.gitignore.map((template) => (
+                  <option key={template} value={template}>{template}</option>
+                ))}
+              </select>
+            </div>
+            <div className="dialog-field">
+              <label className="dialog-label">License</label>
+              <select className="input" value={license} onChange={(e) => setLicense(e.target.value)}>
+                <option value="">None</option>
+                {templates.licenses.map((item) => (
+                  <option key={item.key} value={item.key}>{item.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {creating && (
+            <ProgressBar progress={progress} label={progressMessage} />
+          )}
+        </div>
+
+        <div className="dialog-footer">
+          <button className="btn btn-ghost" onClick={onClose} disabled={creating}>
+            Cancel
+          </button>
+          <button className="btn btn-primary" onClick={handleCreate} disabled={creating || !name.trim()}>
+            {creating ? (
+              <>
+                <RefreshCw size={16} className="spin" />
+                Creating...
+              </>
+            ) : (
+              <>
+                <Plus size={16} />
+                Create & Install
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default NewRepositoryDialog;
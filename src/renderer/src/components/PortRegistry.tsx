@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react';
+import { Search, Square, X, RefreshCw } from 'lucide-react';
+import { useToast } from './Toast';
+import '../styles/PortRegistry.css';
+
+interface PortOwner {
+  port: number;
+  pid: number;
+  command?: string;
+  // Set when a project started here holds the port
+  processId?: string;
+  projectName?: string;
+  target?: string;
+}
+
+interface Reservation {
+  key: string;
+  port: number;
+  requested: number;
+  owner: PortOwner | null;
+}
+
+// "owner/repo#web" -> "owner/repo · web"
+const projectLabel = (key: string) => key.replace('#', ' · ');
+
+const ownerLabel = (owner: PortOwner) =>
+  owner.projectName
+    ? `${projectLabel(owner.target ? `${owner.projectName}#${owner.target}` : owner.projectName)}, pid ${owner.pid}`
+    : `${owner.command || 'unknown process'}, pid ${owner.pid}`;
+
+/**
+ * The port kept for each project, whether it is in use and by whom, plus a
+ * lookup for any port. Whoever holds a port can be stopped from here.
+ */
+function PortRegistry() {
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [lookupPort, setLookupPort] = useState('');
+  const [lookup, setLookup] = useState<{ port: number; owner: PortOwner | null } | null>(null);
+  const [freeing, setFreeing] = useState<number | null>(null);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    loadReservations();
+  }, []);
+
+  const loadReservations = async () => {
+    setLoading(true);
+    try {
+      const result = await (window as any).electronAPI.ports.list();
+      if (result.success) {
+        setReservations(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load port registry:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const findOwner = async (port: number) => {
+    const result = await (window as any).electronAPI.ports.owner(port);
+    if (result.success) {
+      setLookup({ port, owner: result.data });
+    } else {
+      addToast({ type: 'error', title: 'Lookup Failed', message: result.error });
+    }
+  };
+
+  const handleLookup = () => {
+    const port = parseInt(lookupPort);
+    if (port > 0 && port < 65536) {
+      findOwner(port);
+    }
+  };
+
+  const handleKill = async (owner: PortOwner) => {
+    if (!confirm(`Stop ${ownerLabel(owner)} to free port ${owner.port}?`)) return;
+
+    setFreeing(owner.port);
+    try {
+      const result = await (window as any).electronAPI.ports.killOwner(owner.port);
+      if (result.success) {
+        addToast({ type: 'success', title: 'Port Freed', message: `Port ${owner.port} is free` });
+      } else {
+        addToast({ type: 'error', title: 'Could Not Free Port', message: result.error || `Nothing is listening on port ${owner.port}` });
+      }
+      await loadReservations();
+      if (lookup?.port === owner.port) await findOwner(owner.port);
+    } finally {
+      setFreeing(null);
+    }
+  };
+
+  const handleRelease = async (key: string) => {
+    const result = await (window as any).electronAPI.ports.release(key);
+    if (result.success) {
+      setReservations((prev) => prev.filter((r) => r.key !== key));
+    }
+  };
+
+  const renderOwner = (port: number, owner: PortOwner | null) =>
+    owner ? (
+      <>
+        <span className="port-owner" title={owner.command}>
+          {ownerLabel(owner)}
+        </span>
+        <button
+          className="port-btn port-btn-kill"
+          onClick={() => handleKill(owner)}
+          disabled={freeing === port}
+          title="Stop it"
+        >
+          {freeing === port ? <RefreshCw size={12} className="spin" /> : <Square size={12} />}
+        </button>
+      </>
+    ) : (
+      <span className="port-free">free</span>
+    );
+
+  return (
+    <div className="port-registry">
+      <div className="port-lookup">
+        <input
+          type="number"
+          className="input"
+          placeholder="Who is using port…"
+          min={1}
+          max={65535}
+          value={lookupPort}
+          onChange={(e) => setLookupPort(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleLookup()}
+        />
+        <button className="btn btn-secondary btn-sm" onClick={handleLookup} disabled={!lookupPort}>
+          <Search size={14} />
+        </button>
+        <button className="btn btn-ghost btn-sm" onClick={loadReservations} disabled={loading} title="Refresh">
+          <RefreshCw size={14} className={loading ? 'spin' : ''} />
+        </button>
+      </div>
+
+      {lookup && (
+        <div className="port-row port-row-lookup">
+          <span className="port-number">:{lookup.port}</span>
+          {renderOwner(lookup.port, lookup.owner)}
+        </div>
+      )}
+
+      {reservations.length === 0 ? (
+        <p className="port-empty">No ports reserved yet. Each project keeps the port it first runs on.</p>
+      ) : (
+        reservations.map((reservation) => (
+          <div key={reservation.key} className="port-row">
+            <span className="port-number">:{reservation.port}</span>
+            <span className="port-project" title={reservation.key}>
+              {projectLabel(reservation.key)}
+            </span>
+            {renderOwner(reservation.port, reservation.owner)}
+            <button
+              className="port-btn"
+              onClick={() => handleRelease(reservation.key)}
+              title="Release, so other projects can use this port"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+export default PortRegistry;
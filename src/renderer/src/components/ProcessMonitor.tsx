@@ -1,31 +1,56 @@
 import { useState, useEffect } from 'react';
-import { Play, Square, RefreshCw, ExternalLink, Clock, Cpu } from 'lucide-react';
+import { Play, Square, RefreshCw, ExternalLink, Clock, Cpu, MemoryStick, Network, ListOrdered, ChevronsUp, X } from 'lucide-react';
+import Sparkline from './Sparkline';
 import '../styles/ProcessMonitor.css';
 
 interface Process {
   id: string;
   name: string;
   port?: number;
-  status: 'running' | 'stopped' | 'error';
+  status: 'queued' | 'starting' | 'ready' | 'unhealthy' | 'restarting' | 'stopped' | 'error';
   startTime?: Date;
-  memory?: string;
+  // Resource usage of the process and what it started, oldest first
+  samples?: ResourceSample[];
+  // Restarts in a row after it exited on its own
+  restarts?: number;
+  // 1 for the next to start, while waiting for a slot
+  queuePosition?: number;
+}
+
+export interface ResourceSample {
+  time: number;
+  cpu: number;
+  rss: number;
+  ports: number[];
 }
 
 interface ProcessMonitorProps {
   processes: Process[];
+  /** Memory in MB above which a process is highlighted; 0 for none */
+  memoryLimit?: number;
   onStop?: (id: string) => void;
   onRestart?: (id: string) => void;
   onOpen?: (port: number) => void;
+  /** Move a queued process to the front of the queue */
+  onStartNext?: (id: string) => void;
 }
 
-function ProcessMonitor({ processes, onStop, onRestart, onOpen }: ProcessMonitorProps) {
+const isRunning = (status: Process['status']) =>
+  status === 'starting' || status === 'ready' || status === 'unhealthy';
+
+const formatMemory = (bytes: number) => {
+  const mb = bytes / 1024 / 1024;
+  return mb >= 1024 ? `${(mb / 1024).toFixed(1)} GB` : `${Math.round(mb)} MB`;
+};
+
+function ProcessMonitor({ processes, memoryLimit = 0, onStop, onRestart, onOpen, onStartNext }: ProcessMonitorProps) {
   const [uptime, setUptime] = useState<Record<string, string>>({});
 
   useEffect(() => {
     const interval = setInterval(() => {
       const newUptime: Record<string, string> = {};
       processes.forEach((p) => {
-        if (p.startTime && p.status === 'running') {
+        if (p.startTime && isRunning(p.status)) {
           const diff = Date.now() - new Date(p.startTime).getTime();
           const seconds = Math.floor(diff / 1000);
           const minutes = Math.floor(seconds / 60);
@@ -58,69 +83,120 @@ function ProcessMonitor({ processes, onStop, onRestart, onOpen }: ProcessMonitor
 
   return (
     <div className="process-monitor">
-      {processes.map((process) => (
-        <div key={process.id} className={`process-item process-${process.status}`}>
-          <div className="process-info">
-            <div className="process-status">
-              <span className={`status-dot status-${process.status}`} />
-              <span className="process-name">{process.name}</span>
+      {processes.map((process) => {
+        const latest = process.samples?.[process.samples.length - 1];
+        const overLimit = !!latest && memoryLimit > 0 && latest.rss > memoryLimit * 1024 * 1024;
+        return (
+          <div key={process.id} className={`process-item process-${process.status}`}>
+            <div className="process-info">
+              <div className="process-status">
+                <span className={`status-dot status-${process.status}`} />
+                <span className="process-name">{process.name}</span>
+              </div>
+              <div className="process-details">
+                {process.status === 'queued' && (
+                  <span className="process-queued" title="Waiting for another process to stop">
+                    <ListOrdered size={12} />
+                    Queued{process.queuePosition ? ` #${process.queuePosition}` : ''}
+                  </span>
+                )}
+                {process.port && process.status !== 'queued' && (
+                  <span className="process-port">
+                    <span className="port-label">Port:</span> {process.port}
+                  </span>
+                )}
+                {uptime[process.id] && (
+                  <span className="process-uptime">
+                    <Clock size={12} />
+                    {uptime[process.id]}
+                  </span>
+                )}
+                {process.restarts ? (
+                  <span className="process-restarts" title="Restarts in a row after exiting">
+                    <RefreshCw size={12} />
+                    {process.restarts}
+                  </span>
+                ) : null}
+                {latest && latest.ports.some((port) => port !== process.port) && (
+                  <span className="process-ports" title="Ports it listens on">
+                    <Network size={12} />
+                    {latest.ports.join(', ')}
+                  </span>
+                )}
+              </div>
+              {latest && (
+                <div className="process-usage">
+                  <span className="process-cpu" title="CPU, 100% is one core">
+                    <Cpu size={12} />
+                    {Math.round(latest.cpu)}%
+                    <Sparkline values={process.samples!.map((s) => s.cpu)} max={100} />
+                  </span>
+                  <span
+                    className={`process-memory ${overLimit ? 'process-memory-over' : ''}`}
+                    title={overLimit ? `Over the ${memoryLimit} MB alert limit` : 'Memory'}
+                  >
+                    <MemoryStick size={12} />
+                    {formatMemory(latest.rss)}
+                    <Sparkline values={process.samples!.map((s) => s.rss)} />
+                  </span>
+                </div>
+              )}
             </div>
-            <div className="process-details">
-              {process.port && (
-                <span className="process-port">
-                  <span className="port-label">Port:</span> {process.port}
-                </span>
+            <div className="process-actions">
+              {process.port && onOpen && process.status === 'ready' && (
+                <button
+                  className="process-btn process-btn-open"
+                  onClick={() => onOpen(process.port!)}
+                  title="Open in browser"
+                >
+                  <ExternalLink size={14} />
+                </button>
               )}
-              {uptime[process.id] && (
-                <span className="process-uptime">
-                  <Clock size={12} />
-                  {uptime[process.id]}
-                </span>
+              {onRestart && isRunning(process.status) && (
+                <button
+                  className="process-btn process-btn-restart"
+                  onClick={() => onRestart(process.id)}
+                  title="Restart"
+                >
+                  <RefreshCw size={14} />
+                </button>
               )}
-              {process.memory && (
-                <span className="process-memory">
-                  <Cpu size={12} />
-                  {process.memory}
-                </span>
+              {onStop && (isRunning(process.status) || process.status === 'restarting') && (
+                <button
+                  className="process-btn process-btn-stop"
+                  onClick={() => onStop(process.id)}
+                  title="Stop"
+                >
+                  <Square size={14} />
+                </button>
+              )}
+              {process.status === 'queued' && onStartNext && process.queuePosition !== 1 && (
+                <button
+                  className="process-btn process-btn-next"
+                  onClick={() => onStartNext(process.id)}
+                  title="Start next"
+                >
+                  <ChevronsUp size={14} />
+                </button>
+              )}
+              {process.status === 'queued' && onStop && (
+                <button
+                  className="process-btn process-btn-stop"
+                  onClick={() => onStop(process.id)}
+                  title="Cancel"
+                >
+                  <X size={14} />
+                </button>
+              )}
+              {process.status === 'stopped' && (
+                <button className="process-btn process-btn-start" title="Start">
+                  <Play size={14} />
+                </button>
               )}
             </div>
           </div>
-          <div className="process-actions">
-            {process.port && onOpen && (
-              <button
-                className="process-btn process-btn-open"
-                onClick={() => onOpen(process.port!)}
-                title="Open in browser"
-              >
-                <ExternalLink size={14} />
-              </button>
-            )}
-            {onRestart && process.status === 'running' && (
-              <button
-                className="process-btn process-btn-restart"
-                onClick={() => onRestart(process.id)}
-                title="Restart"
-              >
-                <RefreshCw size={14} />
-              </button>
-            )}
-            {onStop && process.status === 'running' && (
-              <button
-                className="process-btn process-btn-stop"
-                onClick={() => onStop(process.id)}
-                title="Stop"
-              >
-                <Square size={14} />
-              </button>
-            )}
-            {process.status === 'stopped' && (
-              <button className="process-btn process-btn-start" title="Start">
-                <Play size={14} />
-              </button>
-            )}
-          </div>
-        </div>
-      ))}
+        );
+      })}
     </div>
   );
 }
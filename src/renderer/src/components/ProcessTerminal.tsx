@@ -0,0 +1,166 @@
+import { useEffect, useRef } from 'react';
+import { Terminal as TerminalIcon, Trash2, Copy, Download } from 'lucide-react';
+import { Terminal } from '@xterm/xterm';
+import { FitAddon } from '@xterm/addon-fit';
+import '@xterm/xterm/css/xterm.css';
+import '../styles/TerminalOutput.css';
+import '../styles/ProcessTerminal.css';
+
+interface ProcessTerminalProps {
+  /** Messages from the app itself (progress, errors), one per entry */
+  lines: string[];
+  /** Process whose output is shown as it arrives, and which gets what is typed */
+  processId?: string | null;
+  title?: string;
+  onClear?: () => void;
+  className?: string;
+}
+
+// Messages are colored the way TerminalOutput colors its lines
+function colorMessage(line: string): string {
+  if (/error/i.test(line)) return `\x1b[91m${line}\x1b[0m`;
+  if (/warn/i.test(line)) return `\x1b[93m${line}\x1b[0m`;
+  if (/success|done/i.test(line) || line.includes('✓')) return `\x1b[92m${line}\x1b[0m`;
+  if (line.startsWith('$') || line.startsWith('>')) return `\x1b[94m${line}\x1b[0m`;
+  return line;
+}
+
+function bufferText(term: Terminal): string {
+  if (term.hasSelection()) return term.getSelection();
+  const buffer = term.buffer.active;
+  const rows: string[] = [];
+  for (let i = 0; i < buffer.length; i++) {
+    rows.push(buffer.getLine(i)?.translateToString(true) ?? '');
+  }
+  return rows.join('\n').trimEnd();
+}
+
+/**
+ * A terminal emulator for a running process: its output keeps its colors
+ * and cursor movement, and keystrokes go to the process, so prompts can be
+ * answered. The terminal's size follows the panel and is passed on.
+ */
+function ProcessTerminal({
+  lines,
+  processId,
+  title = 'Terminal',
+  onClear,
+  className = '',
+}: ProcessTerminalProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const termRef = useRef<Terminal | null>(null);
+  // Messages already written, so only new ones are added
+  const writtenRef = useRef(0);
+
+  useEffect(() => {
+    const term = new Terminal({
+      convertEol: true,
+      cursorBlink: true,
+      fontFamily: "'Cascadia Code', 'Consolas', 'Monaco', 'Courier New', monospace",
+      fontSize: 13,
+      scrollback: 5000,
+      theme: { background: '#1e1e1e', foreground: '#e0e0e0' },
+    });
+    const fit = new FitAddon();
+    term.loadAddon(fit);
+    term.open(containerRef.current!);
+    fit.fit();
+    termRef.current = term;
+
+    const observer = new ResizeObserver(() => fit.fit());
+    observer.observe(containerRef.current!);
+
+    return () => {
+      observer.disconnect();
+      term.dispose();
+      termRef.current = null;
+      writtenRef.current = 0;
+    };
+  }, []);
+
+  useEffect(() => {
+    const term = termRef.current;
+    if (!term) return;
+    // Cleared by the parent; start over
+    if (lines.length < writtenRef.current) {
+      term.reset();
+      writtenRef.current = 0;
+    }
+    for (const line of lines.slice(writtenRef.current)) {
+      // Don't continue a prompt the process left on the current line
+      if (term.buffer.active.cursorX > 0) term.write('\r\n');
+      term.write(`${colorMessage(line.replace(/\r?\n$/, ''))}\r\n`);
+    }
+    writtenRef.current = lines.length;
+  }, [lines]);
+
+  useEffect(() => {
+    const term = termRef.current;
+    if (!term || !processId) return;
+    const api = (window as any).electronAPI.process;
+
+    const unsubscribe = api.onOutput((data: any) => {
+      if (data.processId === processId) {
+        term.write(data.text ?? data.output);
+      }
+    });
+    const input = term.onData((data) => api.write(processId, data));
+    const resize = term.onResize(({ cols, rows }) => api.resize(processId, cols, rows));
+    api.resize(processId, term.cols, term.rows);
+
+    return () => {
+      unsubscribe();
+      input.dispose();
+      resize.dispose();
+    };
+  }, [processId]);
+
+  const handleCopy = () => {
+    if (termRef.current) {
+      navigator.clipboard.writeText(bufferText(termRef.current));
+    }
+  };
+
+  const handleDownload = () => {
+    if (!termRef.current) return;
+    const blob = new Blob([bufferText(termRef.current)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'terminal-output.txt';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClear = () => {
+    termRef.current?.clear();
+    onClear?.();
+  };
+
+  return (
+    <div className={`terminal-container ${className}`}>
+      <div className="terminal-header">
+        <div className="terminal-title">
+          <TerminalIcon size={16} />
+          <span>{title}</span>
+        </div>
+        <div className="terminal-actions">
+          <button className="terminal-btn" onClick={handleCopy} title="Copy to clipboard">
+            <Copy size={14} />
+          </button>
+          <button className="terminal-btn" onClick={handleDownload} title="Download log">
+            <Download size={14} />
+          </button>
+          {onClear && (
+            <button className="terminal-btn" onClick={handleClear} title="Clear terminal">
+              <Trash2 size={14} />
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="process-terminal-body" ref={containerRef} />
+    </div>
+  );
+}
+
+export default ProcessTerminal;
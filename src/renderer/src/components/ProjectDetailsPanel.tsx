@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import {
   Download,
   Play,
@@ -20,14 +20,38 @@ import {
   FolderGit2,
   ArrowDownCircle,
   GitPullRequest,
+  Braces,
+  SlidersHorizontal,
+  AlertTriangle,
 } from 'lucide-react';
 import ProgressBar from './ProgressBar';
-import TerminalOutput from './TerminalOutput';
+import ProcessTerminal from './ProcessTerminal';
 import Spinner from './Spinner';
 import ProjectNotes from './ProjectNotes';
+import RepoActivity from './RepoActivity';
+import WorkflowRuns from './WorkflowRuns';
+import RunLogs from './RunLogs';
+import WorkspacePackages from './WorkspacePackages';
+import ManifestEditor from './ManifestEditor';
+import RunProfilesEditor, { RunProfile } from './RunProfilesEditor';
 import { useToast } from './Toast';
 import '../styles/ProjectDetailsPanel.css';
 
+interface PortOwner {
+  port: number;
+  pid: number;
+  command?: string;
+  // Set when a project started here holds the port
+  processId?: string;
+  projectName?: string;
+  target?: string;
+}
+
+const describeOwner = (owner: PortOwner) =>
+  owner.projectName
+    ? `${owner.projectName}${owner.target ? ` · ${owner.target}` : ''} (pid ${owner.pid})`
+    : `${owner.command || 'another process'} (pid ${owner.pid})`;
+
 interface Repository {
   id: number;
   name: string;
@@ -46,6 +70,7 @@ interface Repository {
 }
 
 interface ProjectDetailsPanelProps {
+  /** Repository full_name ("owner/repo") */
   repoName: string | null;
   repo?: Repository | null;
   isInstalled: boolean;
@@ -55,6 +80,8 @@ interface ProjectDetailsPanelProps {
   onInstallComplete?: () => void;
   onUninstallComplete?: () => void;
   onPullComplete?: () => void;
+  /** Called with the full_name of a fork once it is created and installed */
+  onRepositoryAdded?: (fullName: string) => void;
 }
 
 function ProjectDetailsPanel({ 
@@ -66,7 +93,8 @@ function ProjectDetailsPanel({
   behindCount,
   onInstallComplete,
   onUninstallComplete,
-  onPullComplete
+  onPullComplete,
+  onRepositoryAdded
 }: ProjectDetailsPanelProps) {
   const { addToast } = useToast();
 
@@ -79,9 +107,22 @@ function ProjectDetailsPanel({
   const [isRunning, setIsRunning] = useState(false);
   const [running, setRunning] = useState(false);
   const [pulling, setPulling] = useState(false);
+  const [forking, setForking] = useState(false);
   const [port, setPort] = useState<number | undefined>();
   const [terminalLines, setTerminalLines] = useState<string[]>([]);
   const [runningProcessId, setRunningProcessId] = useState<string | null>(null);
+  // starting until the server passes its readiness probe
+  const [processStatus, setProcessStatus] = useState<string | null>(null);
+  // The project's port was taken when it was run; the user picks what to do
+  const [portConflict, setPortConflict] = useState<{ port: number; owner: PortOwner | null } | null>(null);
+  const [freeingPort, setFreeingPort] = useState(false);
+  const [editingManifest, setEditingManifest] = useState(false);
+  const [configVersion, setConfigVersion] = useState(0);
+  const [profiles, setProfiles] = useState<RunProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(null);
+  const [profilesSaved, setProfilesSaved] = useState(false);
+  const [profileCwds, setProfileCwds] = useState<Record<string, string>>({});
+  const [editingProfiles, setEditingProfiles] = useState(false);
 
   useEffect(() => {
     if (repoName && !passedRepo) {
@@ -103,6 +144,98 @@ function ProjectDetailsPanel({
     }
   }, [repoName]);
 
+  // Pick up the project if it is already running, e.g. restored from the last session
+  useEffect(() => {
+    if (!repoName) return;
+    (window as any).electronAPI.process.getAll().then((result: any) => {
+      const running = result.success && result.data.find((p: any) => p.projectName === repoName && !p.target);
+      if (!running) return;
+      setRunningProcessId(running.id);
+      setProcessStatus(running.status);
+      setPort(running.port);
+      setIsRunning(true);
+      setRunning(true);
+    });
+  }, [repoName]);
+
+  const loadProfiles = useCallback(async () => {
+    if (!repoName || !isInstalled || !localPath) return;
+    try {
+      const result = await (window as any).electronAPI.profiles.list(repoName, localPath);
+      if (result.success) {
+        setProfiles(result.data.profiles);
+        setSelectedProfileId(result.data.selectedId);
+        setProfilesSaved(result.data.saved);
+        setProfileCwds(result.data.cwdPaths);
+      }
+    } catch (error) {
+      console.error('Error loading run profiles:', error);
+    }
+  }, [repoName, isInstalled, localPath]);
+
+  // Detected profiles follow the manifest, so reload when it changes too
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles, configVersion]);
+
+  useEffect(() => {
+    if (!runningProcessId) return;
+    return (window as any).electronAPI.process.onPortDetected((data: any) => {
+      if (data.processId === runningProcessId) {
+        setPort(data.port);
+      }
+    });
+  }, [runningProcessId]);
+
+  useEffect(() => {
+    if (!runningProcessId) return;
+    return (window as any).electronAPI.process.onStatusChanged((change: any) => {
+      if (change.id === runningProcessId) {
+        setProcessStatus(change.status);
+      }
+    });
+  }, [runningProcessId]);
+
+  // Notice when the project ends without Stop, e.g. because it crashed
+  useEffect(() => {
+    if (!runningProcessId) return;
+    return (window as any).electronAPI.process.onExit((exit: any) => {
+      if (exit.id !== runningProcessId || exit.reason === 'stopped') return;
+      if (exit.reason === 'killed') {
+        setTerminalLines((prev) => [...prev, '$ Process did not stop in time and was killed']);
+        return;
+      }
+      setIsRunning(false);
+      setRunning(false);
+      setRunningProcessId(null);
+      const detail = exit.signal ? `killed by ${exit.signal}` : `exit code ${exit.code}`;
+      setTerminalLines((prev) => [...prev, '', `$ Process ${exit.reason === 'crashed' ? 'crashed' : 'exited'} (${detail})`]);
+      if (exit.reason === 'crashed') {
+        addToast({ type: 'error', title: 'Project Crashed', message: `${repoName} stopped with ${detail}` });
+      }
+    });
+  }, [runningProcessId]);
+
+  useEffect(() => {
+    if (!runningProcessId) return;
+    const unsubscribeRestarting = (window as any).electronAPI.process.onRestarting((restart: any) => {
+      if (restart.id !== runningProcessId) return;
+      setTerminalLines((prev) => [
+        ...prev,
+        '',
+        `$ Process exited (exit code ${restart.code}), restarting in ${Math.round(restart.delayMs / 1000)}s (attempt ${restart.attempt})`,
+      ]);
+    });
+    const unsubscribeCrashLoop = (window as any).electronAPI.process.onCrashLoop((crash: any) => {
+      if (crash.id !== runningProcessId) return;
+      setTerminalLines((prev) => [...prev, `$ Gave up after ${crash.restarts} restart(s) in a row`]);
+    });
+    return () => {
+      unsubscribeRestarting();
+      unsubscribeCrashLoop();
+    };
+  }, [runningProcessId]);
+
   const checkInstallStatus = async () => {
     if (!repoName) return;
     try {
@@ -155,13 +288,13 @@ function ProjectDetailsPanel({
       const cloneUrl = repo.clone_url || `https://github.com/${repo.full_name}.git`;
       setTerminalLines((prev) => [...prev, `$ Cloning ${cloneUrl}...`]);
 
-      const result = await (window as any).electronAPI.project.install(cloneUrl, repo.name);
+      const result = await (window as any).electronAPI.project.install(cloneUrl, repo.full_name);
       
       if (result.success) {
         setTerminalLines((prev) => [...prev, '✓ Installation complete']);
         setInstallProgress(100);
         
-        const pathResult = await (window as any).electronAPI.git.getProjectPath(repo.name);
+        const pathResult = await (window as any).electronAPI.git.getProjectPath(repo.full_name);
         if (pathResult.success) {
           setLocalPath(pathResult.data.projectPath);
         }
@@ -182,15 +315,23 @@ function ProjectDetailsPanel({
     }
   };
 
-  const handleRun = async () => {
+  const handleSelectProfile = (profileId: string) => {
+    if (!repo) return;
+    setSelectedProfileId(profileId);
+    (window as any).electronAPI.profiles.select(repo.full_name, profileId)
+      .catch((error: any) => console.error('Failed to select run profile:', error));
+  };
+
+  const handleRun = async (portConflictMode: 'error' | 'next-free' = 'error') => {
     if (!repo || !localPath) return;
 
     setRunning(true);
+    setPortConflict(null);
     setTerminalLines((prev) => [...prev, '', '$ Detecting project configuration...']);
 
     try {
       // Get project configuration to determine the run command
-      const configResult = await (window as any).electronAPI.project.getConfig(localPath);
+      const configResult = await (window as any).electronAPI.project.getConfig(localPath, repo.full_name);
       
       if (!configResult.success) {
         setTerminalLines((prev) => [...prev, `Error: Failed to detect project config - ${configResult.error}`]);
@@ -200,49 +341,74 @@ function ProjectDetailsPanel({
       }
 
       const config = configResult.data;
-      const runCommand = config.devCommand || config.startCommand;
+      const profile = profiles.find((p) => p.id === selectedProfileId);
+      const runCommand = profile && (profile.args ? `${profile.command} ${profile.args}` : profile.command);
+      const env = { ...config.env, ...profile?.env };
+
+      if (config.manifestErrors?.length) {
+        setTerminalLines((prev) => [
+          ...prev,
+          'Warning: .localgithub.json is invalid and was ignored:',
+          ...config.manifestErrors.map((error: string) => `  ${error}`),
+        ]);
+        addToast({ type: 'warning', title: 'Invalid .localgithub.json', message: config.manifestErrors[0] });
+      } else if (config.manifest) {
+        setTerminalLines((prev) => [...prev, `Using .localgithub.json from the ${config.manifest === 'app' ? 'app config' : 'repository'}`]);
+      }
 
-      if (!runCommand) {
+      if (!profile || !runCommand) {
         setTerminalLines((prev) => [...prev, 'Error: No run command found in project configuration']);
-        addToast({ type: 'error', title: 'No run command', message: 'Could not find a start or dev script in this project' });
+        addToast({ type: 'error', title: 'No run command', message: 'Could not find a start or dev script in this project. Add a run profile for it.' });
         setRunning(false);
         return;
       }
 
-      setTerminalLines((prev) => [...prev, `$ ${runCommand}`]);
+      if (config.preRun?.length) {
+        const unsubscribe = (window as any).electronAPI.project.onInstallProgress((progress: any) => {
+          setTerminalLines((prev) => [...prev, progress.message]);
+        });
+        const stepsResult = await (window as any).electronAPI.project.runSteps(localPath, config.preRun, env);
+        unsubscribe();
+        if (!stepsResult.success) {
+          setTerminalLines((prev) => [...prev, `Error: ${stepsResult.error}`]);
+          addToast({ type: 'error', title: 'Pre-run Step Failed', message: stepsResult.error });
+          setRunning(false);
+          return;
+        }
+      }
 
-      // Determine port and type based on project
-      const defaultPort = 3000;
+      setTerminalLines((prev) => [...prev, `$ ${runCommand}  (${profile.name})`]);
+
+      // Ask for the port the project is configured with; the server reports the one it binds
+      const requestedPort = profile.port || config.port || 3000;
       const processType = config.devCommand ? 'frontend' : 'other';
 
       const result = await (window as any).electronAPI.process.start(
-        repo.name,
+        repo.full_name,
         runCommand,
-        localPath,
-        defaultPort,
-        processType
+        profileCwds[profile.id] || localPath,
+        requestedPort,
+        processType,
+        { env, restart: profile.restart, readiness: profile.readiness, profileId: profile.id, portConflict: portConflictMode }
       );
       
       if (result.success) {
         const newProcessId = result.data.id;
         setRunningProcessId(newProcessId);
-        
-        // Subscribe to process output - filter by this specific process ID
-        (window as any).electronAPI.process.onOutput((data: any) => {
-          // Only show output for this specific process
-          if (data.processId === newProcessId) {
-            setTerminalLines((prev) => [...prev, data.output]);
-            
-            const portMatch = data.output.match(/localhost:(\d+)/);
-            if (portMatch) {
-              setPort(parseInt(portMatch[1]));
-            }
-          }
-        });
+        setProcessStatus(result.data.status);
         
         setIsRunning(true);
         setPort(result.data.port);
-        addToast({ type: 'success', title: 'Project Started', message: `${repo.name} is now running on port ${result.data.port}` });
+        if (result.data.status === 'queued') {
+          setTerminalLines((prev) => [...prev, `Queued (#${result.data.queuePosition}): the maximum number of projects is running`]);
+          addToast({ type: 'info', title: 'Project Queued', message: `${repo.name} will start when another project stops` });
+        } else {
+          addToast({ type: 'success', title: 'Project Started', message: `${repo.name} is now running on port ${result.data.port}` });
+        }
+      } else if (result.code === 'PORT_CONFLICT') {
+        setTerminalLines((prev) => [...prev, `Error: ${result.error}`]);
+        setPortConflict({ port: result.port, owner: result.owner });
+        setRunning(false);
       } else {
         setTerminalLines((prev) => [...prev, `Error: ${result.error}`]);
         addToast({ type: 'error', title: 'Failed to Start', message: result.error });
@@ -256,6 +422,24 @@ function ProjectDetailsPanel({
     }
   };
 
+  const handleKillPortOwner = async () => {
+    if (!portConflict) return;
+    const owner = portConflict.owner ? describeOwner(portConflict.owner) : 'the process using it';
+    if (!confirm(`Stop ${owner} to free port ${portConflict.port}?`)) return;
+
+    setFreeingPort(true);
+    try {
+      const result = await (window as any).electronAPI.ports.killOwner(portConflict.port);
+      if (!result.success) {
+        addToast({ type: 'error', title: 'Could Not Free Port', message: result.error || `Nothing is listening on port ${portConflict.port}` });
+        return;
+      }
+      await handleRun();
+    } finally {
+      setFreeingPort(false);
+    }
+  };
+
   const handleStop = async () => {
     if (!repo || !runningProcessId) return;
 
@@ -306,7 +490,7 @@ function ProjectDetailsPanel({
     if (!confirm(`Are you sure you want to uninstall ${repo.name}?`)) return;
     
     try {
-      const result = await (window as any).electronAPI.project.uninstall(repo.name);
+      const result = await (window as any).electronAPI.project.uninstall(repo.full_name);
       if (result.success) {
         setIsInstalled(false);
         setLocalPath(undefined);
@@ -336,7 +520,7 @@ function ProjectDetailsPanel({
       }
 
       const newPath = result.filePaths[0];
-      const changeLinkResult = await (window as any).electronAPI.project.changeLink(repo.name, newPath);
+      const changeLinkResult = await (window as any).electronAPI.project.changeLink(repo.full_name, newPath);
       
       if (changeLinkResult.success) {
         setLocalPath(newPath);
@@ -358,7 +542,7 @@ function ProjectDetailsPanel({
     }
 
     try {
-      const result = await (window as any).electronAPI.project.removeLink(repo.name);
+      const result = await (window as any).electronAPI.project.removeLink(repo.full_name);
       
       if (result.success) {
         setIsInstalled(false);
@@ -382,7 +566,7 @@ function ProjectDetailsPanel({
     try {
       addToast({ type: 'info', title: 'Pulling Changes', message: `Pulling updates for ${repo.name}...` });
       
-      const result = await (window as any).electronAPI.git.pull(repo.name);
+      const result = await (window as any).electronAPI.git.pull(repo.full_name);
       
       if (result.success && result.data.success) {
         addToast({ type: 'success', title: 'Pull Complete', message: result.data.message });
@@ -398,6 +582,46 @@ function ProjectDetailsPanel({
     }
   };
 
+  const handleFork = async () => {
+    if (!repo) return;
+    if (!confirm(`Fork ${repo.full_name} to your account and install it?`)) return;
+
+    setForking(true);
+    setTerminalLines([`$ Forking ${repo.full_name}...`]);
+    const unsubscribe = (window as any).electronAPI.project.onInstallProgress((progress: any) => {
+      setTerminalLines((prev) => [...prev, progress.message]);
+    });
+
+    try {
+      const result = await (window as any).electronAPI.github.forkRepository(repo.full_name);
+      if (!result.success) {
+        setTerminalLines((prev) => [...prev, `Error: ${result.error}`]);
+        addToast({ type: 'error', title: 'Fork Failed', message: result.error });
+        return;
+      }
+
+      const { repo: fork, install } = result.data;
+      if (install.success) {
+        setTerminalLines((prev) => [...prev, `✓ Forked and installed ${fork.full_name}`]);
+        addToast({ type: 'success', title: 'Fork Created', message: `${fork.full_name} is installed and ready` });
+      } else {
+        setTerminalLines((prev) => [...prev, `Error: ${install.error}`]);
+        addToast({ type: 'warning', title: 'Forked But Not Installed', message: install.error });
+      }
+      onRepositoryAdded?.(fork.full_name);
+    } catch (error) {
+      console.error('Fork error:', error);
+      addToast({ type: 'error', title: 'Fork Error', message: String(error) });
+    } finally {
+      unsubscribe();
+      setForking(false);
+    }
+  };
+
+  const appendTerminalLine = useCallback((line: string) => {
+    setTerminalLines((prev) => [...prev, line]);
+  }, []);
+
   const formatSize = (kb: number) => {
     if (kb < 1024) return `${kb} KB`;
     return `${(kb / 1024).toFixed(1)} MB`;
@@ -519,10 +743,34 @@ function ProjectDetailsPanel({
           </button>
         ) : (
           <>
+            <div className="panel-profile-picker">
+              {profiles.length > 0 && (
+                <select
+                  className="input panel-profile-select"
+                  value={selectedProfileId || ''}
+                  onChange={(e) => handleSelectProfile(e.target.value)}
+                  disabled={isRunning || running}
+                  title="Run profile"
+                >
+                  {profiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                className="btn btn-ghost btn-sm"
+                onClick={() => setEditingProfiles(true)}
+                title="Edit run profiles"
+              >
+                <SlidersHorizontal size={14} />
+              </button>
+            </div>
             {!isRunning ? (
               <button
                 className="btn btn-success"
-                onClick={handleRun}
+                onClick={() => handleRun()}
                 disabled={running}
               >
                 {running ? (
@@ -540,15 +788,31 @@ function ProjectDetailsPanel({
             ) : (
               <button className="btn btn-danger" onClick={handleStop}>
                 <Square size={16} />
-                Stop
+                {processStatus === 'queued' ? 'Cancel' : 'Stop'}
               </button>
             )}
-            {port && (
+            {port && isRunning && processStatus === 'ready' && (
               <button className="btn btn-secondary" onClick={handleOpenInBrowser}>
                 <ExternalLink size={16} />
                 Open :{ port}
               </button>
             )}
+            {isRunning && (processStatus === 'starting' || processStatus === 'restarting') && (
+              <span className="panel-health">
+                <RefreshCw size={14} className="spin" />
+                Waiting for the server…
+              </span>
+            )}
+            {isRunning && processStatus === 'queued' && (
+              <span className="panel-health" title="Starts when another project stops">
+                Queued
+              </span>
+            )}
+            {isRunning && processStatus === 'unhealthy' && (
+              <span className="panel-health unhealthy" title="The readiness or liveness check is failing">
+                Not responding
+              </span>
+            )}
             {hasRemoteChanges && (
               <button 
                 className="btn btn-warning" 
@@ -589,12 +853,34 @@ function ProjectDetailsPanel({
             )}
           </>
         )}
+        <button className="btn btn-ghost" onClick={handleFork} disabled={forking}>
+          {forking ? <RefreshCw size={16} className="spin" /> : <GitFork size={16} />}
+          {forking ? 'Forking...' : 'Fork'}
+        </button>
         <button className="btn btn-ghost" onClick={handleOpenGitHub}>
           <ExternalLink size={16} />
           GitHub
         </button>
       </div>
 
+      {/* Port Conflict */}
+      {portConflict && !isRunning && (
+        <div className="panel-port-conflict">
+          <AlertTriangle size={16} />
+          <span>
+            Port {portConflict.port} is in use
+            {portConflict.owner ? ` by ${describeOwner(portConflict.owner)}` : ''}
+          </span>
+          <button className="btn btn-danger-outline btn-sm" onClick={handleKillPortOwner} disabled={freeingPort || running}>
+            {freeingPort ? <RefreshCw size={14} className="spin" /> : <Square size={14} />}
+            Stop it
+          </button>
+          <button className="btn btn-secondary btn-sm" onClick={() => handleRun('next-free')} disabled={freeingPort || running}>
+            Use another port
+          </button>
+        </div>
+      )}
+
       {/* Installed Project Actions */}
       {isInstalled && localPath && (
         <div className="panel-installed-actions">
@@ -602,6 +888,10 @@ function ProjectDetailsPanel({
             <FileCode size={16} />
             Open in VS Code
           </button>
+          <button className="btn btn-secondary btn-sm" onClick={() => setEditingManifest(true)}>
+            <Braces size={14} />
+            Run Config
+          </button>
           <button className="btn btn-secondary btn-sm" onClick={handleChangeLink}>
             <Link2 size={14} />
             Change Link
@@ -636,14 +926,65 @@ function ProjectDetailsPanel({
         </div>
       )}
 
+      {/* Monorepo Packages */}
+      {repo && isInstalled && localPath && (
+        <WorkspacePackages
+          repoName={repo.full_name}
+          localPath={localPath}
+          onOutput={appendTerminalLine}
+          configVersion={configVersion}
+        />
+      )}
+
+      {editingManifest && (
+        <ManifestEditor
+          repoName={repo.full_name}
+          onClose={() => setEditingManifest(false)}
+          onSaved={() => {
+            setEditingManifest(false);
+            setConfigVersion((v) => v + 1);
+          }}
+        />
+      )}
+
+      {editingProfiles && (
+        <RunProfilesEditor
+          repoName={repo.full_name}
+          profiles={profiles}
+          selectedId={selectedProfileId}
+          saved={profilesSaved}
+          onClose={() => setEditingProfiles(false)}
+          onSaved={() => {
+            setEditingProfiles(false);
+            loadProfiles();
+          }}
+        />
+      )}
+
       {/* Project Notes */}
       {repo && <ProjectNotes repoName={repo.full_name} />}
 
+      {/* GitHub Actions */}
+      {repo && isInstalled && <WorkflowRuns repoName={repo.full_name} />}
+
+      {/* Local Run Logs */}
+      {repo && isInstalled && <RunLogs repoName={repo.full_name} />}
+
+      {/* Pull Requests & Issues */}
+      {repo && (
+        <RepoActivity
+          repoName={repo.full_name}
+          isInstalled={isInstalled}
+          onCheckout={onPullComplete}
+        />
+      )}
+
       {/* Terminal Output */}
-      {terminalLines.length > 0 && (
+      {(terminalLines.length > 0 || runningProcessId) && (
         <div className="panel-terminal">
-          <TerminalOutput
+          <ProcessTerminal
             lines={terminalLines}
+            processId={runningProcessId}
             title={`${repo.name} - Terminal`}
             onClear={() => setTerminalLines([])}
           />
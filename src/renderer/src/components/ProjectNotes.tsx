@@ -38,6 +38,7 @@ function ProjectNotes({ repoName }: ProjectNotesProps) {
   const [filter, setFilter] = useState<FilterStatus>('all');
   const [saving, setSaving] = useState(false);
   const [rawContent, setRawContent] = useState<string | null>(null);
+  const [remoteError, setRemoteError] = useState<string | null>(null);
 
   useEffect(() => {
     loadNotes();
@@ -46,6 +47,7 @@ function ProjectNotes({ repoName }: ProjectNotesProps) {
   const loadNotes = async () => {
     try {
       setLoading(true);
+      setRemoteError(null);
       const result = await (window as any).electronAPI.notes.get(repoName);
       if (result.success) {
         const local = result.data.notes || [];
@@ -70,6 +72,9 @@ function ProjectNotes({ repoName }: ProjectNotesProps) {
           // Try fetching from repository if no local notes
           try {
             const remote = await (window as any).electronAPI.notes.fetchFromRepo(repoName);
+            if (!remote.success && remote.code === 'RATE_LIMITED') {
+              setRemoteError(remote.error);
+            }
             if (remote.success && remote.data) {
               if (remote.data.rawContent) {
                 setRawContent(remote.data.rawContent);
@@ -225,6 +230,13 @@ function ProjectNotes({ repoName }: ProjectNotesProps) {
         </div>
       </div>
 
+      {remoteError && (
+        <div className="notes-remote-error">
+          <AlertCircle size={14} />
+          <span>Couldn't check the repository for notes: {remoteError}</span>
+        </div>
+      )}
+
       {/* Filter Tabs */}
       <div className="notes-filters">
         <button
@@ -0,0 +1,301 @@
+import { useState, useEffect } from 'react';
+import {
+  GitPullRequest,
+  CircleDot,
+  CheckCircle2,
+  XCircle,
+  Clock,
+  MessageSquare,
+  GitBranch,
+  RefreshCw,
+  Download,
+} from 'lucide-react';
+import Spinner from './Spinner';
+import { useToast } from './Toast';
+import '../styles/RepoActivity.css';
+
+interface Label {
+  name: string;
+  color: string;
+}
+
+interface Assignee {
+  login: string;
+  avatar_url: string;
+}
+
+interface Issue {
+  number: number;
+  title: string;
+  html_url: string;
+  author: string | null;
+  labels: Label[];
+  assignees: Assignee[];
+  comments: number;
+  updated_at: string;
+}
+
+interface PullRequest {
+  number: number;
+  title: string;
+  html_url: string;
+  author: string | null;
+  labels: Label[];
+  assignees: Assignee[];
+  updated_at: string;
+  draft: boolean;
+  head_ref: string;
+  base_ref: string;
+  review_state: 'approved' | 'changes_requested' | 'review_required' | 'none';
+  ci_status: 'success' | 'failure' | 'pending' | 'none';
+}
+
+interface RepoActivityProps {
+  /** Repository full_name ("owner/repo") */
+  repoName: string;
+  isInstalled: boolean;
+  onCheckout?: () => void;
+}
+
+type ActivityTab = 'pulls' | 'issues';
+
+const REVIEW_LABELS: Record<PullRequest['review_state'], string> = {
+  approved: 'Approved',
+  changes_requested: 'Changes requested',
+  review_required: 'Review required',
+  none: 'No reviews',
+};
+
+function RepoActivity({ repoName, isInstalled, onCheckout }: RepoActivityProps) {
+  const { addToast } = useToast();
+  const [tab, setTab] = useState<ActivityTab>('pulls');
+  const [pulls, setPulls] = useState<PullRequest[] | null>(null);
+  const [issues, setIssues] = useState<Issue[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [checkingOut, setCheckingOut] = useState<number | null>(null);
+
+  useEffect(() => {
+    setPulls(null);
+    setIssues(null);
+  }, [repoName]);
+
+  useEffect(() => {
+    if (tab === 'pulls' && pulls === null) loadPulls();
+    if (tab === 'issues' && issues === null) loadIssues();
+  }, [tab, pulls, issues, repoName]);
+
+  const loadPulls = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await (window as any).electronAPI.github.listPullRequests(repoName);
+      if (result.success) {
+        setPulls(result.data);
+      } else {
+        setPulls([]);
+        setError(result.error);
+      }
+    } catch (err) {
+      console.error('Error loading pull requests:', err);
+      setPulls([]);
+      setError('Failed to load pull requests');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadIssues = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await (window as any).electronAPI.github.listIssues(repoName);
+      if (result.success) {
+        setIssues(result.data);
+      } else {
+        setIssues([]);
+        setError(result.error);
+      }
+    } catch (err) {
+      console.error('Error loading issues:', err);
+      setIssues([]);
+      setError('Failed to load issues');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRefresh = () => {
+    if (tab === 'pulls') loadPulls();
+    else loadIssues();
+  };
+
+  const handleCheckout = async (pr: PullRequest) => {
+    setCheckingOut(pr.number);
+    try {
+      const result = await (window as any).electronAPI.git.checkoutPullRequest(repoName, pr.number);
+      if (result.success && result.data.success) {
+        addToast({ type: 'success', title: 'Pull Request Checked Out', message: result.data.message });
+        onCheckout?.();
+      } else {
+        addToast({ type: 'error', title: 'Checkout Failed', message: result.data?.message || result.error || 'Unknown error' });
+      }
+    } catch (err) {
+      console.error('Error checking out pull request:', err);
+      addToast({ type: 'error', title: 'Checkout Error', message: String(err) });
+    } finally {
+      setCheckingOut(null);
+    }
+  };
+
+  const renderLabels = (labels: Label[]) => (
+    labels.length > 0 && (
+      <div className="activity-labels">
+        {labels.map((label) => (
+          <span
+            key={label.name}
+            className="activity-label"
+            style={label.color ? { borderColor: `#${label.color}`, color: `#${label.color}` } : undefined}
+          >
+            {label.name}
+          </span>
+        ))}
+      </div>
+    )
+  );
+
+  const renderAssignees = (assignees: Assignee[]) => (
+    assignees.length > 0 && (
+      <div className="activity-assignees">
+        {assignees.map((user) => (
+          <img key={user.login} src={user.avatar_url} alt={user.login} title={user.login} />
+        ))}
+      </div>
+    )
+  );
+
+  const renderCiStatus = (status: PullRequest['ci_status']) => {
+    switch (status) {
+      case 'success':
+        return <span className="ci-status success" title="Checks passed"><CheckCircle2 size={14} /></span>;
+      case 'failure':
+        return <span className="ci-status failure" title="Checks failed"><XCircle size={14} /></span>;
+      case 'pending':
+        return <span className="ci-status pending" title="Checks running"><Clock size={14} /></span>;
+      default:
+        return null;
+    }
+  };
+
+  const formatDate = (dateStr: string) => {
+    return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  };
+
+  const items = tab === 'pulls' ? pulls : issues;
+
+  return (
+    <div className="repo-activity">
+      <div className="activity-header">
+        <div className="activity-tabs">
+          <button
+            className={`activity-tab ${tab === 'pulls' ? 'active' : ''}`}
+            onClick={() => setTab('pulls')}
+          >
+            <GitPullRequest size={14} />
+            Pull Requests
+            {pulls && <span className="activity-count">{pulls.length}</span>}
+          </button>
+          <button
+            className={`activity-tab ${tab === 'issues' ? 'active' : ''}`}
+            onClick={() => setTab('issues')}
+          >
+            <CircleDot size={14} />
+            Issues
+            {issues && <span className="activity-count">{issues.length}</span>}
+          </button>
+        </div>
+        <button className="btn btn-ghost btn-sm" onClick={handleRefresh} disabled={loading} title="Refresh">
+          <RefreshCw size={14} className={loading ? 'spin' : ''} />
+        </button>
+      </div>
+
+      {error && <div className="activity-error">{error}</div>}
+
+      {loading && items === null ? (
+        <div className="activity-loading">
+          <Spinner size="sm" />
+          <span>Loading...</span>
+        </div>
+      ) : items && items.length === 0 && !error ? (
+        <div className="activity-empty">
+          No open {tab === 'pulls' ? 'pull requests' : 'issues'}
+        </div>
+      ) : (
+        <ul className="activity-list">
+          {tab === 'pulls' && pulls?.map((pr) => (
+            <li key={pr.number} className="activity-item">
+              <div className="activity-item-main">
+                <div className="activity-item-title">
+                  {renderCiStatus(pr.ci_status)}
+                  <a href={pr.html_url} target="_blank" rel="noreferrer">{pr.title}</a>
+                  <span className="activity-number">#{pr.number}</span>
+                  {pr.draft && <span className="activity-draft">Draft</span>}
+                </div>
+                <div className="activity-meta">
+                  <span className="activity-branch">
+                    <GitBranch size={12} />
+                    {pr.head_ref} → {pr.base_ref}
+                  </span>
+                  {pr.author && <span>by {pr.author}</span>}
+                  <span className={`review-state ${pr.review_state}`}>{REVIEW_LABELS[pr.review_state]}</span>
+                  <span>updated {formatDate(pr.updated_at)}</span>
+                </div>
+                {renderLabels(pr.labels)}
+              </div>
+              <div className="activity-item-side">
+                {renderAssignees(pr.assignees)}
+                {isInstalled && (
+                  <button
+                    className="btn btn-secondary btn-sm"
+                    onClick={() => handleCheckout(pr)}
+                    disabled={checkingOut !== null}
+                    title={`Fetch pull/${pr.number}/head into branch pr-${pr.number}`}
+                  >
+                    {checkingOut === pr.number ? <RefreshCw size={14} className="spin" /> : <Download size={14} />}
+                    Check out
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+          {tab === 'issues' && issues?.map((issue) => (
+            <li key={issue.number} className="activity-item">
+              <div className="activity-item-main">
+                <div className="activity-item-title">
+                  <a href={issue.html_url} target="_blank" rel="noreferrer">{issue.title}</a>
+                  <span className="activity-number">#{issue.number}</span>
+                </div>
+                <div className="activity-meta">
+                  {issue.author && <span>by {issue.author}</span>}
+                  {issue.comments > 0 && (
+                    <span>
+                      <MessageSquare size={12} />
+                      {issue.comments}
+                    </span>
+                  )}
+                  <span>updated {formatDate(issue.updated_at)}</span>
+                </div>
+                {renderLabels(issue.labels)}
+              </div>
+              <div className="activity-item-side">
+                {renderAssignees(issue.assignees)}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default RepoActivity;
@@ -1,5 +1,5 @@
 import { useMemo } from 'react';
-import { Star, Lock, Globe, Download, Check, GitPullRequest, Database } from 'lucide-react';
+import { Star, Lock, Globe, Download, Check, GitPullRequest, Database, CheckCircle2, XCircle, Clock } from 'lucide-react';
 import '../styles/RepoListItem.css';
 
 interface DatabaseInfo {
@@ -23,6 +23,8 @@ interface RepoListItemProps {
   hasRemoteChanges?: boolean;
   behindCount?: number;
   databaseInfo?: DatabaseInfo | null;
+  /** Latest GitHub Actions run on the checked-out branch */
+  ciStatus?: 'success' | 'failure' | 'pending' | null;
   onInstall?: () => void;
   onSelect?: () => void;
   isSelected?: boolean;
@@ -53,6 +55,7 @@ function RepoListItem({
   hasRemoteChanges, 
   behindCount, 
   databaseInfo,
+  ciStatus,
   onInstall, 
   onSelect,
   isSelected 
@@ -116,6 +119,13 @@ function RepoListItem({
       <div className="repo-list-item-status">
         {isInstalled ? (
           <>
+            {ciStatus && (
+              <span className={`ci-badge ${ciStatus}`} title={`CI: ${ciStatus}`}>
+                {ciStatus === 'success' && <CheckCircle2 size={14} />}
+                {ciStatus === 'failure' && <XCircle size={14} />}
+                {ciStatus === 'pending' && <Clock size={14} />}
+              </span>
+            )}
             {hasRemoteChanges && behindCount && behindCount > 0 ? (
               <span className="status-badge has-updates" title={`${behindCount} commits behind`}>
                 <GitPullRequest size={14} />
@@ -0,0 +1,204 @@
+import { useState, useEffect } from 'react';
+import { History, CheckCircle2, XCircle, Clock, RefreshCw, Search } from 'lucide-react';
+import TerminalOutput from './TerminalOutput';
+import Spinner from './Spinner';
+import { useToast } from './Toast';
+import '../styles/RunLogs.css';
+
+interface LogRun {
+  runId: string;
+  projectName: string;
+  target?: string;
+  command: string;
+  startedAt: string;
+  endedAt?: string;
+  exitCode?: number | null;
+  signal?: string | null;
+  reason?: 'exited' | 'crashed' | 'stopped' | 'killed';
+}
+
+interface LogLine {
+  line: number;
+  text: string;
+}
+
+interface RunLogsProps {
+  /** Repository full_name ("owner/repo") */
+  repoName: string;
+}
+
+// Lines fetched at a time, from the end of the log backwards
+const PAGE_SIZE = 500;
+
+function RunLogs({ repoName }: RunLogsProps) {
+  const { addToast } = useToast();
+  const [runs, setRuns] = useState<LogRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedRun, setSelectedRun] = useState<LogRun | null>(null);
+  const [lines, setLines] = useState<LogLine[]>([]);
+  const [query, setQuery] = useState('');
+  const [useRegex, setUseRegex] = useState(false);
+  const [matches, setMatches] = useState<LogLine[] | null>(null);
+
+  useEffect(() => {
+    setSelectedRun(null);
+    setLines([]);
+    setMatches(null);
+    loadRuns();
+  }, [repoName]);
+
+  const loadRuns = async () => {
+    setLoading(true);
+    try {
+      const result = await (window as any).electronAPI.logs.listRuns(repoName);
+      if (result.success) {
+        setRuns(result.data);
+      }
+    } catch (err) {
+      console.error('Error loading run logs:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const readLines = async (run: LogRun, start: number, count: number): Promise<LogLine[] | null> => {
+    const result = await (window as any).electronAPI.logs.read(repoName, run.runId, start, count);
+    if (!result.success) {
+      addToast({ type: 'error', title: 'Failed to read log', message: result.error });
+      return null;
+    }
+    return result.data.lines;
+  };
+
+  const handleView = async (run: LogRun) => {
+    setSelectedRun(run);
+    setMatches(null);
+    setLines([]);
+    const page = await readLines(run, -PAGE_SIZE, PAGE_SIZE);
+    if (page) setLines(page);
+  };
+
+  const handleLoadEarlier = async () => {
+    if (!selectedRun || lines.length === 0) return;
+    const start = Math.max(0, lines[0].line - PAGE_SIZE);
+    const page = await readLines(selectedRun, start, lines[0].line - start);
+    if (page) setLines((prev) => [...page, ...prev]);
+  };
+
+  const handleSearch = async () => {
+    if (!selectedRun || !query) return;
+    const result = await (window as any).electronAPI.logs.search(repoName, selectedRun.runId, query, { regex: useRegex });
+    if (result.success) {
+      setMatches(result.data);
+    } else {
+      addToast({ type: 'error', title: 'Search Failed', message: result.error });
+    }
+  };
+
+  const renderStatusIcon = (run: LogRun) => {
+    if (!run.endedAt) {
+      return <Clock size={14} className="run-log-status pending" />;
+    }
+    if (run.reason === 'crashed' || run.reason === 'killed') {
+      return <XCircle size={14} className="run-log-status failure" />;
+    }
+    return <CheckCircle2 size={14} className="run-log-status success" />;
+  };
+
+  const describeEnd = (run: LogRun) => {
+    if (!run.endedAt) return 'running';
+    if (run.signal) return `${run.reason} by ${run.signal}`;
+    return `${run.reason}, code ${run.exitCode}`;
+  };
+
+  const formatDate = (dateStr: string) => {
+    return new Date(dateStr).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  };
+
+  const shown = matches ?? lines;
+
+  return (
+    <div className="run-logs">
+      <div className="run-logs-header">
+        <div className="run-logs-title">
+          <History size={18} />
+          <h3>Run Logs</h3>
+        </div>
+        <button className="btn btn-ghost btn-sm" onClick={loadRuns} disabled={loading} title="Refresh">
+          <RefreshCw size={14} className={loading ? 'spin' : ''} />
+        </button>
+      </div>
+
+      {loading && runs.length === 0 ? (
+        <div className="run-logs-empty">
+          <Spinner size="sm" />
+          <span>Loading runs...</span>
+        </div>
+      ) : runs.length === 0 ? (
+        <div className="run-logs-empty">No runs logged yet</div>
+      ) : (
+        <ul className="run-log-list">
+          {runs.map((run) => (
+            <li key={run.runId} className={`run-log ${selectedRun?.runId === run.runId ? 'active' : ''}`}>
+              {renderStatusIcon(run)}
+              <span className="run-log-name">{run.target || run.command}</span>
+              <span className="run-log-meta">
+                {formatDate(run.startedAt)} · {describeEnd(run)}
+              </span>
+              <button className="btn btn-ghost btn-sm" onClick={() => handleView(run)}>
+                View log
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selectedRun && (
+        <div className="run-logs-viewer">
+          <div className="run-logs-search">
+            <input
+              className="input"
+              placeholder={useRegex ? 'Regular expression' : 'Search this log'}
+              value={query}
+              onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                if (!e.target.value) setMatches(null);
+              }}
+            />
+            <label className="run-logs-regex">
+              <input type="checkbox" checked={useRegex} onChange={(e) => setUseRegex(e.target.checked)} />
+              Regex
+            </label>
+            <button className="btn btn-secondary btn-sm" onClick={handleSearch} disabled={!query}>
+              <Search size={14} />
+              Search
+            </button>
+            {!matches && lines.length > 0 && lines[0].line > 0 && (
+              <button className="btn btn-ghost btn-sm" onClick={handleLoadEarlier}>
+                Load earlier lines
+              </button>
+            )}
+          </div>
+          <TerminalOutput
+            lines={shown.map((l) => `${l.line + 1}  ${l.text}`)}
+            title={matches ? `${matches.length} match(es) in ${selectedRun.target || selectedRun.command}` : `${selectedRun.target || selectedRun.command} - ${formatDate(selectedRun.startedAt)}`}
+            maxLines={Math.max(shown.length, 1)}
+            onClear={() => {
+              setSelectedRun(null);
+              setMatches(null);
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RunLogs;
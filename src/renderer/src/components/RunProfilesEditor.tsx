@@ -0,0 +1,312 @@
+import { useState } from 'react';
+import { X, Plus, Save, Trash2, RotateCcw } from 'lucide-react';
+import { useToast } from './Toast';
+import '../styles/NewRepositoryDialog.css';
+import '../styles/RunProfilesEditor.css';
+
+export interface RunProfile {
+  id: string;
+  name: string;
+  command: string;
+  args?: string;
+  cwd?: string;
+  env?: Record<string, string>;
+  port?: number;
+  restart?: {
+    mode: 'never' | 'on-failure' | 'always';
+    maxRetries: number;
+    backoffMs?: number;
+  };
+  readiness?: Readiness;
+}
+
+type Readiness =
+  | { type: 'tcp' }
+  | { type: 'http'; path: string }
+  | { type: 'output'; pattern: string }
+  | { type: 'none' };
+
+const readinessFor = (type: Readiness['type'], previous?: Readiness): Readiness => {
+  switch (type) {
+    case 'http':
+      return { type, path: previous?.type === 'http' ? previous.path : '/' };
+    case 'output':
+      return { type, pattern: previous?.type === 'output' ? previous.pattern : 'ready' };
+    default:
+      return { type };
+  }
+};
+
+const DEFAULT_MAX_RETRIES = 5;
+
+interface RunProfilesEditorProps {
+  /** Repository full_name ("owner/repo") */
+  repoName: string;
+  profiles: RunProfile[];
+  selectedId: string | null;
+  /** False when the profiles are the detected defaults */
+  saved: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const formatEnv = (env?: Record<string, string>) =>
+  Object.entries(env || {}).map(([key, value]) => `${key}=${value}`).join('\n');
+
+function parseEnv(text: string): Record<string, string> | undefined {
+  const env: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const index = line.indexOf('=');
+    if (index > 0) env[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+  }
+  return Object.keys(env).length > 0 ? env : undefined;
+}
+
+function RunProfilesEditor({ repoName, profiles: initialProfiles, selectedId, saved, onClose, onSaved }: RunProfilesEditorProps) {
+  const { addToast } = useToast();
+  const [profiles, setProfiles] = useState<RunProfile[]>(initialProfiles);
+  const [currentIndex, setCurrentIndex] = useState(
+    Math.max(0, initialProfiles.findIndex((p) => p.id === selectedId))
+  );
+  // Env is edited as KEY=VALUE lines and parsed on save
+  const [envTexts, setEnvTexts] = useState<string[]>(initialProfiles.map((p) => formatEnv(p.env)));
+  const [saving, setSaving] = useState(false);
+
+  const current = profiles[currentIndex];
+
+  const updateCurrent = (updates: Partial<RunProfile>) => {
+    setProfiles((prev) => prev.map((p, i) => (i === currentIndex ? { ...p, ...updates } : p)));
+  };
+
+  const handleAdd = () => {
+    setProfiles((prev) => [...prev, { id: '', name: `profile ${prev.length + 1}`, command: '' }]);
+    setEnvTexts((prev) => [...prev, '']);
+    setCurrentIndex(profiles.length);
+  };
+
+  const handleDelete = () => {
+    setProfiles((prev) => prev.filter((_, i) => i !== currentIndex));
+    setEnvTexts((prev) => prev.filter((_, i) => i !== currentIndex));
+    setCurrentIndex((i) => Math.max(0, i - 1));
+  };
+
+  const saveProfiles = async (toSave: RunProfile[]) => {
+    setSaving(true);
+    try {
+      const result = await (window as any).electronAPI.profiles.save(repoName, toSave);
+      if (result.success) {
+        addToast({ type: 'success', title: 'Run Profiles Saved', message: `${toSave.length || 'Detected'} profile(s) for ${repoName}` });
+        onSaved();
+      } else {
+        addToast({ type: 'error', title: 'Profiles Not Saved', message: result.error });
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    saveProfiles(profiles.map((profile, i) => ({
+      ...profile,
+      name: profile.name.trim(),
+      command: profile.command.trim(),
+      args: profile.args?.trim() || undefined,
+      cwd: profile.cwd?.trim() || undefined,
+      env: parseEnv(envTexts[i] || ''),
+    })));
+  };
+
+  return (
+    <div className="dialog-overlay" onClick={() => !saving && onClose()}>
+      <div className="dialog run-profiles-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="dialog-header">
+          <h2>Run Profiles</h2>
+          <button className="btn btn-ghost btn-sm" onClick={onClose} disabled={saving}>
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="run-profiles-body">
+          <ul className="run-profiles-list">
+            {profiles.map((profile, i) => (
+              <li key={i}>
+                <button
+                  className={`run-profiles-item ${i === currentIndex ? 'active' : ''}`}
+                  onClick={() => setCurrentIndex(i)}
+                >
+                  {profile.name || 'Untitled'}
+                </button>
+              </li>
+            ))}
+            <li>
+              <button className="btn btn-ghost btn-sm" onClick={handleAdd}>
+                <Plus size={14} />
+                New profile
+              </button>
+            </li>
+          </ul>
+
+          {current ? (
+            <div className="dialog-body run-profiles-form">
+              <div className="dialog-row">
+                <div className="dialog-field">
+                  <label className="dialog-label">Name</label>
+                  <input
+                    className="input"
+                    value={current.name}
+                    onChange={(e) => updateCurrent({ name: e.target.value })}
+                  />
+                </div>
+                <div className="dialog-field">
+                  <label className="dialog-label">Port</label>
+                  <input
+                    className="input"
+                    type="number"
+                    placeholder="Detected"
+                    value={current.port ?? ''}
+                    onChange={(e) => updateCurrent({ port: e.target.value ? Number(e.target.value) : undefined })}
+                  />
+                </div>
+              </div>
+              <div className="dialog-field">
+                <label className="dialog-label">Command</label>
+                <input
+                  className="input run-profiles-mono"
+                  placeholder="npm run storybook"
+                  value={current.command}
+                  onChange={(e) => updateCurrent({ command: e.target.value })}
+                />
+              </div>
+              <div className="dialog-row">
+                <div className="dialog-field">
+                  <label className="dialog-label">Arguments</label>
+                  <input
+                    className="input run-profiles-mono"
+                    placeholder="-- --watch"
+                    value={current.args || ''}
+                    onChange={(e) => updateCurrent({ args: e.target.value })}
+                  />
+                </div>
+                <div className="dialog-field">
+                  <label className="dialog-label">Working folder</label>
+                  <input
+                    className="input run-profiles-mono"
+                    placeholder="Project root"
+                    value={current.cwd || ''}
+                    onChange={(e) => updateCurrent({ cwd: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="dialog-row">
+                <div className="dialog-field">
+                  <label className="dialog-label">Ready when</label>
+                  <select
+                    className="input"
+                    value={current.readiness?.type || 'tcp'}
+                    onChange={(e) => updateCurrent({ readiness: readinessFor(e.target.value as Readiness['type'], current.readiness) })}
+                  >
+                    <option value="tcp">Port accepts connections</option>
+                    <option value="http">HTTP path returns 2xx</option>
+                    <option value="output">Output matches</option>
+                    <option value="none">Started</option>
+                  </select>
+                </div>
+                <div className="dialog-field">
+                  <label className="dialog-label">
+                    {current.readiness?.type === 'output' ? 'Pattern (regular expression)' : 'Path'}
+                  </label>
+                  <input
+                    className="input run-profiles-mono"
+                    value={
+                      current.readiness?.type === 'http'
+                        ? current.readiness.path
+                        : current.readiness?.type === 'output'
+                          ? current.readiness.pattern
+                          : ''
+                    }
+                    disabled={current.readiness?.type !== 'http' && current.readiness?.type !== 'output'}
+                    onChange={(e) => {
+                      const readiness = current.readiness;
+                      if (readiness?.type === 'http') updateCurrent({ readiness: { ...readiness, path: e.target.value } });
+                      if (readiness?.type === 'output') updateCurrent({ readiness: { ...readiness, pattern: e.target.value } });
+                    }}
+                  />
+                </div>
+              </div>
+              <div className="dialog-row">
+                <div className="dialog-field">
+                  <label className="dialog-label">Restart</label>
+                  <select
+                    className="input"
+                    value={current.restart?.mode || 'never'}
+                    onChange={(e) => {
+                      const mode = e.target.value as NonNullable<RunProfile['restart']>['mode'];
+                      updateCurrent({
+                        restart: mode === 'never'
+                          ? undefined
+                          : { mode, maxRetries: current.restart?.maxRetries ?? DEFAULT_MAX_RETRIES },
+                      });
+                    }}
+                  >
+                    <option value="never">Never</option>
+                    <option value="on-failure">On failure</option>
+                    <option value="always">Always</option>
+                  </select>
+                </div>
+                <div className="dialog-field">
+                  <label className="dialog-label">Max retries in a row</label>
+                  <input
+                    className="input"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={current.restart?.maxRetries ?? ''}
+                    disabled={!current.restart}
+                    onChange={(e) => current.restart && updateCurrent({
+                      restart: { ...current.restart, maxRetries: Number(e.target.value) || 0 },
+                    })}
+                  />
+                </div>
+              </div>
+              <div className="dialog-field">
+                <label className="dialog-label">Environment (KEY=VALUE per line)</label>
+                <textarea
+                  className="input run-profiles-mono run-profiles-env"
+                  value={envTexts[currentIndex] || ''}
+                  onChange={(e) => setEnvTexts((prev) => prev.map((t, i) => (i === currentIndex ? e.target.value : t)))}
+                  spellCheck={false}
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="run-profiles-empty">No profiles. Add one, or save to use the detected commands.</div>
+          )}
+        </div>
+
+        <div className="dialog-footer">
+          {saved && (
+            <button className="btn btn-ghost" onClick={() => saveProfiles([])} disabled={saving} title="Discard saved profiles">
+              <RotateCcw size={16} />
+              Use detected
+            </button>
+          )}
+          {current && (
+            <button className="btn btn-danger-outline" onClick={handleDelete} disabled={saving}>
+              <Trash2 size={16} />
+              Delete
+            </button>
+          )}
+          <button className="btn btn-ghost" onClick={onClose} disabled={saving}>
+            Cancel
+          </button>
+          <button className="btn btn-primary" onClick={handleSave} disabled={saving}>
+            <Save size={16} />
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default RunProfilesEditor;
@@ -1,13 +1,41 @@
+import { useState, useEffect } from 'react';
 import { NavLink } from 'react-router-dom';
 import { LayoutDashboard, FolderGit2, Settings, Github, Moon, Sun } from 'lucide-react';
 import '../styles/Sidebar.css';
 
+interface Account {
+  id: string;
+  host: string;
+  login?: string;
+  active: boolean;
+  hasToken: boolean;
+}
+
 interface SidebarProps {
   darkMode: boolean;
   onToggleDarkMode: () => void;
 }
 
 function Sidebar({ darkMode, onToggleDarkMode }: SidebarProps) {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+
+  useEffect(() => {
+    (window as any).electronAPI.github.listAccounts()
+      .then((result: any) => {
+        if (result.success) setAccounts(result.data);
+      })
+      .catch((error: any) => console.error('Failed to load accounts:', error));
+  }, []);
+
+  const handleSwitchAccount = async (accountId: string) => {
+    const result = await (window as any).electronAPI.github.setActiveAccount(accountId);
+    if (result.success) {
+      // Repositories, installs and notes all belong to the active account
+      window.location.reload();
+    }
+  };
+
+  const activeAccount = accounts.find((account) => account.active);
 
   const navItems = [
     { path: '/', icon: LayoutDashboard, label: 'Dashboard' },
@@ -24,6 +52,23 @@ function Sidebar({ darkMode, onToggleDarkMode }: SidebarProps) {
         </div>
       </div>
 
+      {accounts.length > 1 && activeAccount && (
+        <div className="sidebar-account">
+          <select
+            className="sidebar-account-select"
+            value={activeAccount.id}
+            onChange={(e) => handleSwitchAccount(e.target.value)}
+            title="Switch GitHub account"
+          >
+            {accounts.map((account) => (
+              <option key={account.id} value={account.id} disabled={!account.hasToken}>
+                {account.login ? `@${account.login}` : account.id} · {account.host}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       <nav className="sidebar-nav">
         {navItems.map((item) => (
           <NavLink
@@ -0,0 +1,33 @@
+import '../styles/Sparkline.css';
+
+interface SparklineProps {
+  values: number[];
+  /** Top of the scale; defaults to the largest value */
+  max?: number;
+  width?: number;
+  height?: number;
+  className?: string;
+  title?: string;
+}
+
+function Sparkline({ values, max, width = 80, height = 20, className = '', title }: SparklineProps) {
+  if (values.length < 2) {
+    return <svg className={`sparkline ${className}`} width={width} height={height} />;
+  }
+
+  const top = Math.max(max ?? 0, ...values) || 1;
+  const step = width / (values.length - 1);
+  const points = values
+    .map((value, i) => `${(i * step).toFixed(1)},${(height - 1 - (value / top) * (height - 2)).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <svg className={`sparkline ${className}`} width={width} height={height} viewBox={`0 0 ${width} ${height}`}>
+      {title && <title>{title}</title>}
+      <polygon className="sparkline-area" points={`0,${height} ${points} ${width},${height}`} />
+      <polyline className="sparkline-line" points={points} />
+    </svg>
+  );
+}
+
+export default Sparkline;
@@ -0,0 +1,286 @@
+import { useState, useEffect } from 'react';
+import {
+  Activity,
+  CheckCircle2,
+  XCircle,
+  Clock,
+  RefreshCw,
+  RotateCcw,
+  Square,
+  ChevronDown,
+  ChevronRight,
+  ExternalLink,
+  GitBranch,
+} from 'lucide-react';
+import TerminalOutput from './TerminalOutput';
+import Spinner from './Spinner';
+import { useToast } from './Toast';
+import '../styles/WorkflowRuns.css';
+
+interface WorkflowRun {
+  id: number;
+  name: string;
+  run_number: number;
+  event: string;
+  status: string;
+  conclusion: string | null;
+  head_branch: string;
+  head_sha: string;
+  html_url: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface WorkflowJob {
+  id: number;
+  name: string;
+  status: string;
+  conclusion: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  html_url: string | null;
+}
+
+interface WorkflowRunsProps {
+  /** Repository full_name ("owner/repo") */
+  repoName: string;
+}
+
+// Timestamps GitHub prefixes to every log line, and ANSI color codes
+const LOG_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z\s?/;
+const ANSI_ESCAPE = /\x1b\[[0-9;]*m/g;
+
+function WorkflowRuns({ repoName }: WorkflowRunsProps) {
+  const { addToast } = useToast();
+  const [branch, setBranch] = useState<string | null>(null);
+  const [runs, setRuns] = useState<WorkflowRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedRun, setExpandedRun] = useState<number | null>(null);
+  const [jobs, setJobs] = useState<Record<number, WorkflowJob[]>>({});
+  const [logLines, setLogLines] = useState<string[]>([]);
+  const [logTitle, setLogTitle] = useState('');
+  const [busyRun, setBusyRun] = useState<number | null>(null);
+
+  useEffect(() => {
+    setExpandedRun(null);
+    setJobs({});
+    setLogLines([]);
+    loadRuns();
+  }, [repoName]);
+
+  const loadRuns = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await (window as any).electronAPI.actions.listRuns(repoName);
+      if (result.success) {
+        setBranch(result.data.branch);
+        setRuns(result.data.runs);
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      console.error('Error loading workflow runs:', err);
+      setError('Failed to load workflow runs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleRun = async (run: WorkflowRun) => {
+    if (expandedRun === run.id) {
+      setExpandedRun(null);
+      return;
+    }
+    setExpandedRun(run.id);
+    try {
+      const result = await (window as any).electronAPI.actions.listJobs(repoName, run.id);
+      if (result.success) {
+        setJobs((prev) => ({ ...prev, [run.id]: result.data }));
+      } else {
+        addToast({ type: 'error', title: 'Failed to load jobs', message: result.error });
+      }
+    } catch (err) {
+      console.error('Error loading jobs:', err);
+    }
+  };
+
+  const handleViewLogs = async (job: WorkflowJob) => {
+    setLogTitle(`${job.name} - Logs`);
+    setLogLines(['Loading logs...']);
+    try {
+      const result = await (window as any).electronAPI.actions.getJobLogs(repoName, job.id);
+      if (result.success) {
+        setLogLines(
+          String(result.data)
+            .split(/\r?\n/)
+            .map((line: string) => line.replace(LOG_TIMESTAMP, '').replace(ANSI_ESCAPE, ''))
+        );
+      } else {
+        setLogLines([`Error: ${result.error}`]);
+      }
+    } catch (err) {
+      setLogLines([`Error: ${String(err)}`]);
+    }
+  };
+
+  const handleRerun = async (run: WorkflowRun) => {
+    setBusyRun(run.id);
+    try {
+      const result = await (window as any).electronAPI.actions.rerun(repoName, run.id);
+      if (result.success) {
+        addToast({ type: 'success', title: 'Re-run Requested', message: `${run.name} #${run.run_number}` });
+        await loadRuns();
+      } else {
+        addToast({ type: 'error', title: 'Re-run Failed', message: result.error });
+      }
+    } finally {
+      setBusyRun(null);
+    }
+  };
+
+  const handleCancel = async (run: WorkflowRun) => {
+    setBusyRun(run.id);
+    try {
+      const result = await (window as any).electronAPI.actions.cancel(repoName, run.id);
+      if (result.success) {
+        addToast({ type: 'info', title: 'Cancel Requested', message: `${run.name} #${run.run_number}` });
+        await loadRuns();
+      } else {
+        addToast({ type: 'error', title: 'Cancel Failed', message: result.error });
+      }
+    } finally {
+      setBusyRun(null);
+    }
+  };
+
+  const renderStatusIcon = (status: string, conclusion: string | null) => {
+    if (status !== 'completed') {
+      return <Clock size={14} className="run-status pending" />;
+    }
+    if (conclusion === 'success' || conclusion === 'skipped' || conclusion === 'neutral') {
+      return <CheckCircle2 size={14} className="run-status success" />;
+    }
+    return <XCircle size={14} className="run-status failure" />;
+  };
+
+  const formatDate = (dateStr: string) => {
+    return new Date(dateStr).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <div className="workflow-runs">
+      <div className="workflow-header">
+        <div className="workflow-title">
+          <Activity size={18} />
+          <h3>Workflow Runs</h3>
+          {branch && (
+            <span className="workflow-branch">
+              <GitBranch size={12} />
+              {branch}
+            </span>
+          )}
+        </div>
+        <button className="btn btn-ghost btn-sm" onClick={loadRuns} disabled={loading} title="Refresh">
+          <RefreshCw size={14} className={loading ? 'spin' : ''} />
+        </button>
+      </div>
+
+      {error && <div className="workflow-error">{error}</div>}
+
+      {loading && runs.length === 0 ? (
+        <div className="workflow-empty">
+          <Spinner size="sm" />
+          <span>Loading runs...</span>
+        </div>
+      ) : !branch ? (
+        <div className="workflow-empty">No branch checked out</div>
+      ) : runs.length === 0 && !error ? (
+        <div className="workflow-empty">No workflow runs for this branch</div>
+      ) : (
+        <ul className="workflow-run-list">
+          {runs.map((run) => (
+            <li key={run.id} className="workflow-run">
+              <div className="workflow-run-row">
+                <button className="workflow-run-toggle" onClick={() => toggleRun(run)}>
+                  {expandedRun === run.id ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                  {renderStatusIcon(run.status, run.conclusion)}
+                  <span className="workflow-run-name">{run.name}</span>
+                  <span className="workflow-run-meta">
+                    #{run.run_number} · {run.event} · {run.head_sha.slice(0, 7)} · {formatDate(run.created_at)}
+                  </span>
+                </button>
+                <div className="workflow-run-actions">
+                  {run.status === 'completed' ? (
+                    <button
+                      className="btn btn-ghost btn-sm"
+                      onClick={() => handleRerun(run)}
+                      disabled={busyRun === run.id}
+                      title="Re-run workflow"
+                    >
+                      <RotateCcw size={14} />
+                    </button>
+                  ) : (
+                    <button
+                      className="btn btn-ghost btn-sm"
+                      onClick={() => handleCancel(run)}
+                      disabled={busyRun === run.id}
+                      title="Cancel run"
+                    >
+                      <Square size={14} />
+                    </button>
+                  )}
+                  <button
+                    className="btn btn-ghost btn-sm"
+                    onClick={() => window.open(run.html_url, '_blank')}
+                    title="Open on GitHub"
+                  >
+                    <ExternalLink size={14} />
+                  </button>
+                </div>
+              </div>
+              {expandedRun === run.id && (
+                <ul className="workflow-job-list">
+                  {!jobs[run.id] ? (
+                    <li className="workflow-empty">
+                      <Spinner size="sm" />
+                    </li>
+                  ) : (
+                    jobs[run.id].map((job) => (
+                      <li key={job.id} className="workflow-job">
+                        {renderStatusIcon(job.status, job.conclusion)}
+                        <span className="workflow-job-name">{job.name}</span>
+                        <button className="btn btn-ghost btn-sm" onClick={() => handleViewLogs(job)}>
+                          View logs
+                        </button>
+                      </li>
+                    ))
+                  )}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {logLines.length > 0 && (
+        <div className="workflow-logs">
+          <TerminalOutput
+            lines={logLines}
+            title={logTitle}
+            maxLines={5000}
+            onClear={() => setLogLines([])}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default WorkflowRuns;
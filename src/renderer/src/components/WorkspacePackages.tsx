@@ -0,0 +1,309 @@
+import { useState, useEffect, useRef } from 'react';
+import { Boxes, Play, Square, RefreshCw } from 'lucide-react';
+import { useToast } from './Toast';
+import '../styles/WorkspacePackages.css';
+
+interface WorkspacePackage {
+  name: string;
+  path: string;
+  cwd: string;
+  type: 'frontend' | 'backend' | 'fullstack' | 'unknown';
+  framework?: string;
+  port?: number;
+  devCommand?: string;
+  startCommand?: string;
+  env?: Record<string, string>;
+  dependsOn?: string[];
+}
+
+interface LaunchedService {
+  name: string;
+  state: 'waiting' | 'starting' | 'ready' | 'failed' | 'stopped';
+  processId?: string;
+  port?: number;
+  error?: string;
+}
+
+interface LaunchGroup {
+  id: string;
+  projectName: string;
+  services: LaunchedService[];
+}
+
+interface Workspace {
+  tools: string[];
+  packages: WorkspacePackage[];
+}
+
+interface WorkspacePackagesProps {
+  /** Repository full_name ("owner/repo") */
+  repoName: string;
+  localPath: string;
+  /** Receives each output line of the packages started here, prefixed with the package name */
+  onOutput: (line: string) => void;
+  /** Changes whenever the project's manifest is edited, to detect packages again */
+  configVersion?: number;
+}
+
+const SERVICE_STATE_LABELS: Record<LaunchedService['state'], string> = {
+  waiting: 'Waiting',
+  starting: 'Starting',
+  ready: 'Ready',
+  failed: 'Failed',
+  stopped: 'Stopped',
+};
+
+const runCommandFor = (pkg: WorkspacePackage) => pkg.devCommand || pkg.startCommand;
+
+function WorkspacePackages({ repoName, localPath, onOutput, configVersion }: WorkspacePackagesProps) {
+  const { addToast } = useToast();
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // Package name -> process id of its running process
+  const [running, setRunning] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<Set<string>>(new Set());
+  // Ports the running packages reported binding
+  const [boundPorts, setBoundPorts] = useState<Record<string, number>>({});
+  const processNames = useRef<Record<string, string>>({});
+  // Services started together with "Start selected", in dependency order
+  const [launch, setLaunch] = useState<LaunchGroup | null>(null);
+  const reportedFailures = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    setWorkspace(null);
+    setSelected(new Set());
+    (window as any).electronAPI.project.getConfig(localPath, repoName)
+      .then((result: any) => {
+        if (result.success && result.data.workspace?.packages.length) {
+          setWorkspace(result.data.workspace);
+        }
+      })
+      .catch((error: any) => console.error('Failed to detect workspace packages:', error));
+  }, [localPath, repoName, configVersion]);
+
+  useEffect(() => {
+    const unsubscribe = (window as any).electronAPI.process.onOutput((data: any) => {
+      const name = processNames.current[data.processId];
+      if (name) onOutput(`[${name}] ${data.output}`);
+    });
+    return unsubscribe;
+  }, [onOutput]);
+
+  useEffect(() => {
+    return (window as any).electronAPI.process.onPortDetected((data: any) => {
+      const name = processNames.current[data.processId];
+      if (name) setBoundPorts((prev) => ({ ...prev, [name]: data.port }));
+    });
+  }, []);
+
+  useEffect(() => {
+    return (window as any).electronAPI.services.onUpdate((group: LaunchGroup) => {
+      if (group.projectName !== repoName) return;
+      setLaunch(group.services.every((s) => s.state === 'stopped' || s.state === 'failed') ? null : group);
+
+      const started = group.services.filter((s) => s.processId);
+      for (const service of started) {
+        processNames.current[service.processId!] = service.name;
+      }
+      setRunning((prev) => {
+        const next = { ...prev };
+        for (const service of started) {
+          if (service.state === 'starting' || service.state === 'ready') next[service.name] = service.processId!;
+          else if (next[service.name] === service.processId) delete next[service.name];
+        }
+        return next;
+      });
+      for (const service of group.services) {
+        const failure = `${group.id}:${service.name}`;
+        if (service.state === 'failed' && service.error && !reportedFailures.current.has(failure)) {
+          reportedFailures.current.add(failure);
+          onOutput(`Error: [${service.name}] ${service.error}`);
+        }
+      }
+    });
+  }, [repoName, onOutput]);
+
+  const setBusyFor = (name: string, isBusy: boolean) => {
+    setBusy((prev) => {
+      const next = new Set(prev);
+      if (isBusy) next.add(name);
+      else next.delete(name);
+      return next;
+    });
+  };
+
+  const startPackage = async (pkg: WorkspacePackage) => {
+    const command = runCommandFor(pkg);
+    if (!command || running[pkg.name]) return;
+
+    setBusyFor(pkg.name, true);
+    onOutput(`$ [${pkg.name}] ${command}`);
+    try {
+      const result = await (window as any).electronAPI.process.start(
+        repoName,
+        command,
+        pkg.cwd,
+        pkg.port || 3000,
+        pkg.type === 'frontend' || pkg.type === 'backend' ? pkg.type : 'other',
+        { target: pkg.name, env: pkg.env }
+      );
+      if (result.success) {
+        processNames.current[result.data.id] = pkg.name;
+        setRunning((prev) => ({ ...prev, [pkg.name]: result.data.id }));
+      } else {
+        onOutput(`Error: [${pkg.name}] ${result.error}`);
+        addToast({ type: 'error', title: `Failed to Start ${pkg.name}`, message: result.error });
+      }
+    } finally {
+      setBusyFor(pkg.name, false);
+    }
+  };
+
+  const stopPackage = async (pkg: WorkspacePackage) => {
+    const processId = running[pkg.name];
+    if (!processId) return;
+
+    setBusyFor(pkg.name, true);
+    try {
+      await (window as any).electronAPI.process.stop(processId);
+      onOutput(`$ [${pkg.name}] Process stopped`);
+      setRunning((prev) => {
+        const next = { ...prev };
+        delete next[pkg.name];
+        return next;
+      });
+      setBoundPorts((prev) => {
+        const next = { ...prev };
+        delete next[pkg.name];
+        return next;
+      });
+    } finally {
+      setBusyFor(pkg.name, false);
+    }
+  };
+
+  const toggleSelected = (name: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  if (!workspace) return null;
+
+  const selectedPackages = workspace.packages.filter((pkg) => selected.has(pkg.name));
+
+  // Started as one group: dependencies first, each once the ones before it answer
+  const startSelected = async () => {
+    const names = selectedPackages.filter((pkg) => !running[pkg.name]).map((pkg) => pkg.name);
+    onOutput(`$ Starting ${names.join(', ')} with their dependencies`);
+    const result = await (window as any).electronAPI.services.launch(repoName, localPath, names);
+    if (result.success) {
+      setLaunch(result.data);
+    } else {
+      onOutput(`Error: ${result.error}`);
+      addToast({ type: 'error', title: 'Failed to Start Services', message: result.error });
+    }
+  };
+
+  const stopLaunch = async () => {
+    if (!launch) return;
+    await (window as any).electronAPI.services.stop(launch.id);
+    onOutput('$ Stopped all services');
+    setLaunch(null);
+  };
+
+  const stopSelected = async () => {
+    for (const pkg of selectedPackages) {
+      await stopPackage(pkg);
+    }
+  };
+
+  return (
+    <div className="workspace-packages">
+      <div className="workspace-header">
+        <div className="workspace-title">
+          <Boxes size={18} />
+          <h3>Workspace Packages</h3>
+          <span className="workspace-tools">{workspace.tools.join(' · ')}</span>
+        </div>
+        <div className="workspace-header-actions">
+          <button
+            className="btn btn-success btn-sm"
+            onClick={startSelected}
+            disabled={!selectedPackages.some((pkg) => runCommandFor(pkg) && !running[pkg.name])}
+          >
+            <Play size={14} />
+            Start selected
+          </button>
+          <button
+            className="btn btn-danger btn-sm"
+            onClick={stopSelected}
+            disabled={!selectedPackages.some((pkg) => running[pkg.name])}
+          >
+            <Square size={14} />
+            Stop selected
+          </button>
+          {launch && (
+            <button className="btn btn-danger-outline btn-sm" onClick={stopLaunch} title="Stop every service started together">
+              <Square size={14} />
+              Stop all
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ul className="workspace-package-list">
+        {workspace.packages.map((pkg) => {
+          const command = runCommandFor(pkg);
+          const isRunning = Boolean(running[pkg.name]);
+          const launched = launch?.services.find((s) => s.name === pkg.name);
+          const port = boundPorts[pkg.name] ?? launched?.port ?? pkg.port;
+          return (
+            <li key={pkg.name} className={`workspace-package ${isRunning ? 'running' : ''}`}>
+              <input
+                type="checkbox"
+                checked={selected.has(pkg.name)}
+                onChange={() => toggleSelected(pkg.name)}
+                disabled={!command}
+              />
+              <div className="workspace-package-info">
+                <span className="workspace-package-name">{pkg.name}</span>
+                <span className="workspace-package-meta">
+                  {[
+                    pkg.path || '(root)',
+                    pkg.framework,
+                    port && `:${port}`,
+                    pkg.dependsOn?.length && `needs ${pkg.dependsOn.join(', ')}`,
+                  ].filter(Boolean).join(' · ')}
+                </span>
+              </div>
+              {launched && (
+                <span className={`workspace-service-state ${launched.state}`} title={launched.error}>
+                  {SERVICE_STATE_LABELS[launched.state]}
+                </span>
+              )}
+              {!command ? (
+                <span className="workspace-package-meta">No run script</span>
+              ) : busy.has(pkg.name) ? (
+                <RefreshCw size={14} className="spin" />
+              ) : isRunning ? (
+                <button className="btn btn-ghost btn-sm" onClick={() => stopPackage(pkg)} title="Stop">
+                  <Square size={14} />
+                </button>
+              ) : (
+                <button className="btn btn-ghost btn-sm" onClick={() => startPackage(pkg)} title={command}>
+                  <Play size={14} />
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export default WorkspacePackages;
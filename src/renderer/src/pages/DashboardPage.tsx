@@ -8,9 +8,12 @@ import {
   RefreshCw,
   Activity,
   GitBranch,
-  Star
+  Star,
+  Gauge,
+  Network
 } from 'lucide-react';
-import ProcessMonitor from '../components/ProcessMonitor';
+import ProcessMonitor, { ResourceSample } from '../components/ProcessMonitor';
+import PortRegistry from '../components/PortRegistry';
 import Spinner from '../components/Spinner';
 import '../styles/Dashboard.css';
 
@@ -24,14 +27,34 @@ interface User {
   following: number;
 }
 
+interface RateLimit {
+  limit: number | null;
+  remaining: number | null;
+  resetAt: string | null;
+  blockedUntil: string | null;
+  queued: number;
+}
+
 interface RunningProcess {
   id: string;
   name: string;
   port?: number;
-  status: 'running' | 'stopped' | 'error';
+  status: 'queued' | 'starting' | 'ready' | 'unhealthy' | 'restarting' | 'stopped' | 'error';
   startTime?: Date;
+  restarts?: number;
+  priority?: number;
+  queuePosition?: number;
+}
+
+interface QueueEntry {
+  id: string;
+  priority: number;
+  position: number;
 }
 
+// Samples kept per process for the sparklines, as many as main keeps
+const SAMPLE_HISTORY = 150;
+
 function DashboardPage() {
   const [user, setUser] = useState<User | null>(null);
   const [stats, setStats] = useState({
@@ -40,10 +63,61 @@ function DashboardPage() {
     runningProcesses: 0,
   });
   const [processes, setProcesses] = useState<RunningProcess[]>([]);
+  const [samples, setSamples] = useState<Record<string, ResourceSample[]>>({});
+  const [memoryLimit, setMemoryLimit] = useState(0);
+  const [rateLimit, setRateLimit] = useState<RateLimit | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     loadDashboardData();
+    const unsubscribe = (window as any).electronAPI.github.onRateLimitUpdated((state: RateLimit) => {
+      setRateLimit(state);
+    });
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    (window as any).electronAPI.settings.get().then((result: any) => {
+      if (result.success) setMemoryLimit(result.data.memoryAlertLimit);
+    });
+  }, []);
+
+  useEffect(() => {
+    const api = (window as any).electronAPI.process;
+    const unsubscribeStatus = api.onStatusChanged((change: { id: string; status: RunningProcess['status'] }) => {
+      setProcesses((prev) => prev.map((p) => (p.id === change.id ? { ...p, status: change.status } : p)));
+    });
+    const unsubscribePort = api.onPortDetected(({ processId, port }: { processId: string; port: number }) => {
+      setProcesses((prev) => prev.map((p) => (p.id === processId ? { ...p, port } : p)));
+    });
+    const unsubscribeQueue = api.onQueueChanged((queue: QueueEntry[]) => {
+      setProcesses((prev) =>
+        prev.map((p) => {
+          const entry = queue.find((q) => q.id === p.id);
+          return { ...p, queuePosition: entry?.position, priority: entry?.priority ?? p.priority };
+        })
+      );
+    });
+    return () => {
+      unsubscribeStatus();
+      unsubscribePort();
+      unsubscribeQueue();
+    };
+  }, []);
+
+  useEffect(() => {
+    (window as any).electronAPI.metrics.getHistory().then((result: any) => {
+      if (result.success) setSamples(result.data);
+    });
+    return (window as any).electronAPI.metrics.onSample((latest: (ResourceSample & { id: string })[]) => {
+      setSamples((prev) => {
+        const next = { ...prev };
+        for (const sample of latest) {
+          next[sample.id] = [...(prev[sample.id] || []), sample].slice(-SAMPLE_HISTORY);
+        }
+        return next;
+      });
+    });
   }, []);
 
   const loadDashboardData = async () => {
@@ -55,10 +129,18 @@ function DashboardPage() {
         setStats((prev) => ({ ...prev, totalRepos: userResult.data.public_repos }));
       }
 
+      const rateLimitResult = await (window as any).electronAPI.github.getRateLimit();
+      if (rateLimitResult.success) {
+        setRateLimit(rateLimitResult.data);
+      }
+
       // Fetch running processes
       const processResult = await (window as any).electronAPI.process.getAll();
       if (processResult.success) {
-        setProcesses(processResult.data);
+        setProcesses(processResult.data.map((p: any) => ({
+          ...p,
+          name: p.target ? `${p.projectName} · ${p.target}` : p.projectName,
+        })));
         setStats((prev) => ({ ...prev, runningProcesses: processResult.data.length }));
       }
     } catch (error) {
@@ -77,6 +159,35 @@ function DashboardPage() {
     }
   };
 
+  const handleStartNext = async (id: string) => {
+    const queued = processes.filter((p) => p.status === 'queued' && p.id !== id);
+    const highest = Math.max(0, ...queued.map((p) => p.priority || 0));
+    try {
+      await (window as any).electronAPI.process.setPriority(id, highest + 1);
+    } catch (error) {
+      console.error('Error reprioritizing process:', error);
+    }
+  };
+
+  const handleRestartProcess = async (id: string) => {
+    try {
+      await (window as any).electronAPI.process.restart(id);
+      loadDashboardData();
+    } catch (error) {
+      console.error('Error restarting process:', error);
+    }
+  };
+
+  const formatTime = (iso: string) =>
+    new Date(iso).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
+  const quotaLabel = () => {
+    if (!rateLimit) return 'API Quota';
+    if (rateLimit.blockedUntil) return `Throttled until ${formatTime(rateLimit.blockedUntil)}`;
+    if (rateLimit.resetAt) return `API quota · resets ${formatTime(rateLimit.resetAt)}`;
+    return 'API Quota';
+  };
+
   const handleOpenBrowser = (port: number) => {
     window.open(`http://localhost:${port}`, '_blank');
   };
@@ -158,6 +269,18 @@ function DashboardPage() {
             <span className="stat-label">Running Processes</span>
           </div>
         </div>
+
+        <div className="stat-card">
+          <div className={`stat-icon ${rateLimit?.remaining === 0 || rateLimit?.blockedUntil ? 'stat-icon-red' : 'stat-icon-orange'}`}>
+            <Gauge size={24} />
+          </div>
+          <div className="stat-content">
+            <span className="stat-value">
+              {rateLimit?.remaining != null ? `${rateLimit.remaining}/${rateLimit.limit}` : '—'}
+            </span>
+            <span className="stat-label">{quotaLabel()}</span>
+          </div>
+        </div>
       </div>
 
       {/* Main Content Grid */}
@@ -172,13 +295,29 @@ function DashboardPage() {
           </div>
           <div className="dashboard-card-body">
             <ProcessMonitor 
-              processes={processes}
+              processes={processes.map((p) => ({ ...p, samples: samples[p.id] }))}
+              memoryLimit={memoryLimit}
               onStop={handleStopProcess}
+              onRestart={handleRestartProcess}
               onOpen={handleOpenBrowser}
+              onStartNext={handleStartNext}
             />
           </div>
         </div>
 
+        {/* Ports */}
+        <div className="dashboard-card">
+          <div className="dashboard-card-header">
+            <div className="dashboard-card-title">
+              <Network size={20} />
+              <span>Ports</span>
+            </div>
+          </div>
+          <div className="dashboard-card-body">
+            <PortRegistry />
+          </div>
+        </div>
+
         {/* Quick Actions */}
         <div className="dashboard-card">
           <div className="dashboard-card-header">
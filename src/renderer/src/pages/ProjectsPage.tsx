@@ -1,7 +1,8 @@
 import { useState, useEffect, useMemo } from 'react';
-import { Search, RefreshCw, FolderGit2, AlertCircle } from 'lucide-react';
+import { Search, RefreshCw, FolderGit2, AlertCircle, Plus } from 'lucide-react';
 import RepoListItem from '../components/RepoListItem';
 import ProjectDetailsPanel from '../components/ProjectDetailsPanel';
+import NewRepositoryDialog from '../components/NewRepositoryDialog';
 import Spinner from '../components/Spinner';
 import { useToast } from '../components/Toast';
 import '../styles/Projects.css';
@@ -18,8 +19,25 @@ interface Repository {
   html_url: string;
   clone_url?: string;
   private: boolean;
+  affiliation?: 'owner' | 'collaborator' | 'organization_member';
+  owner?: {
+    login: string;
+    avatar_url: string;
+    type: string;
+  };
 }
 
+interface Organization {
+  id: number;
+  login: string;
+  avatar_url: string;
+  description: string | null;
+}
+
+type AffiliationFilter = 'all' | 'owner' | 'collaborator' | 'organization_member';
+
+type CiStatus = 'success' | 'failure' | 'pending';
+
 interface DatabaseInfo {
   hasDatabase: boolean;
   type?: 'sqlite' | 'prisma' | 'postgres' | 'mysql' | 'mongodb' | 'redis' | 'unknown';
@@ -39,18 +57,38 @@ function ProjectsPage() {
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
   const [languageFilter, setLanguageFilter] = useState('all');
   const [statusFilter, setStatusFilter] = useState<'all' | 'installed' | 'not-installed'>('all');
+  const [affiliationFilter, setAffiliationFilter] = useState<AffiliationFilter>('all');
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  // '' browses the user's own repository list; otherwise an organization login
+  const [ownerScope, setOwnerScope] = useState('');
   const [refreshing, setRefreshing] = useState(false);
   const [installedProjects, setInstalledProjects] = useState<Set<string>>(new Set());
   const [projectPaths, setProjectPaths] = useState<Record<string, string>>({});
   const [remoteChanges, setRemoteChanges] = useState<Record<string, { hasChanges: boolean; behindCount: number }>>({});
   const [databaseStatus, setDatabaseStatus] = useState<Record<string, DatabaseInfo>>({});
+  const [ciStatuses, setCiStatuses] = useState<Record<string, CiStatus>>({});
   const [selectedRepo, setSelectedRepo] = useState<string | null>(null);
+  const [showNewRepository, setShowNewRepository] = useState(false);
   const { addToast } = useToast();
 
   useEffect(() => {
-    loadRepositories();
+    loadOrganizations();
   }, []);
 
+  useEffect(() => {
+    loadRepositories();
+
+    // Cached lists are shown immediately; pick up the background refresh
+    const unsubscribe = (window as any).electronAPI.github.onRepositoriesUpdated(
+      (update: { org: string | null; data: Repository[] }) => {
+        if ((update.org || '') !== ownerScope) return;
+        setRepos(update.data);
+        checkInstalledProjects(update.data);
+      }
+    );
+    return unsubscribe;
+  }, [ownerScope]);
+
   // Debounce search term
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -59,16 +97,36 @@ function ProjectsPage() {
     return () => clearTimeout(timer);
   }, [searchTerm]);
 
+  const loadOrganizations = async () => {
+    try {
+      const result = await (window as any).electronAPI.github.getOrganizations();
+      if (result.success) {
+        setOrganizations(result.data);
+      } else {
+        console.error('Failed to load organizations:', result.error);
+      }
+    } catch (error) {
+      console.error('Error loading organizations:', error);
+    }
+  };
+
   const loadRepositories = async () => {
     try {
       setLoading(true);
-      const result = await (window as any).electronAPI.github.getAllRepositories();
+      const result = ownerScope
+        ? await (window as any).electronAPI.github.getOrganizationRepositories(ownerScope)
+        : await (window as any).electronAPI.github.getAllRepositories();
       if (result.success) {
         setRepos(result.data);
         // Check which repos are already installed
         await checkInstalledProjects(result.data);
       } else {
         console.error('Failed to load repositories:', result.error);
+        addToast({
+          type: result.code === 'RATE_LIMITED' ? 'warning' : 'error',
+          title: result.code === 'RATE_LIMITED' ? 'GitHub rate limit reached' : 'Failed to load repositories',
+          message: result.error,
+        });
       }
     } catch (error) {
       console.error('Error loading repositories:', error);
@@ -85,7 +143,7 @@ function ProjectsPage() {
     try {
       // Use batch check API - single call for all repos
       const result = await (window as any).electronAPI.project.batchCheck(
-        repositories.map(r => r.name)
+        repositories.map(r => r.full_name)
       );
       
       if (result.success) {
@@ -106,11 +164,11 @@ function ProjectsPage() {
       // Fallback to individual checks if batch fails
       const results = await Promise.allSettled(
         repositories.map(async (repo) => {
-          const result = await (window as any).electronAPI.project.isInstalled(repo.name);
+          const result = await (window as any).electronAPI.project.isInstalled(repo.full_name);
           if (result.success && result.data.installed) {
-            const pathResult = await (window as any).electronAPI.git.getProjectPath(repo.name);
+            const pathResult = await (window as any).electronAPI.git.getProjectPath(repo.full_name);
             return {
-              name: repo.name,
+              name: repo.full_name,
               path: pathResult.success ? pathResult.data.projectPath : null
             };
           }
@@ -136,6 +194,7 @@ function ProjectsPage() {
     // Only check installed projects
     if (installed.size > 0) {
       checkRemoteChangesInBackground(Array.from(installed));
+      checkWorkflowStatusesInBackground(Array.from(installed));
     }
     
     console.log('Installed projects:', installed);
@@ -177,6 +236,23 @@ function ProjectsPage() {
     console.log('Remote changes:', newChanges);
   };
 
+  const checkWorkflowStatusesInBackground = async (installedRepoNames: string[]) => {
+    try {
+      const result = await (window as any).electronAPI.actions.getStatuses(installedRepoNames);
+      if (result.success) {
+        const statuses: Record<string, CiStatus> = {};
+        result.data.forEach((item: any) => {
+          if (item.status) {
+            statuses[item.name] = item.status;
+          }
+        });
+        setCiStatuses(statuses);
+      }
+    } catch (error) {
+      console.warn('Failed to check workflow statuses:', error);
+    }
+  };
+
   const handleRefresh = async () => {
     setRefreshing(true);
     await loadRepositories();
@@ -191,7 +267,7 @@ function ProjectsPage() {
       const searchLower = debouncedSearchTerm.toLowerCase();
       filtered = filtered.filter(
         (repo) =>
-          repo.name.toLowerCase().includes(searchLower) ||
+          repo.full_name.toLowerCase().includes(searchLower) ||
           (repo.description?.toLowerCase().includes(searchLower) ?? false)
       );
     }
@@ -200,18 +276,22 @@ function ProjectsPage() {
       filtered = filtered.filter((repo) => repo.language === languageFilter);
     }
 
+    if (affiliationFilter !== 'all') {
+      filtered = filtered.filter((repo) => repo.affiliation === affiliationFilter);
+    }
+
     if (statusFilter === 'installed') {
-      filtered = filtered.filter((repo) => installedProjects.has(repo.name));
+      filtered = filtered.filter((repo) => installedProjects.has(repo.full_name));
     } else if (statusFilter === 'not-installed') {
-      filtered = filtered.filter((repo) => !installedProjects.has(repo.name));
+      filtered = filtered.filter((repo) => !installedProjects.has(repo.full_name));
     }
 
     return filtered;
-  }, [repos, debouncedSearchTerm, languageFilter, statusFilter, installedProjects]);
+  }, [repos, debouncedSearchTerm, languageFilter, affiliationFilter, statusFilter, installedProjects]);
 
   // Get selected repository object
   const selectedRepoObj = useMemo(() => {
-    return repos.find(r => r.name === selectedRepo) || null;
+    return repos.find(r => r.full_name === selectedRepo) || null;
   }, [repos, selectedRepo]);
 
   // Memoize language list calculation
@@ -243,6 +323,13 @@ function ProjectsPage() {
     }
   };
 
+  // A repository was created or forked and installed: reload and select it
+  const handleRepositoryAdded = async (fullName: string) => {
+    setShowNewRepository(false);
+    await loadRepositories();
+    setSelectedRepo(fullName);
+  };
+
   const handlePullComplete = () => {
     if (selectedRepo) {
       // Clear remote changes for this repo after successful pull
@@ -272,6 +359,14 @@ function ProjectsPage() {
             Repositories
             <span className="repo-count">{filteredRepos.length}</span>
           </h2>
+          <button
+            className="btn btn-primary btn-sm"
+            onClick={() => setShowNewRepository(true)}
+            title="Create a new repository"
+          >
+            <Plus size={14} />
+            New
+          </button>
         </div>
         
         {/* Filters */}
@@ -287,6 +382,35 @@ function ProjectsPage() {
             />
           </div>
           
+          <div className="filter-row">
+            <select
+              className="filter-select"
+              value={ownerScope}
+              onChange={(e) => {
+                setSelectedRepo(null);
+                setOwnerScope(e.target.value);
+              }}
+            >
+              <option value="">My Repositories</option>
+              {organizations.map((org) => (
+                <option key={org.id} value={org.login}>
+                  {org.login}
+                </option>
+              ))}
+            </select>
+
+            <select
+              className="filter-select"
+              value={affiliationFilter}
+              onChange={(e) => setAffiliationFilter(e.target.value as AffiliationFilter)}
+            >
+              <option value="all">All Affiliations</option>
+              <option value="owner">Owner</option>
+              <option value="collaborator">Collaborator</option>
+              <option value="organization_member">Organization</option>
+            </select>
+          </div>
+
           <div className="filter-row">
             <select
               className="filter-select"
@@ -319,14 +443,15 @@ function ProjectsPage() {
               <RepoListItem
                 key={repo.id}
                 repo={repo}
-                isInstalled={installedProjects.has(repo.name)}
-                hasRemoteChanges={remoteChanges[repo.name]?.hasChanges}
-                behindCount={remoteChanges[repo.name]?.behindCount}
-                databaseInfo={databaseStatus[repo.name]}
-                isSelected={selectedRepo === repo.name}
-                onSelect={() => setSelectedRepo(repo.name)}
+                isInstalled={installedProjects.has(repo.full_name)}
+                hasRemoteChanges={remoteChanges[repo.full_name]?.hasChanges}
+                behindCount={remoteChanges[repo.full_name]?.behindCount}
+                databaseInfo={databaseStatus[repo.full_name]}
+                ciStatus={ciStatuses[repo.full_name]}
+                isSelected={selectedRepo === repo.full_name}
+                onSelect={() => setSelectedRepo(repo.full_name)}
                 onInstall={() => {
-                  setSelectedRepo(repo.name);
+                  setSelectedRepo(repo.full_name);
                 }}
               />
             ))
@@ -363,8 +488,17 @@ function ProjectsPage() {
           onInstallComplete={handleInstallComplete}
           onUninstallComplete={handleUninstallComplete}
           onPullComplete={handlePullComplete}
+          onRepositoryAdded={handleRepositoryAdded}
         />
       </div>
+
+      {showNewRepository && (
+        <NewRepositoryDialog
+          organizations={organizations}
+          onClose={() => setShowNewRepository(false)}
+          onCreated={handleRepositoryAdded}
+        />
+      )}
     </div>
   );
 }
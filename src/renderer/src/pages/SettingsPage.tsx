@@ -8,7 +8,11 @@ import {
   Shield,
   Check,
   Eye,
-  EyeOff
+  EyeOff,
+  AlertTriangle,
+  Trash2,
+  Users,
+  Plus
 } from 'lucide-react';
 import { useToast } from '../components/Toast';
 import '../styles/Settings.css';
@@ -18,20 +22,48 @@ interface Settings {
   autoRefreshInterval: number;
   autoStartProjects: boolean;
   maxConcurrentProcesses: number;
+  stopGracePeriod: number;
+  // Megabytes; 0 is off
+  memoryAlertLimit: number;
   defaultCloneDirectory: string;
   showNotifications: boolean;
 }
 
+interface TokenInfo {
+  login: string;
+  scopes: string[] | null;
+  missingScopes: string[];
+  source: 'keychain' | 'env' | null;
+}
+
+interface Account {
+  id: string;
+  host: string;
+  apiBaseUrl: string;
+  login?: string;
+  avatar_url?: string;
+  active: boolean;
+  hasToken: boolean;
+}
+
 function SettingsPage() {
   const [token, setToken] = useState('');
   const [showToken, setShowToken] = useState(false);
   const [tokenSaving, setTokenSaving] = useState(false);
+  const [tokenInfo, setTokenInfo] = useState<TokenInfo | null>(null);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [newAccountHost, setNewAccountHost] = useState('github.com');
+  const [newAccountApiUrl, setNewAccountApiUrl] = useState('');
+  const [newAccountToken, setNewAccountToken] = useState('');
+  const [accountSaving, setAccountSaving] = useState(false);
   const [projectsDir, setProjectsDir] = useState('');
   const [settings, setSettings] = useState<Settings>({
     autoRefresh: true,
     autoRefreshInterval: 5,
     autoStartProjects: false,
     maxConcurrentProcesses: 5,
+    stopGracePeriod: 5,
+    memoryAlertLimit: 0,
     defaultCloneDirectory: '',
     showNotifications: true,
   });
@@ -40,8 +72,30 @@ function SettingsPage() {
   useEffect(() => {
     loadSettings();
     loadProjectsDir();
+    loadTokenInfo();
+    loadAccounts();
   }, []);
 
+  const loadAccounts = async () => {
+    try {
+      const result = await (window as any).electronAPI.github.listAccounts();
+      if (result.success) {
+        setAccounts(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load accounts:', error);
+    }
+  };
+
+  const loadTokenInfo = async () => {
+    try {
+      const result = await (window as any).electronAPI.github.getTokenInfo();
+      setTokenInfo(result.success ? result.data : null);
+    } catch (error) {
+      console.error('Failed to get token info:', error);
+    }
+  };
+
   const loadProjectsDir = async () => {
     try {
       const result = await (window as any).electronAPI.project.getBaseDir();
@@ -71,16 +125,28 @@ function SettingsPage() {
   };
 
   const loadSettings = async () => {
-    // In production, load from electron store
-    const savedSettings = localStorage.getItem('settings');
-    if (savedSettings) {
-      setSettings(JSON.parse(savedSettings));
+    try {
+      const result = await (window as any).electronAPI.settings.get();
+      if (result.success) {
+        setSettings(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load settings:', error);
     }
   };
 
-  const saveSettings = () => {
-    localStorage.setItem('settings', JSON.stringify(settings));
-    addToast({ type: 'success', title: 'Settings Saved', message: 'Your preferences have been updated' });
+  const saveSettings = async () => {
+    try {
+      const result = await (window as any).electronAPI.settings.set(settings);
+      if (!result.success) {
+        addToast({ type: 'error', title: 'Settings Not Saved', message: result.error });
+        return;
+      }
+      setSettings(result.data);
+      addToast({ type: 'success', title: 'Settings Saved', message: 'Your preferences have been updated' });
+    } catch (error) {
+      addToast({ type: 'error', title: 'Error', message: 'Failed to save settings' });
+    }
   };
 
   const handleUpdateToken = async () => {
@@ -91,10 +157,23 @@ function SettingsPage() {
 
     setTokenSaving(true);
     try {
-      // In production, this would securely store the token
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-      addToast({ type: 'success', title: 'Token Updated', message: 'GitHub token has been saved securely' });
+      const result = await (window as any).electronAPI.github.setToken(token.trim());
+      if (!result.success) {
+        addToast({ type: 'error', title: 'Token Not Saved', message: result.error });
+        return;
+      }
+
+      setTokenInfo(result.data);
       setToken('');
+      if (result.data.missingScopes.length > 0) {
+        addToast({
+          type: 'warning',
+          title: 'Token Saved With Missing Scopes',
+          message: `Add ${result.data.missingScopes.join(', ')} to access all repositories`,
+        });
+      } else {
+        addToast({ type: 'success', title: 'Token Updated', message: `Connected as @${result.data.login}` });
+      }
     } catch (error) {
       addToast({ type: 'error', title: 'Error', message: 'Failed to save token' });
     } finally {
@@ -102,6 +181,74 @@ function SettingsPage() {
     }
   };
 
+  const handleRemoveToken = async () => {
+    if (!confirm('Remove the saved GitHub token from this computer?')) return;
+
+    try {
+      const result = await (window as any).electronAPI.github.clearToken();
+      if (result.success) {
+        setTokenInfo(null);
+        addToast({ type: 'info', title: 'Token Removed', message: 'Restart or add a new token to reconnect' });
+        loadTokenInfo();
+      }
+    } catch (error) {
+      addToast({ type: 'error', title: 'Error', message: 'Failed to remove token' });
+    }
+  };
+
+  const handleAddAccount = async () => {
+    if (!newAccountToken.trim()) {
+      addToast({ type: 'error', title: 'Error', message: 'Please enter a token' });
+      return;
+    }
+
+    setAccountSaving(true);
+    try {
+      const result = await (window as any).electronAPI.github.addAccount(
+        newAccountHost,
+        newAccountToken.trim(),
+        newAccountApiUrl.trim() || undefined
+      );
+      if (!result.success) {
+        addToast({ type: 'error', title: 'Account Not Added', message: result.error });
+        return;
+      }
+      setNewAccountToken('');
+      setNewAccountApiUrl('');
+      addToast({ type: 'success', title: 'Account Added', message: `Switching to @${result.data.login} on ${result.data.host}` });
+      // Everything on screen belongs to the previous account
+      window.location.reload();
+    } catch (error) {
+      addToast({ type: 'error', title: 'Error', message: 'Failed to add account' });
+    } finally {
+      setAccountSaving(false);
+    }
+  };
+
+  const handleSwitchAccount = async (accountId: string) => {
+    const result = await (window as any).electronAPI.github.setActiveAccount(accountId);
+    if (result.success) {
+      window.location.reload();
+    } else {
+      addToast({ type: 'error', title: 'Error', message: result.error });
+    }
+  };
+
+  const handleRemoveAccount = async (account: Account) => {
+    if (!confirm(`Remove ${account.login ? `@${account.login}` : 'this account'} on ${account.host} from this computer?`)) return;
+
+    const result = await (window as any).electronAPI.github.removeAccount(account.id);
+    if (!result.success) {
+      addToast({ type: 'error', title: 'Error', message: result.error });
+      return;
+    }
+    if (account.active) {
+      window.location.reload();
+    } else {
+      loadAccounts();
+    }
+  };
+
   const handleSettingChange = <K extends keyof Settings>(key: K, value: Settings[K]) => {
     setSettings((prev) => ({ ...prev, [key]: value }));
   };
@@ -127,6 +274,46 @@ function SettingsPage() {
           </div>
         </div>
         <div className="section-content">
+          {tokenInfo && (
+            <div className="token-status">
+              <div className="token-status-row">
+                <span>
+                  Connected as <strong>@{tokenInfo.login}</strong>
+                  {tokenInfo.source === 'env' && ' (from GITHUB_TOKEN)'}
+                  {tokenInfo.source === 'keychain' && ' (stored in system keychain)'}
+                </span>
+                {tokenInfo.source === 'keychain' && (
+                  <button className="btn btn-ghost btn-sm" onClick={handleRemoveToken}>
+                    <Trash2 size={14} />
+                    Remove
+                  </button>
+                )}
+              </div>
+              {tokenInfo.scopes ? (
+                <div className="token-scopes">
+                  {tokenInfo.scopes.length > 0 ? (
+                    tokenInfo.scopes.map((scope) => (
+                      <span key={scope} className="token-scope">{scope}</span>
+                    ))
+                  ) : (
+                    <span className="form-hint">This token has no scopes</span>
+                  )}
+                </div>
+              ) : (
+                <p className="form-hint">Fine-grained token: scopes are managed per repository on GitHub</p>
+              )}
+              {tokenInfo.missingScopes.length > 0 && (
+                <div className="token-warning">
+                  <AlertTriangle size={16} />
+                  <span>
+                    Missing required scope{tokenInfo.missingScopes.length > 1 ? 's' : ''}:{' '}
+                    <code>{tokenInfo.missingScopes.join(', ')}</code>. Private and organization
+                    repositories may not be listed.
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
           <div className="form-group">
             <label className="form-label">Personal Access Token</label>
             <div className="token-input-wrapper">
@@ -147,6 +334,7 @@ function SettingsPage() {
             </div>
             <p className="form-hint">
               Generate a token at GitHub → Settings → Developer settings → Personal access tokens
+              with the <code>repo</code> and <code>read:org</code> scopes
             </p>
           </div>
           <button
@@ -169,6 +357,105 @@ function SettingsPage() {
         </div>
       </section>
 
+      {/* Accounts */}
+      <section className="settings-section">
+        <div className="section-header">
+          <div className="section-icon">
+            <Users size={20} />
+          </div>
+          <div className="section-info">
+            <h2>Accounts</h2>
+            <p>Connect more GitHub accounts or GitHub Enterprise Server hosts</p>
+          </div>
+        </div>
+        <div className="section-content">
+          {accounts.length > 0 && (
+            <div className="account-list">
+              {accounts.map((account) => (
+                <div key={account.id} className={`account-row ${account.active ? 'account-row-active' : ''}`}>
+                  <div className="account-identity">
+                    {account.avatar_url && <img src={account.avatar_url} alt="" className="account-avatar" />}
+                    <div className="setting-info">
+                      <span className="setting-label">
+                        {account.login ? `@${account.login}` : 'Not connected'}
+                      </span>
+                      <span className="setting-description">{account.host}</span>
+                    </div>
+                  </div>
+                  <div className="account-actions">
+                    {account.active ? (
+                      <span className="account-badge">
+                        <Check size={12} />
+                        Active
+                      </span>
+                    ) : (
+                      <button
+                        className="btn btn-secondary btn-sm"
+                        onClick={() => handleSwitchAccount(account.id)}
+                        disabled={!account.hasToken}
+                      >
+                        Switch
+                      </button>
+                    )}
+                    <button className="btn btn-ghost btn-sm" onClick={() => handleRemoveAccount(account)}>
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="form-group">
+            <label className="form-label">Host</label>
+            <input
+              type="text"
+              className="input"
+              placeholder="github.com or github.example.com"
+              value={newAccountHost}
+              onChange={(e) => setNewAccountHost(e.target.value)}
+            />
+          </div>
+          <div className="form-group">
+            <label className="form-label">API URL (optional)</label>
+            <input
+              type="text"
+              className="input"
+              placeholder="https://github.example.com/api/v3"
+              value={newAccountApiUrl}
+              onChange={(e) => setNewAccountApiUrl(e.target.value)}
+            />
+            <p className="form-hint">Only needed when your Enterprise server doesn't serve the API under /api/v3</p>
+          </div>
+          <div className="form-group">
+            <label className="form-label">Personal Access Token</label>
+            <input
+              type="password"
+              className="input"
+              placeholder="ghp_xxxxxxxxxxxxxxxxxxxx"
+              value={newAccountToken}
+              onChange={(e) => setNewAccountToken(e.target.value)}
+            />
+          </div>
+          <button
+            className="btn btn-primary"
+            onClick={handleAddAccount}
+            disabled={accountSaving || !newAccountToken.trim()}
+          >
+            {accountSaving ? (
+              <>
+                <RefreshCw size={16} className="spin" />
+                Connecting...
+              </>
+            ) : (
+              <>
+                <Plus size={16} />
+                Add Account
+              </>
+            )}
+          </button>
+        </div>
+      </section>
+
       {/* Repository Settings */}
       <section className="settings-section">
         <div className="section-header">
@@ -277,7 +564,7 @@ function SettingsPage() {
           <div className="setting-row">
             <div className="setting-info">
               <span className="setting-label">Max concurrent processes</span>
-              <span className="setting-description">Maximum projects running simultaneously</span>
+              <span className="setting-description">Maximum projects running simultaneously; more wait in a queue</span>
             </div>
             <input
               type="number"
@@ -288,6 +575,36 @@ function SettingsPage() {
               onChange={(e) => handleSettingChange('maxConcurrentProcesses', parseInt(e.target.value))}
             />
           </div>
+
+          <div className="setting-row">
+            <div className="setting-info">
+              <span className="setting-label">Stop grace period (seconds)</span>
+              <span className="setting-description">Time a stopped project gets to shut down before it is killed</span>
+            </div>
+            <input
+              type="number"
+              className="input setting-input-sm"
+              min={0}
+              max={120}
+              value={settings.stopGracePeriod}
+              onChange={(e) => handleSettingChange('stopGracePeriod', parseInt(e.target.value))}
+            />
+          </div>
+
+          <div className="setting-row">
+            <div className="setting-info">
+              <span className="setting-label">Memory alert (MB)</span>
+              <span className="setting-description">Alert when a running project uses more memory than this, 0 for never</span>
+            </div>
+            <input
+              type="number"
+              className="input setting-input-sm"
+              min={0}
+              step={256}
+              value={settings.memoryAlertLimit}
+              onChange={(e) => handleSettingChange('memoryAlertLimit', parseInt(e.target.value) || 0)}
+            />
+          </div>
         </div>
       </section>
 